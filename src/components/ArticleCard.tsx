@@ -1,5 +1,7 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { Article } from '../types/Article';
+import { htmlToExcerpt } from '../utils/sanitizeHtml';
+import { getLanguageName } from '../utils/languages';
 
 interface ArticleCardProps {
   article: Article;
@@ -9,6 +11,9 @@ interface ArticleCardProps {
   isRead?: boolean;
   keywords?: Record<string, { name: string; displayName: string }>;
   isAdmin?: boolean;
+  selected?: boolean;
+  onSelect?: (articleId: string, shiftKey: boolean) => void;
+  focused?: boolean;
 }
 
 const ArticleCard: React.FC<ArticleCardProps> = ({
@@ -18,8 +23,25 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
   onDelete,
   isRead = false,
   keywords = {},
-  isAdmin = false
+  isAdmin = false,
+  selected = false,
+  onSelect,
+  focused = false
 }) => {
+  const cardRef = useRef<HTMLDivElement | null>(null);
+  // Feed content is raw HTML; the card only shows a plain-text excerpt
+  // Articles in other languages are listed in translation
+  const { translation } = article;
+  const previewContent = translation?.content || article.content || '';
+  const excerpt = useMemo(() => htmlToExcerpt(previewContent), [previewContent]);
+
+  // Keep the keyboard-focused card in view while moving with j/k
+  useEffect(() => {
+    if (focused) {
+      cardRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [focused]);
+
   // Type guard function for keyword objects
   const isKeywordObject = (match: any): match is { _id: string; displayName?: string; name?: string } => {
     return match && typeof match === 'object' && '_id' in match && typeof match._id === 'string';
@@ -37,7 +59,7 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
   };
 
   return (
-    <div className={`group relative bg-white dark:bg-gray-800 rounded-xl shadow-lg hover:shadow-xl border border-gray-200 dark:border-gray-700 overflow-hidden transition-all duration-300 transform hover:-translate-y-1 ${isRead ? 'opacity-75' : ''}`}>
+    <div ref={cardRef} className={`group relative bg-white dark:bg-gray-800 rounded-xl shadow-lg hover:shadow-xl border border-gray-200 dark:border-gray-700 overflow-hidden transition-all duration-300 transform hover:-translate-y-1 ${isRead ? 'opacity-75' : ''} ${selected ? 'ring-2 ring-primary-500' : ''} ${focused ? 'outline outline-2 outline-offset-4 outline-blue-500' : ''}`}>
       {/* Action buttons - positioned absolutely in top-right */}
       <div className="absolute top-4 right-4 flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10">
         {onReadToggle && (
@@ -97,6 +119,16 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
         {/* Header with source and date */}
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center space-x-3">
+            {onSelect && (
+              <input
+                type="checkbox"
+                checked={selected}
+                readOnly
+                onClick={(e) => onSelect(article._id, e.shiftKey)}
+                className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500 cursor-pointer"
+                title="Select (shift-click to select a range)"
+              />
+            )}
             <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
               <span className="text-white text-xs font-bold">
                 {article.source?.charAt(0).toUpperCase() || 'N'}
@@ -113,12 +145,12 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
 
         {/* Title */}
         <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-3 leading-tight line-clamp-2 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors duration-200">
-          {article.title}
+          {translation?.title || article.title}
         </h3>
         
         {/* Content preview */}
         <p className="text-gray-600 dark:text-gray-300 mb-4 line-clamp-3 leading-relaxed">
-          {article.content}
+          {excerpt}
         </p>
         
         {/* Tags and badges */}
@@ -130,6 +162,16 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
             </span>
           )}
           
+          {/* Language tag for translated articles */}
+          {translation && article.lang && (
+            <span
+              className="px-2 py-1 bg-sky-100 dark:bg-sky-900/50 text-sky-800 dark:text-sky-200 text-xs font-medium rounded-md border border-sky-200 dark:border-sky-700"
+              title={`Translated from ${getLanguageName(article.lang)}`}
+            >
+              🌐 {article.lang.toUpperCase()}
+            </span>
+          )}
+
           {/* Industry tags */}
           {article.industries && article.industries.length > 0 ? (
             article.industries.map((industry, index) => (
@@ -168,6 +210,17 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
             </div>
           )}
           
+          {/* Saved search matches */}
+          {article.savedSearchMatches && article.savedSearchMatches.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {article.savedSearchMatches.map((match) => (
+                <span key={match._id} className="px-2 py-1 bg-purple-100 dark:bg-purple-900/50 text-purple-800 dark:text-purple-200 text-xs font-medium rounded-md border border-purple-200 dark:border-purple-700">
+                  🔔 {match.name}
+                </span>
+              ))}
+            </div>
+          )}
+          
           {/* Threat Level - Enhanced colors */}
           {article.threatLevel && article.threatLevel !== 'NONE' && (
             <span className={`px-2 py-1 text-xs font-medium rounded-md border ${
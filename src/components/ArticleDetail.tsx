@@ -1,8 +1,15 @@
-import React, { useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Article } from '../types/Article';
 import { useViewedArticles } from '../context/ViewedArticlesContext';
 import { useReadStatus } from '../context/ReadStatusContext';
+import { useSavedArticles } from '../context/SavedArticlesContext';
+import { useKeyboardShortcuts } from '../context/KeyboardShortcutsContext';
+import { useHotkeys } from '../hooks/useHotkeys';
+import { apiService } from '../services/api';
+import ReaderView from './ReaderView';
+import ArticleRevisions from './ArticleRevisions';
+import { getLanguageName } from '../utils/languages';
 
 interface ArticleDetailProps {
   article: Article | null;
@@ -11,11 +18,28 @@ interface ArticleDetailProps {
 
 const ArticleDetail: React.FC<ArticleDetailProps> = ({ article, loading }) => {
   const { markAsViewed } = useViewedArticles();
-  const { markAsRead, isRead } = useReadStatus();
+  const { markAsRead, markAsUnread, isRead } = useReadStatus();
+  const { isSaved, saveArticle, unsaveArticle } = useSavedArticles();
+  const { overlayOpen } = useKeyboardShortcuts();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Article order of the list this article was opened from, if any
+  const listArticleIds: string[] = location.state?.articleIds || [];
+  // Only mark as read on open, so toggling back to unread with r sticks
+  const autoReadIdRef = useRef<string | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
+  // Articles in other languages open in translation
+  const [showOriginal, setShowOriginal] = useState(false);
+
+  useEffect(() => {
+    setShowChanges(false);
+    setShowOriginal(false);
+  }, [article?._id]);
 
   // Mark article as viewed and read when it's loaded
   useEffect(() => {
-    if (article) {
+    if (article && autoReadIdRef.current !== article._id) {
+      autoReadIdRef.current = article._id;
       markAsViewed(article._id);
       // Mark as read if not already read
       if (!isRead(article._id)) {
@@ -23,6 +47,36 @@ const ArticleDetail: React.FC<ArticleDetailProps> = ({ article, loading }) => {
       }
     }
   }, [article, markAsViewed, markAsRead, isRead]);
+
+  const goToSibling = (offset: number) => {
+    if (!article) {
+      return;
+    }
+    const siblingId = listArticleIds[listArticleIds.indexOf(article._id) + offset];
+    if (siblingId) {
+      // Replace so going back returns to the list rather than the previous article
+      navigate(`/article/${siblingId}`, { replace: true, state: location.state });
+    }
+  };
+
+  const handleSpam = async (articleId: string) => {
+    try {
+      await apiService.markAsSpam(articleId);
+    } catch (error) {
+      console.error('Error marking article as spam:', error);
+      alert('Error: Failed to mark article as spam. Please try again.');
+    }
+  };
+
+  useHotkeys({
+    'j': () => goToSibling(1),
+    'k': () => goToSibling(-1),
+    'o': () => article && window.open(article.link, '_blank', 'noopener,noreferrer'),
+    'r': () => article && (isRead(article._id) ? markAsUnread(article._id) : markAsRead(article._id)),
+    's': () => article && (isSaved(article._id) ? unsaveArticle(article._id) : saveArticle(article._id)),
+    'x': () => article && handleSpam(article._id),
+    'u': () => (listArticleIds.length > 0 ? navigate(-1) : navigate('/articles')),
+  }, !!article && !overlayOpen);
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -79,6 +133,9 @@ const ArticleDetail: React.FC<ArticleDetailProps> = ({ article, loading }) => {
     );
   }
 
+  const { translation } = article;
+  const translated = translation && !showOriginal;
+
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
       <div className="mb-6">
@@ -96,9 +153,27 @@ const ArticleDetail: React.FC<ArticleDetailProps> = ({ article, loading }) => {
         <header className="mb-6">
           <div className="flex items-start justify-between mb-4">
             <h1 className="text-3xl font-bold text-gray-900 mb-4">
-              {article.title}
+              {translated ? translation.title : article.title}
             </h1>
             <div className="flex items-center space-x-2">
+              {translation && (
+                <button
+                  onClick={() => setShowOriginal(!showOriginal)}
+                  className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-sky-100 text-sky-700 hover:bg-sky-200 whitespace-nowrap"
+                  title={`Machine translation from ${getLanguageName(article.lang || 'und')}`}
+                >
+                  {showOriginal ? 'View translation' : 'View original'}
+                </button>
+              )}
+              {article.revisedAt && (
+                <button
+                  onClick={() => setShowChanges(!showChanges)}
+                  className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-orange-100 text-orange-700 hover:bg-orange-200"
+                  title={`Updated by the source on ${formatDate(String(article.revisedAt))}. Click to ${showChanges ? 'hide' : 'show'} the changes.`}
+                >
+                  Updated
+                </button>
+              )}
               <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getSeverityColor(article.severity)}`}>
                 {article.severity ? article.severity.charAt(0).toUpperCase() + article.severity.slice(1) : 'Unknown'} Severity
               </span>
@@ -157,10 +232,42 @@ const ArticleDetail: React.FC<ArticleDetailProps> = ({ article, loading }) => {
           </div>
         </header>
 
-        <div className="prose max-w-none">
-          <div className="text-gray-700 leading-relaxed mb-8">
-            {article.content || 'No content available'}
-          </div>
+        {showChanges && (
+          <section className="mb-8 rounded-lg border border-orange-200 bg-orange-50/50 dark:border-orange-800 dark:bg-orange-900/10 p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                Updated {article.revisionCount || 1} time{(article.revisionCount || 1) !== 1 ? 's' : ''} by the source
+              </h2>
+              <button
+                onClick={() => setShowChanges(false)}
+                className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              >
+                Hide changes
+              </button>
+            </div>
+            <ArticleRevisions articleId={article._id} />
+          </section>
+        )}
+
+        <div className="mb-8">
+          {translated && (
+            <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+              Translated from {getLanguageName(article.lang || 'und')} ({translation.provider})
+            </p>
+          )}
+          {article.fullText ? (
+            <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+              Full text extracted from the original page
+            </p>
+          ) : article.fullTextError ? (
+            <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+              Full text unavailable ({article.fullTextError.message}); showing the feed summary
+            </p>
+          ) : null}
+          <ReaderView
+            html={translated ? translation.fullText || translation.content : article.fullText || article.content}
+            baseUrl={article.link}
+          />
         </div>
 
         <footer className="border-t border-gray-200 pt-6">
@@ -1,8 +1,13 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import ArticleCard from './ArticleCard';
+import BulkActionBar, { BulkAction } from './BulkActionBar';
 import { Article } from '../types/Article';
 import { useReadStatus } from '../context/ReadStatusContext';
-import { apiService } from '../services/api';
+import { useSavedArticles } from '../context/SavedArticlesContext';
+import { useKeyboardShortcuts } from '../context/KeyboardShortcutsContext';
+import { useHotkeys } from '../hooks/useHotkeys';
+import { apiService, ArticleQuery, BulkArticleTarget } from '../services/api';
 
 interface ArticleListProps {
   articles: Article[];
@@ -10,10 +15,96 @@ interface ArticleListProps {
   onDelete?: (articleId: string) => void;
   keywords?: Record<string, { name: string; displayName: string }>;
   isAdmin?: boolean;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Total number of articles matching matchingQuery, used for "select all matching"
+  totalCount?: number;
+  matchingQuery?: ArticleQuery;
+  // Called after a bulk action that removes articles from the list (spam, not spam, delete)
+  onBulkChange?: () => void;
 }
 
-const ArticleList: React.FC<ArticleListProps> = ({ articles, loading, onDelete, keywords = {}, isAdmin = false }) => {
-  const { isRead, markAsRead, markAsUnread } = useReadStatus();
+interface Story {
+  key: string;
+  primary: Article;
+  similar: Article[];
+}
+
+// Group the loaded near-duplicate reports of a story under its primary article
+// (or its first loaded report), at the position of the story's first report
+const groupStories = (articles: Article[]): Story[] => {
+  const members = new Map<string, Article[]>();
+  articles.forEach(article => {
+    const key = article.storyId || article._id;
+    if (!members.has(key)) {
+      members.set(key, []);
+    }
+    members.get(key)!.push(article);
+  });
+
+  return Array.from(members.entries()).map(([key, reports]) => {
+    const primary = reports.find(report => report._id === key) || reports[0];
+    return { key, primary, similar: reports.filter(report => report !== primary) };
+  });
+};
+
+const ArticleList: React.FC<ArticleListProps> = ({ articles, loading, onDelete, keywords = {}, isAdmin = false, hasMore = false, loadingMore = false, onLoadMore, totalCount, matchingQuery, onBulkChange }) => {
+  const { isRead, markAsRead, markAsUnread, refreshReadStatus } = useReadStatus();
+  const { isSaved, saveArticle, unsaveArticle, refreshSavedStatus } = useSavedArticles();
+  const { overlayOpen } = useKeyboardShortcuts();
+  const navigate = useNavigate();
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  const [bulkWorking, setBulkWorking] = useState(false);
+  // Index of the last clicked checkbox, the start of a shift-click range
+  const anchorIndexRef = useRef<number | null>(null);
+  // Article highlighted for keyboard triage (j/k), an index into visibleArticles
+  const [focusedIndex, setFocusedIndex] = useState(-1);
+  // Stories whose similar reports are shown
+  const [expandedStories, setExpandedStories] = useState<Set<string>>(new Set());
+  const stories = useMemo(() => groupStories(articles), [articles]);
+  // Articles in display order; similar reports only while their story is expanded
+  const visibleArticles = useMemo(() => stories.flatMap(story => (
+    expandedStories.has(story.key) ? [story.primary, ...story.similar] : [story.primary]
+  )), [stories, expandedStories]);
+  const matchingKey = JSON.stringify(matchingQuery || {});
+  const matchingCount = totalCount ?? articles.length;
+
+  // A new query starts with an empty selection
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setAllMatchingSelected(false);
+    anchorIndexRef.current = null;
+    setFocusedIndex(-1);
+  }, [matchingKey]);
+
+  // Drop selected articles that are no longer in the list
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const loadedIds = new Set(articles.map(article => article._id));
+      const next = new Set(Array.from(prev).filter(id => loadedIds.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [articles]);
+
+  // Infinite scroll: request the next page when the sentinel scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !onLoadMore || !hasMore || loadingMore) {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        onLoadMore();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore, hasMore, loadingMore, articles.length]);
 
   const handleMarkAsRead = async (articleId: string) => {
     try {
@@ -62,6 +153,116 @@ const ArticleList: React.FC<ArticleListProps> = ({ articles, loading, onDelete,
     }
   };
 
+  const handleSelect = (articleId: string, shiftKey: boolean) => {
+    const index = visibleArticles.findIndex(article => article._id === articleId);
+    const anchorIndex = anchorIndexRef.current;
+    setAllMatchingSelected(false);
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (shiftKey && anchorIndex !== null && anchorIndex < visibleArticles.length) {
+        const start = Math.min(anchorIndex, index);
+        const end = Math.max(anchorIndex, index);
+        visibleArticles.slice(start, end + 1).forEach(article => next.add(article._id));
+      } else if (next.has(articleId)) {
+        next.delete(articleId);
+      } else {
+        next.add(articleId);
+      }
+      return next;
+    });
+    anchorIndexRef.current = index;
+  };
+
+  const handleToggleAll = () => {
+    setAllMatchingSelected(false);
+    setSelectedIds(prev => prev.size === articles.length ? new Set() : new Set(articles.map(article => article._id)));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAllMatchingSelected(false);
+    anchorIndexRef.current = null;
+  };
+
+  const handleBulkAction = async (action: BulkAction) => {
+    const articleIds = Array.from(selectedIds);
+    const target: BulkArticleTarget = allMatchingSelected && matchingQuery ? { query: matchingQuery } : { articleIds };
+    const count = allMatchingSelected ? matchingCount : articleIds.length;
+
+    if (action === 'delete' && !window.confirm(`Are you sure you want to delete ${count} articles? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setBulkWorking(true);
+      switch (action) {
+        case 'read':
+        case 'unread':
+          await apiService.bulkMarkRead(target, action === 'read');
+          await refreshReadStatus(articleIds);
+          break;
+        case 'save':
+        case 'unsave':
+          await apiService.bulkSaveArticles(target, action === 'save');
+          await refreshSavedStatus(articleIds);
+          break;
+        case 'spam':
+        case 'not-spam':
+          await apiService.bulkMarkSpam(target, action === 'spam');
+          onBulkChange?.();
+          break;
+        case 'delete':
+          await apiService.bulkDeleteArticles(target);
+          onBulkChange?.();
+          break;
+      }
+      clearSelection();
+    } catch (error) {
+      console.error(`Error applying bulk action ${action}:`, error);
+      alert(`Error: Failed to update ${count} articles. Please try again.`);
+    } finally {
+      setBulkWorking(false);
+    }
+  };
+
+  const focusedArticle = visibleArticles[focusedIndex];
+
+  // Open the detail view with the list order so j/k keep working there
+  const openArticle = (articleId: string) => {
+    navigate(`/article/${articleId}`, { state: { articleIds: visibleArticles.map(article => article._id) } });
+  };
+
+  const toggleStory = (key: string) => {
+    setExpandedStories(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleSaveToggle = (articleId: string) => {
+    if (isSaved(articleId)) {
+      unsaveArticle(articleId);
+    } else {
+      saveArticle(articleId);
+    }
+  };
+
+  useHotkeys({
+    'j': () => setFocusedIndex(prev => Math.min(prev + 1, visibleArticles.length - 1)),
+    'k': () => setFocusedIndex(prev => Math.max(prev - 1, 0)),
+    'o': () => focusedArticle && openArticle(focusedArticle._id),
+    'Enter': () => focusedArticle && openArticle(focusedArticle._id),
+    'r': () => focusedArticle && handleMarkAsRead(focusedArticle._id),
+    's': () => focusedArticle && handleSaveToggle(focusedArticle._id),
+    'x': () => focusedArticle && handleSpamToggle(focusedArticle._id),
+  }, !loading && articles.length > 0 && !overlayOpen);
+
   if (loading) {
     return (
       <div className="flex justify-center items-center py-12">
@@ -87,18 +288,68 @@ const ArticleList: React.FC<ArticleListProps> = ({ articles, loading, onDelete,
 
   return (
     <div className="space-y-6">
-      {articles.map((article) => (
-        <ArticleCard 
-          key={article._id} 
-          article={article} 
-          onReadToggle={handleMarkAsRead}
-          onSpamToggle={handleSpamToggle}
-          onDelete={handleDeleteArticle}
-          isRead={isRead(article._id)}
-          keywords={keywords}
-          isAdmin={isAdmin}
-        />
-      ))}
+      <BulkActionBar
+        selectedCount={selectedIds.size}
+        loadedCount={articles.length}
+        totalCount={matchingCount}
+        allMatchingSelected={allMatchingSelected}
+        canSelectAllMatching={!!matchingQuery && matchingCount > articles.length}
+        working={bulkWorking}
+        isAdmin={isAdmin}
+        onToggleAll={handleToggleAll}
+        onSelectAllMatching={() => setAllMatchingSelected(true)}
+        onClear={clearSelection}
+        onAction={handleBulkAction}
+      />
+      {stories.map(story => {
+        const expanded = expandedStories.has(story.key);
+        const renderCard = (article: Article) => (
+          <ArticleCard 
+            key={article._id} 
+            article={article} 
+            onReadToggle={handleMarkAsRead}
+            onSpamToggle={handleSpamToggle}
+            onDelete={handleDeleteArticle}
+            isRead={isRead(article._id)}
+            keywords={keywords}
+            isAdmin={isAdmin}
+            selected={selectedIds.has(article._id)}
+            onSelect={handleSelect}
+            focused={!!focusedArticle && focusedArticle._id === article._id}
+          />
+        );
+
+        return (
+          <div key={story.key} className="space-y-3">
+            {renderCard(story.primary)}
+            {story.similar.length > 0 && (
+              <button
+                onClick={() => toggleStory(story.key)}
+                className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline"
+              >
+                {expanded
+                  ? 'Hide similar reports'
+                  : `+${story.similar.length} similar report${story.similar.length !== 1 ? 's' : ''}`}
+              </button>
+            )}
+            {expanded && (
+              <div className="ml-6 pl-4 border-l-2 border-gray-200 dark:border-gray-700 space-y-3">
+                {story.similar.map(renderCard)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {onLoadMore && hasMore && (
+        <div ref={sentinelRef} className="flex justify-center items-center py-6">
+          {loadingMore && (
+            <>
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+              <span className="ml-3 text-gray-600 dark:text-gray-400">Loading more articles...</span>
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 };
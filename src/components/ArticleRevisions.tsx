@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { apiService } from '../services/api';
+import { ArticleVersion, TextDiffPart } from '../types/Article';
+
+interface ArticleRevisionsProps {
+  articleId: string;
+}
+
+const formatDate = (value: string | Date) => new Date(value).toLocaleString();
+
+const DiffText: React.FC<{ parts: TextDiffPart[] }> = ({ parts }) => (
+  <>
+    {parts.map((part, index) => {
+      const text = index > 0 ? ` ${part.text}` : part.text;
+      if (part.type === 'added') {
+        return <ins key={index} className="no-underline bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200">{text}</ins>;
+      }
+      if (part.type === 'removed') {
+        return <del key={index} className="bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-200">{text}</del>;
+      }
+      return <span key={index}>{text}</span>;
+    })}
+  </>
+);
+
+// Diff between the versions of an article its source updated in place
+const ArticleRevisions: React.FC<ArticleRevisionsProps> = ({ articleId }) => {
+  const [versions, setVersions] = useState<ArticleVersion[]>([]);
+  // Index of the version whose change is shown
+  const [selected, setSelected] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const result = await apiService.getArticleRevisions(articleId);
+        if (!cancelled) {
+          setVersions(result);
+          setSelected(result.length - 1);
+        }
+      } catch (err: any) {
+        if (!cancelled) {
+          setError(err.response?.data?.error || 'Failed to load the article history');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [articleId]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading changes...</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  }
+
+  const version = versions[selected];
+  if (!version || !version.change) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No changes recorded for this article.</p>;
+  }
+
+  const { change } = version;
+  const titleChanged = change.title.some(part => part.type !== 'equal');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-sm text-gray-700 dark:text-gray-300">Changes in</label>
+        <select
+          value={selected}
+          onChange={(e) => setSelected(parseInt(e.target.value, 10))}
+          className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+        >
+          {versions.map((entry, index) => entry.change && (
+            <option key={index} value={index}>
+              Update {index} of {versions.length - 1} ({formatDate(entry.since)})
+            </option>
+          ))}
+        </select>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+          change.material
+            ? 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200'
+            : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+        }`}>
+          {change.material ? 'Material change' : 'Minor change'} • {change.changedWords} word{change.changedWords !== 1 ? 's' : ''}
+        </span>
+      </div>
+      {titleChanged && (
+        <p className="font-semibold text-gray-900 dark:text-gray-100">
+          <DiffText parts={change.title} />
+        </p>
+      )}
+      <p className="text-sm leading-relaxed text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+        <DiffText parts={change.content} />
+      </p>
+    </div>
+  );
+};
+
+export default ArticleRevisions;
@@ -0,0 +1,98 @@
+import React from 'react';
+
+export type BulkAction = 'read' | 'unread' | 'save' | 'unsave' | 'spam' | 'not-spam' | 'delete';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  loadedCount: number;
+  totalCount: number;
+  allMatchingSelected: boolean;
+  canSelectAllMatching: boolean;
+  working: boolean;
+  isAdmin?: boolean;
+  onToggleAll: () => void;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onAction: (action: BulkAction) => void;
+}
+
+const ACTIONS: { action: BulkAction; label: string; className: string }[] = [
+  { action: 'read', label: 'Mark Read', className: 'text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-300' },
+  { action: 'unread', label: 'Mark Unread', className: 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white' },
+  { action: 'save', label: 'Save', className: 'text-yellow-600 dark:text-yellow-400 hover:text-yellow-800 dark:hover:text-yellow-300' },
+  { action: 'unsave', label: 'Unsave', className: 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white' },
+  { action: 'spam', label: 'Spam', className: 'text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300' },
+  { action: 'not-spam', label: 'Not Spam', className: 'text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-300' },
+];
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  loadedCount,
+  totalCount,
+  allMatchingSelected,
+  canSelectAllMatching,
+  working,
+  isAdmin = false,
+  onToggleAll,
+  onSelectAllMatching,
+  onClear,
+  onAction
+}) => {
+  const allLoadedSelected = loadedCount > 0 && selectedCount === loadedCount;
+  const displayedCount = allMatchingSelected ? totalCount : selectedCount;
+
+  return (
+    <div className="sticky top-0 z-20 flex flex-wrap items-center gap-4 px-4 py-2 rounded-lg bg-gray-100 dark:bg-dark-700 border border-gray-200 dark:border-dark-600 text-sm">
+      <label className="flex items-center space-x-2 text-gray-700 dark:text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={allLoadedSelected}
+          onChange={onToggleAll}
+          className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>{selectedCount > 0 ? `${displayedCount} selected` : 'Select all'}</span>
+      </label>
+
+      {allLoadedSelected && canSelectAllMatching && !allMatchingSelected && (
+        <button
+          onClick={onSelectAllMatching}
+          className="text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-300 font-medium"
+        >
+          Select all {totalCount} matching articles
+        </button>
+      )}
+
+      {selectedCount > 0 && (
+        <>
+          {ACTIONS.map(({ action, label, className }) => (
+            <button
+              key={action}
+              onClick={() => onAction(action)}
+              disabled={working}
+              className={`font-medium transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${className}`}
+            >
+              {label}
+            </button>
+          ))}
+          {isAdmin && (
+            <button
+              onClick={() => onAction('delete')}
+              disabled={working}
+              className="font-medium text-red-700 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            className="ml-auto text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            Clear selection
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
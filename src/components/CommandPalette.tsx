@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useReadStatus } from '../context/ReadStatusContext';
+import { useDarkMode } from '../context/DarkModeContext';
+import { APP_ROUTES, canAccessRoute } from '../config/routes';
+import { apiService } from '../services/api';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onClose: () => void;
+  onShowHelp: () => void;
+}
+
+interface Command {
+  id: string;
+  label: string;
+  group: 'Go to' | 'Action';
+  run: () => void | Promise<void>;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onClose, onShowHelp }) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { markAllAsRead } = useReadStatus();
+  const { toggleDarkMode } = useDarkMode();
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (open) {
+      setQuery('');
+      setActiveIndex(0);
+      requestAnimationFrame(() => inputRef.current?.focus());
+    }
+  }, [open]);
+
+  if (!open) {
+    return null;
+  }
+
+  const commands: Command[] = [
+    ...APP_ROUTES
+      .filter(route => canAccessRoute(route, user))
+      .map((route): Command => ({
+        id: route.path,
+        label: route.label,
+        group: 'Go to',
+        run: () => navigate(route.path)
+      })),
+    {
+      id: 'mark-all-read',
+      label: 'Mark all as read',
+      group: 'Action',
+      run: async () => {
+        // Without IDs this covers every article, not only the list on screen
+        if (!window.confirm('Mark every article as read? This applies to all articles, not only the current list.')) {
+          return;
+        }
+        try {
+          await markAllAsRead();
+        } catch (error) {
+          console.error('Error marking all articles as read:', error);
+          alert('Error: Failed to mark all articles as read. Please try again.');
+        }
+      }
+    },
+    {
+      id: 'toggle-dark-mode',
+      label: 'Toggle dark mode',
+      group: 'Action',
+      run: toggleDarkMode
+    },
+    {
+      id: 'keyboard-shortcuts',
+      label: 'Show keyboard shortcuts',
+      group: 'Action',
+      run: onShowHelp
+    }
+  ];
+
+  if (user?.role === 'admin') {
+    commands.push({
+      id: 'run-all-sources',
+      label: 'Run all sources',
+      group: 'Action',
+      run: async () => {
+        try {
+          const result = await apiService.runAllSources();
+          alert(result.message || 'Workflow started');
+        } catch (error: any) {
+          console.error('Error running all sources:', error);
+          alert(`Error: ${error.response?.data?.error || 'Failed to start the workflow. Please try again.'}`);
+        }
+      }
+    });
+  }
+
+  const search = query.trim().toLowerCase();
+  const matches = commands.filter(command =>
+    `${command.group} ${command.label}`.toLowerCase().includes(search)
+  );
+
+  const runCommand = (command: Command) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.min(prev + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && matches.length > 0) {
+      e.preventDefault();
+      runCommand(matches[Math.min(activeIndex, matches.length - 1)]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-32 bg-black/50" onClick={onClose}>
+      <div
+        className="w-full max-w-xl bg-white dark:bg-dark-800 rounded-xl shadow-2xl border border-gray-200 dark:border-dark-700 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a page or command..."
+          className="w-full px-4 py-3 text-gray-900 dark:text-gray-100 bg-transparent border-b border-gray-200 dark:border-dark-700 focus:outline-none"
+          autoComplete="off"
+        />
+        <ul className="max-h-80 overflow-y-auto py-2">
+          {matches.length === 0 && (
+            <li className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">No matching commands</li>
+          )}
+          {matches.map((command, index) => (
+            <li
+              key={command.id}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                runCommand(command);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between px-4 py-2 text-sm cursor-pointer ${
+                index === activeIndex
+                  ? 'bg-primary-50 dark:bg-dark-700 text-primary-700 dark:text-primary-300'
+                  : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <span>{command.label}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">{command.group}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { FeedValidation } from '../types/FeedValidation';
+
+interface FeedValidationPanelProps {
+  validation: FeedValidation;
+  onSelectFeed: (url: string) => void;
+  disabled?: boolean;
+}
+
+const FeedValidationPanel: React.FC<FeedValidationPanelProps> = ({ validation, onSelectFeed, disabled = false }) => {
+  const { preview } = validation;
+
+  return (
+    <div className={`rounded-xl border p-4 text-sm ${
+      validation.valid
+        ? 'border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-900/20'
+        : 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20'
+    }`}>
+      <p className={`font-medium ${validation.valid ? 'text-green-800 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+        {validation.valid ? 'Feed looks good' : `Validation failed: ${validation.error}`}
+      </p>
+
+      {validation.discoveredFeeds.length > 0 && (
+        <div className="mt-3">
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+            Feeds found on the page ({validation.discoveredFeeds.length})
+          </label>
+          <select
+            value={validation.feedUrl}
+            onChange={(e) => onSelectFeed(e.target.value)}
+            disabled={disabled}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {validation.discoveredFeeds.map(feed => (
+              <option key={feed.url} value={feed.url}>{feed.title} ({feed.url})</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {preview && (
+        <dl className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1 text-gray-700 dark:text-gray-300">
+          <dt className="text-gray-500 dark:text-gray-400">Title</dt>
+          <dd>{preview.title || '-'}</dd>
+          <dt className="text-gray-500 dark:text-gray-400">Items</dt>
+          <dd>{preview.itemCount}</dd>
+          <dt className="text-gray-500 dark:text-gray-400">Newest item</dt>
+          <dd>{preview.newestItemDate ? new Date(preview.newestItemDate).toLocaleString() : '-'}</dd>
+          <dt className="text-gray-500 dark:text-gray-400">Content</dt>
+          <dd>
+            {preview.hasFullContent
+              ? 'Full articles'
+              : `Snippets only (${preview.fullContentItems}/${preview.itemCount} items with full text); consider "Fetch full text"`}
+          </dd>
+        </dl>
+      )}
+
+      {preview && preview.sampleItems.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+          {preview.sampleItems.map((item, index) => (
+            <li key={`${item.link}-${index}`} className="truncate">• {item.title}</li>
+          ))}
+        </ul>
+      )}
+
+      {validation.alreadyAdded && (
+        <p className="mt-3 text-yellow-700 dark:text-yellow-300">This feed is already a source.</p>
+      )}
+    </div>
+  );
+};
+
+export default FeedValidationPanel;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { apiService } from '../services/api';
+import { apiService, ArticleFacets, FacetValue } from '../services/api';
+import { getLanguageName } from '../utils/languages';
 
 interface FilterBarProps {
   filters: {
@@ -12,13 +13,26 @@ interface FilterBarProps {
     hideRead?: boolean;
     threatLevel: string;
     threatType: string;
+    language: string;
   };
   onFilterChange: (filterName: string, value: any) => void;
+  // Search query and extra params (spam=true, alerts=true) that scope the option counts to the page's list
+  searchTerm?: string;
+  facetScope?: { spam?: string; alerts?: string };
 }
 
-const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange }) => {
-  const severities = ['high', 'medium', 'low'];
-  const threatLevels = ['HIGH', 'MEDIUM', 'LOW', 'NONE'];
+// Options with matches, plus the current selection so it can still be cleared
+const visibleOptions = (values: FacetValue[], selected: string): FacetValue[] => {
+  const options = values.filter(option => option.count > 0);
+  if (selected && !options.some(option => option.value === selected)) {
+    options.unshift({ value: selected, count: 0 });
+  }
+  return options;
+};
+
+const formatOption = (label: string, count: number) => `${label} (${count})`;
+
+const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange, searchTerm = '', facetScope }) => {
   const sortOptions = [
     { value: 'newest', label: 'Newest First' },
     { value: 'oldest', label: 'Oldest First' },
@@ -32,48 +46,37 @@ const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange }) => {
     { value: '1month', label: 'Last 1 Month' },
     { value: '3months', label: 'Last 3 Months' }
   ];
-  const [types, setTypes] = useState<string[]>([]);
-  const [industries, setIndustries] = useState<string[]>([]);
-  const [sources, setSources] = useState<string[]>([]);
-  const [threatTypes, setThreatTypes] = useState<string[]>([]);
+  const [facets, setFacets] = useState<ArticleFacets | null>(null);
+  const spamScope = facetScope?.spam;
+  const alertsScope = facetScope?.alerts;
 
+  // Refresh the counts whenever the query changes; debounced for typing in the search box
   useEffect(() => {
-    const fetchData = async () => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
       try {
-        const [availableTypes, availableIndustries, availableSources, availableThreatTypes] = await Promise.all([
-          apiService.getAvailableTypes(),
-          apiService.getAvailableIndustries(),
-          apiService.getAvailableSources(),
-          apiService.getAvailableThreatTypes()
-        ]);
-        setTypes(availableTypes);
-        setIndustries(availableIndustries);
-        setSources(availableSources);
-        setThreatTypes(availableThreatTypes);
+        const data = await apiService.getArticleFacets({ ...filters, search: searchTerm.trim(), spam: spamScope, alerts: alertsScope });
+        if (!cancelled) {
+          setFacets(data);
+        }
       } catch (error) {
-        console.error('Error fetching filter data:', error);
-        // Fallback to default values
-        setTypes(['news', 'forum']);
-        setIndustries([
-          'Technology', 'Finance', 'Healthcare', 'Automotive', 'Energy', 'Government',
-          'Manufacturing', 'Retail', 'Telecommunications', 'Transportation', 'Education',
-          'Defense', 'Aerospace', 'Pharmaceuticals', 'Biotechnology', 'Real Estate',
-          'Insurance', 'Banking', 'Investment', 'Cryptocurrency', 'E-commerce',
-          'Media', 'Entertainment', 'Gaming', 'Sports', 'Food & Beverage',
-          'Agriculture', 'Mining', 'Construction', 'Hospitality', 'Tourism',
-          'Legal', 'Consulting', 'Marketing', 'Advertising', 'Human Resources',
-          'Environmental', 'Renewable Energy', 'Nuclear', 'Oil & Gas', 'Chemical',
-          'Textiles', 'Fashion', 'Luxury Goods', 'Consumer Electronics', 'Semiconductors',
-          'Cybersecurity', 'Artificial Intelligence', 'Machine Learning', 'Cloud Computing',
-          'Blockchain', 'Fintech', 'Insurtech', 'Healthtech', 'Edtech', 'PropTech'
-        ]);
-        setSources([]);
-        setThreatTypes(['malware', 'phishing', 'vulnerability', 'ransomware', 'data breach', 'social engineering', 'DDoS', 'APT', 'zero-day', 'insider threat']);
+        console.error('Error fetching filter facets:', error);
       }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
     };
+  }, [filters, searchTerm, spamScope, alertsScope]);
 
-    fetchData();
-  }, []);
+  const industries = visibleOptions(facets?.industry || [], filters.industry);
+  const severities = visibleOptions(facets?.severity || [], filters.severity);
+  const types = visibleOptions(facets?.type || [], filters.type);
+  const sources = visibleOptions(facets?.source || [], filters.source);
+  const threatLevels = visibleOptions(facets?.threatLevel || [], filters.threatLevel);
+  const threatTypes = visibleOptions(facets?.threatType || [], filters.threatType);
+  const languages = visibleOptions(facets?.language || [], filters.language);
 
   return (
     <div className="bg-white dark:bg-dark-800 border-b border-gray-200 dark:border-dark-700 px-4 py-3 shadow-sm">
@@ -90,8 +93,8 @@ const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange }) => {
           >
             <option value="">All Industries</option>
             {industries.map((industry) => (
-              <option key={industry} value={industry}>
-                {industry}
+              <option key={industry.value} value={industry.value}>
+                {formatOption(industry.value, industry.count)}
               </option>
             ))}
           </select>
@@ -107,8 +110,8 @@ const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange }) => {
           >
             <option value="">All Severities</option>
             {severities.map((severity) => (
-              <option key={severity} value={severity}>
-                {severity.charAt(0).toUpperCase() + severity.slice(1)}
+              <option key={severity.value} value={severity.value}>
+                {formatOption(severity.value.charAt(0).toUpperCase() + severity.value.slice(1), severity.count)}
               </option>
             ))}
           </select>
@@ -124,8 +127,8 @@ const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange }) => {
           >
             <option value="">All Types</option>
             {types.map((type) => (
-              <option key={type} value={type}>
-                {type.charAt(0).toUpperCase() + type.slice(1)}
+              <option key={type.value} value={type.value}>
+                {formatOption(type.value.charAt(0).toUpperCase() + type.value.slice(1), type.count)}
               </option>
             ))}
           </select>
@@ -141,8 +144,8 @@ const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange }) => {
           >
             <option value="">All Sources</option>
             {sources.map((source) => (
-              <option key={source} value={source}>
-                {source}
+              <option key={source.value} value={source.value}>
+                {formatOption(source.value, source.count)}
               </option>
             ))}
           </select>
@@ -158,8 +161,8 @@ const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange }) => {
           >
             <option value="">All Threat Levels</option>
             {threatLevels.map((level) => (
-              <option key={level} value={level}>
-                {level}
+              <option key={level.value} value={level.value}>
+                {formatOption(level.value, level.count)}
               </option>
             ))}
           </select>
@@ -175,8 +178,25 @@ const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange }) => {
           >
             <option value="">All Threat Types</option>
             {threatTypes.map((type) => (
-              <option key={type} value={type}>
-                {type.charAt(0).toUpperCase() + type.slice(1)}
+              <option key={type.value} value={type.value}>
+                {formatOption(type.value.charAt(0).toUpperCase() + type.value.slice(1), type.count)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Language Filter */}
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-gray-700 dark:text-gray-300">Language:</span>
+          <select
+            value={filters.language}
+            onChange={(e) => onFilterChange('language', e.target.value)}
+            className="text-sm border border-gray-300 dark:border-dark-600 rounded-md px-3 py-1.5 bg-white dark:bg-dark-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary-500 dark:focus:ring-offset-dark-900 transition-all duration-200"
+          >
+            <option value="">All Languages</option>
+            {languages.map((language) => (
+              <option key={language.value} value={language.value}>
+                {formatOption(getLanguageName(language.value), language.count)}
               </option>
             ))}
           </select>
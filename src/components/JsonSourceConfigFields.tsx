@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { apiService } from '../services/api';
+import SourceItemsPreview from './SourceItemsPreview';
+import { JsonApiConfig, JsonPaginationType } from '../types/JsonSource';
+import { ScraperTestResult } from '../types/Scraper';
+
+interface JsonSourceConfigFieldsProps {
+  url: string;
+  config: JsonApiConfig;
+  onChange: (config: JsonApiConfig) => void;
+  // Called with the test result for the current URL and mapping, or null while untested
+  onTested: (result: ScraperTestResult | null) => void;
+  // Existing source, so the tester can use its stored auth header value
+  sourceId?: string;
+}
+
+type PathField = 'itemsPath' | 'titlePath' | 'linkPath' | 'idPath' | 'datePath' | 'contentPath' | 'linkTemplate';
+
+const PATH_FIELDS: { key: PathField; label: string; placeholder: string; required?: boolean }[] = [
+  { key: 'itemsPath', label: 'Items path', placeholder: '$.vulnerabilities[*]', required: true },
+  { key: 'titlePath', label: 'Title path', placeholder: '$.vulnerabilityName', required: true },
+  { key: 'linkPath', label: 'Link path', placeholder: '$.html_url' },
+  { key: 'idPath', label: 'ID path', placeholder: '$.cveID' },
+  { key: 'datePath', label: 'Date path', placeholder: '$.dateAdded' },
+  { key: 'contentPath', label: 'Content path', placeholder: '$.shortDescription' },
+  { key: 'linkTemplate', label: 'Link template (items without a link)', placeholder: 'https://nvd.nist.gov/vuln/detail/{id}' }
+];
+
+const PAGINATION_OPTIONS: { value: JsonPaginationType; label: string }[] = [
+  { value: 'none', label: 'No pagination' },
+  { value: 'page', label: 'Page number parameter' },
+  { value: 'offset', label: 'Offset parameter' },
+  { value: 'cursor', label: 'Cursor from the response' },
+  { value: 'nextUrl', label: 'Next page URL from the response' },
+  { value: 'linkHeader', label: 'Link header (rel="next")' }
+];
+
+const DEFAULT_PARAMS: Partial<Record<JsonPaginationType, string>> = { page: 'page', offset: 'offset', cursor: 'cursor' };
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+// Wait for typing to pause before calling the API
+const TEST_DEBOUNCE_MS = 800;
+
+const JsonSourceConfigFields: React.FC<JsonSourceConfigFieldsProps> = ({ url, config, onChange, onTested, sourceId }) => {
+  const [result, setResult] = useState<ScraperTestResult | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [testError, setTestError] = useState<string | null>(null);
+
+  const { pagination } = config;
+  const authHeader = config.authHeader || { name: '' };
+
+  useEffect(() => {
+    setResult(null);
+    setTestError(null);
+    onTested(null);
+
+    if (!url.trim() || !config.itemsPath.trim() || !config.titlePath.trim() || (!config.linkPath.trim() && !config.idPath.trim())) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setTesting(true);
+      try {
+        const testResult = await apiService.testJsonSource(url.trim(), config, sourceId);
+        if (!cancelled) {
+          setResult(testResult);
+          onTested(testResult);
+        }
+      } catch (err: any) {
+        if (!cancelled) {
+          setTestError(err.response?.data?.error || 'Failed to test the JSON API');
+        }
+      } finally {
+        if (!cancelled) {
+          setTesting(false);
+        }
+      }
+    }, TEST_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setTesting(false);
+    };
+  }, [url, config, onTested, sourceId]);
+
+  const setPagination = (type: JsonPaginationType) => {
+    onChange({ ...config, pagination: { type, param: DEFAULT_PARAMS[type], ...(type === 'page' && { start: 1 }) } });
+  };
+
+  const setAuthHeader = (name: string, value?: string) => {
+    onChange({ ...config, authHeader: name || value ? { name, value } : null });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        JSONPath expressions. The items path is applied to the response; the other paths to each item.
+        Items need a link path, or an ID path for the link template.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {PATH_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className={labelClass}>
+              {field.label}{field.required ? ' *' : ''}
+            </label>
+            <input
+              type="text"
+              value={config[field.key]}
+              onChange={(e) => onChange({ ...config, [field.key]: e.target.value })}
+              className={inputClass}
+              placeholder={field.placeholder}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Pagination</label>
+          <select
+            value={pagination.type}
+            onChange={(e) => setPagination(e.target.value as JsonPaginationType)}
+            className={inputClass}
+          >
+            {PAGINATION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {DEFAULT_PARAMS[pagination.type] && (
+          <div>
+            <label className={labelClass}>Query parameter</label>
+            <input
+              type="text"
+              value={pagination.param || ''}
+              onChange={(e) => onChange({ ...config, pagination: { ...pagination, param: e.target.value } })}
+              className={inputClass}
+            />
+          </div>
+        )}
+        {(pagination.type === 'cursor' || pagination.type === 'nextUrl') && (
+          <div>
+            <label className={labelClass}>{pagination.type === 'cursor' ? 'Next cursor path' : 'Next page URL path'} *</label>
+            <input
+              type="text"
+              value={pagination.path || ''}
+              onChange={(e) => onChange({ ...config, pagination: { ...pagination, path: e.target.value } })}
+              className={inputClass}
+              placeholder={pagination.type === 'cursor' ? '$.meta.next_cursor' : '$.links.next'}
+            />
+          </div>
+        )}
+        {pagination.type !== 'none' && (
+          <div>
+            <label className={labelClass}>Pages to follow</label>
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={config.maxPages}
+              onChange={(e) => onChange({ ...config, maxPages: parseInt(e.target.value, 10) || 1 })}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Auth header name</label>
+          <input
+            type="text"
+            value={authHeader.name}
+            onChange={(e) => setAuthHeader(e.target.value, authHeader.value)}
+            className={inputClass}
+            placeholder="Authorization"
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Auth header value</label>
+          <input
+            type="password"
+            value={authHeader.value || ''}
+            onChange={(e) => setAuthHeader(authHeader.name, e.target.value)}
+            className={inputClass}
+            placeholder={config.authHeader?.hasValue ? 'Unchanged' : 'Bearer ...'}
+            autoComplete="off"
+          />
+        </div>
+      </div>
+
+      <SourceItemsPreview
+        result={result}
+        testing={testing}
+        error={testError}
+        emptyMessage="Enter the API URL and the items, title and link or ID paths to see the mapped items."
+      />
+    </div>
+  );
+};
+
+export default JsonSourceConfigFields;
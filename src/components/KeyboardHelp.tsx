@@ -0,0 +1,91 @@
+import React from 'react';
+
+interface KeyboardHelpProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const SHORTCUT_GROUPS: { title: string; shortcuts: { keys: string[]; description: string }[] }[] = [
+  {
+    title: 'Anywhere',
+    shortcuts: [
+      { keys: ['Ctrl', 'K'], description: 'Open command palette' },
+      { keys: ['/'], description: 'Focus search' },
+      { keys: ['?'], description: 'Show keyboard shortcuts' },
+      { keys: ['Esc'], description: 'Close dialog / leave search' },
+    ],
+  },
+  {
+    title: 'Article list',
+    shortcuts: [
+      { keys: ['j'], description: 'Next article' },
+      { keys: ['k'], description: 'Previous article' },
+      { keys: ['o'], description: 'Open article' },
+      { keys: ['r'], description: 'Toggle read' },
+      { keys: ['s'], description: 'Toggle saved' },
+      { keys: ['x'], description: 'Mark as spam' },
+    ],
+  },
+  {
+    title: 'Article view',
+    shortcuts: [
+      { keys: ['j'], description: 'Next article in the list' },
+      { keys: ['k'], description: 'Previous article in the list' },
+      { keys: ['o'], description: 'Open original in a new tab' },
+      { keys: ['r'], description: 'Toggle read' },
+      { keys: ['s'], description: 'Toggle saved' },
+      { keys: ['x'], description: 'Mark as spam' },
+      { keys: ['u'], description: 'Back to the list' },
+    ],
+  },
+];
+
+const KeyboardHelp: React.FC<KeyboardHelpProps> = ({ open, onClose }) => {
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-white dark:bg-dark-800 rounded-xl shadow-2xl border border-gray-200 dark:border-dark-700 p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Keyboard shortcuts</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {SHORTCUT_GROUPS.map(group => (
+            <div key={group.title}>
+              <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">{group.title}</h3>
+              <ul className="space-y-2">
+                {group.shortcuts.map(shortcut => (
+                  <li key={shortcut.description} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                    <span>{shortcut.description}</span>
+                    <span className="ml-3 flex space-x-1">
+                      {shortcut.keys.map(key => (
+                        <kbd key={key} className="px-1.5 py-0.5 text-xs font-mono rounded border border-gray-300 dark:border-dark-600 bg-gray-50 dark:bg-dark-700">
+                          {key}
+                        </kbd>
+                      ))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardHelp;
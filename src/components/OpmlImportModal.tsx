@@ -0,0 +1,276 @@
+import React, { useMemo, useState } from 'react';
+import { apiService } from '../services/api';
+import { SOURCE_CATEGORIES, matchSourceCategory } from '../config/sourceCategories';
+import { OpmlImportResult, OpmlPreviewEntry } from '../types/Opml';
+
+interface OpmlImportModalProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const STATUS_STYLES: Record<OpmlPreviewEntry['status'], string> = {
+  new: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  existing: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  duplicate: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  invalid: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+};
+
+const selectClass = 'px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white';
+
+// Entries without a folder share the '' key
+const folderKey = (entry: OpmlPreviewEntry) => entry.folder || '';
+
+const OpmlImportModal: React.FC<OpmlImportModalProps> = ({ onClose, onImported }) => {
+  const [entries, setEntries] = useState<OpmlPreviewEntry[] | null>(null);
+  const [selectedUrls, setSelectedUrls] = useState<Set<string>>(new Set());
+  const [folderCategories, setFolderCategories] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<OpmlImportResult[] | null>(null);
+
+  const counts = useMemo(() => {
+    const byStatus: Record<OpmlPreviewEntry['status'], number> = { new: 0, existing: 0, duplicate: 0, invalid: 0 };
+    (entries || []).forEach(entry => {
+      byStatus[entry.status]++;
+    });
+    return byStatus;
+  }, [entries]);
+
+  // Folders of the entries that can be imported
+  const folders = useMemo(
+    () => Array.from(new Set((entries || []).filter(entry => entry.status === 'new').map(folderKey))).sort(),
+    [entries]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResults(null);
+    try {
+      const preview = await apiService.previewOpmlImport(await file.text());
+      const newEntries = preview.filter(entry => entry.status === 'new');
+      setEntries(preview);
+      setSelectedUrls(new Set(newEntries.map(entry => entry.url)));
+
+      const categories: Record<string, string> = {};
+      newEntries.forEach(entry => {
+        categories[folderKey(entry)] = matchSourceCategory(entry.folder);
+      });
+      setFolderCategories(categories);
+    } catch (err: any) {
+      console.error('Error previewing OPML import:', err);
+      setEntries(null);
+      setError(err.response?.data?.error || 'Failed to read the OPML file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleEntry = (url: string) => {
+    setSelectedUrls(prev => {
+      const next = new Set(prev);
+      if (next.has(url)) {
+        next.delete(url);
+      } else {
+        next.add(url);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!entries) {
+      return;
+    }
+
+    const toImport = entries
+      .filter(entry => entry.status === 'new' && selectedUrls.has(entry.url))
+      .map(entry => ({
+        name: entry.name,
+        url: entry.url,
+        description: entry.description,
+        category: folderCategories[folderKey(entry)] || 'general'
+      }));
+
+    setImporting(true);
+    setError(null);
+    try {
+      const result = await apiService.importOpmlSources(toImport);
+      setResults(result.results);
+      if (result.imported > 0) {
+        onImported();
+      }
+    } catch (err: any) {
+      console.error('Error importing OPML:', err);
+      setError(err.response?.data?.error || 'Failed to import sources');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const failedResults = (results || []).filter(result => !result.success);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Import OPML</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div>
+            <input
+              type="file"
+              accept=".opml,.xml,text/xml,text/x-opml"
+              onChange={handleFileChange}
+              disabled={loading || importing}
+              className="block w-full text-sm text-gray-700 dark:text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 dark:file:bg-blue-900/30 dark:file:text-blue-300"
+            />
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Feeds inside an outline folder get the category chosen for that folder.
+            </p>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+              {error}
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+              <span>Checking feeds...</span>
+            </div>
+          )}
+
+          {results && (
+            <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm">
+              <p className="font-medium text-gray-900 dark:text-white">
+                Imported {results.length - failedResults.length} of {results.length} sources
+              </p>
+              {failedResults.length > 0 && (
+                <ul className="mt-2 space-y-1 text-red-700 dark:text-red-300">
+                  {failedResults.map(result => (
+                    <li key={result.url} className="break-all">
+                      {result.name} ({result.url}): {result.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {entries && !results && (
+            <>
+              <div className="flex flex-wrap gap-2 text-xs">
+                {(Object.keys(counts) as OpmlPreviewEntry['status'][]).map(status => (
+                  <span key={status} className={`px-2 py-1 rounded-full font-medium ${STATUS_STYLES[status]}`}>
+                    {counts[status]} {status}
+                  </span>
+                ))}
+              </div>
+
+              {folders.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Folder categories</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {folders.map(folder => (
+                      <label key={folder} className="flex items-center justify-between gap-3 text-sm text-gray-900 dark:text-white">
+                        <span className="truncate">{folder || 'No folder'}</span>
+                        <select
+                          value={folderCategories[folder] || 'general'}
+                          onChange={(e) => setFolderCategories({ ...folderCategories, [folder]: e.target.value })}
+                          className={selectClass}
+                        >
+                          {SOURCE_CATEGORIES.map(category => (
+                            <option key={category.value} value={category.value}>{category.label}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="overflow-x-auto max-h-80 border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2"></th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Feed</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Folder</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {entries.map((entry, index) => (
+                      <tr key={`${entry.url}-${index}`}>
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={entry.status === 'new' && selectedUrls.has(entry.url)}
+                            disabled={entry.status !== 'new'}
+                            onChange={() => toggleEntry(entry.url)}
+                            className="h-4 w-4 rounded border-gray-300"
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-gray-900 dark:text-white">
+                          <div className="font-medium">{entry.name}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 break-all">{entry.url}</div>
+                        </td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-400">{entry.folder || '-'}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[entry.status]}`}>
+                            {entry.status}
+                          </span>
+                          {entry.error && (
+                            <div className="mt-1 text-xs text-red-600 dark:text-red-400">{entry.error}</div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-xl hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              {results ? 'Close' : 'Cancel'}
+            </button>
+            {entries && !results && (
+              <button
+                onClick={handleImport}
+                disabled={importing || selectedUrls.size === 0}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {importing ? 'Importing...' : `Import ${selectedUrls.size} source${selectedUrls.size !== 1 ? 's' : ''}`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OpmlImportModal;
@@ -0,0 +1,47 @@
+import React, { useState, useMemo } from 'react';
+import { sanitizeHtml } from '../utils/sanitizeHtml';
+
+interface ReaderViewProps {
+  html?: string;
+  // Article URL, used to resolve relative links and images
+  baseUrl?: string;
+}
+
+const looksLikeHtml = (content: string) => /<[a-z][\s\S]*>/i.test(content);
+
+const ReaderView: React.FC<ReaderViewProps> = ({ html = '', baseUrl }) => {
+  // Remote images can track readers, so they only load on request
+  const [allowImages, setAllowImages] = useState(false);
+
+  const { html: sanitizedHtml, blockedImages } = useMemo(
+    () => sanitizeHtml(html, { baseUrl, allowImages }),
+    [html, baseUrl, allowImages]
+  );
+
+  if (!html.trim()) {
+    return <p className="text-gray-500 dark:text-gray-400">No content available</p>;
+  }
+
+  return (
+    <div>
+      {blockedImages > 0 && (
+        <div className="flex items-center justify-between mb-4 px-3 py-2 rounded-md bg-gray-100 dark:bg-dark-700 text-sm text-gray-600 dark:text-gray-300">
+          <span>{blockedImages} remote {blockedImages === 1 ? 'image' : 'images'} blocked</span>
+          <button
+            onClick={() => setAllowImages(true)}
+            className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-300"
+          >
+            Load images
+          </button>
+        </div>
+      )}
+      <div
+        className={`reader-content ${looksLikeHtml(html) ? '' : 'whitespace-pre-line'}`}
+        // Safe: sanitizeHtml rebuilds the markup from an allowlist
+        dangerouslySetInnerHTML={{ __html: sanitizedHtml }}
+      />
+    </div>
+  );
+};
+
+export default ReaderView;
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { SavedSearch, SavedSearchFilters } from '../types/SavedSearch';
+import { apiService } from '../services/api';
+
+interface SavedSearchesProps {
+  searchTerm: string;
+  filters: SavedSearchFilters & Record<string, any>;
+  onApply: (query: string, filters: SavedSearchFilters) => void;
+}
+
+const FILTER_FIELDS: (keyof SavedSearchFilters)[] = ['industry', 'severity', 'type', 'source', 'timeFilter', 'sortBy', 'threatLevel', 'threatType', 'language'];
+
+const SavedSearches: React.FC<SavedSearchesProps> = ({ searchTerm, filters, onApply }) => {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  useEffect(() => {
+    const fetchSavedSearches = async () => {
+      try {
+        setSavedSearches(await apiService.getSavedSearches());
+      } catch (error) {
+        console.error('Error fetching saved searches:', error);
+      }
+    };
+
+    fetchSavedSearches();
+  }, []);
+
+  const handleSave = async () => {
+    const name = window.prompt('Name this search:');
+    if (!name || !name.trim()) {
+      return;
+    }
+
+    // Only store the filters that are actually set
+    const currentFilters: SavedSearchFilters = {};
+    FILTER_FIELDS.forEach(field => {
+      if (filters[field]) {
+        currentFilters[field] = filters[field];
+      }
+    });
+
+    try {
+      const savedSearch = await apiService.createSavedSearch({
+        name: name.trim(),
+        query: searchTerm,
+        filters: currentFilters
+      });
+      setSavedSearches(prev => [...prev, savedSearch].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error: any) {
+      console.error('Error saving search:', error);
+      alert(error.response?.data?.error || 'Failed to save search. Please try again.');
+    }
+  };
+
+  const handleToggleSubscription = async (savedSearch: SavedSearch) => {
+    try {
+      const updated = await apiService.updateSavedSearch(savedSearch._id, { subscribed: !savedSearch.subscribed });
+      setSavedSearches(prev => prev.map(search => search._id === updated._id ? updated : search));
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      alert('Failed to update saved search. Please try again.');
+    }
+  };
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    if (!window.confirm(`Delete saved search "${savedSearch.name}"?`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteSavedSearch(savedSearch._id);
+      setSavedSearches(prev => prev.filter(search => search._id !== savedSearch._id));
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      alert('Failed to delete saved search. Please try again.');
+    }
+  };
+
+  const hasActiveSearch = searchTerm.trim() !== '' || FILTER_FIELDS.some(field => field !== 'sortBy' && filters[field]);
+
+  return (
+    <div className="bg-white dark:bg-dark-800 border-b border-gray-200 dark:border-dark-700 px-4 py-3 shadow-sm">
+      <div className="flex flex-wrap gap-2 items-center">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">Saved searches:</span>
+
+        {savedSearches.length === 0 && (
+          <span className="text-sm text-gray-500 dark:text-gray-400">None yet</span>
+        )}
+
+        {savedSearches.map((savedSearch) => (
+          <div
+            key={savedSearch._id}
+            className="flex items-center rounded-md border border-gray-300 dark:border-dark-600 bg-gray-50 dark:bg-dark-700 text-sm"
+          >
+            <button
+              onClick={() => onApply(savedSearch.query, savedSearch.filters)}
+              title={savedSearch.query || 'Filters only'}
+              className="px-2 py-1 text-gray-800 dark:text-gray-200 hover:text-primary-600 dark:hover:text-primary-400"
+            >
+              {savedSearch.name}
+            </button>
+            <button
+              onClick={() => handleToggleSubscription(savedSearch)}
+              title={savedSearch.subscribed ? 'Subscribed: new matches appear in Alerts' : 'Subscribe to new matches'}
+              className={`px-1 py-1 ${savedSearch.subscribed ? 'text-orange-500' : 'text-gray-400 dark:text-gray-500 hover:text-orange-500'}`}
+            >
+              {savedSearch.subscribed ? '🔔' : '🔕'}
+            </button>
+            <button
+              onClick={() => handleDelete(savedSearch)}
+              title="Delete saved search"
+              className="px-2 py-1 text-gray-400 dark:text-gray-500 hover:text-red-600 dark:hover:text-red-400"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+
+        <button
+          onClick={handleSave}
+          disabled={!hasActiveSearch}
+          className="ml-auto text-sm text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-300 font-medium transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save Current Search
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SavedSearches;
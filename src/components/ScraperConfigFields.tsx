@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { apiService } from '../services/api';
+import SourceItemsPreview from './SourceItemsPreview';
+import { ScraperConfig, ScraperTestResult } from '../types/Scraper';
+
+interface ScraperConfigFieldsProps {
+  url: string;
+  config: ScraperConfig;
+  onChange: (config: ScraperConfig) => void;
+  // Called with the test result for the current URL and selectors, or null while untested
+  onTested: (result: ScraperTestResult | null) => void;
+}
+
+const SELECTOR_FIELDS: { key: keyof Omit<ScraperConfig, 'maxPages'>; label: string; placeholder: string; required?: boolean }[] = [
+  { key: 'itemSelector', label: 'Item', placeholder: '.advisory-list li', required: true },
+  { key: 'titleSelector', label: 'Title', placeholder: 'h3', required: true },
+  { key: 'linkSelector', label: 'Link', placeholder: 'a.read-more (default: title link)' },
+  { key: 'dateSelector', label: 'Date', placeholder: 'time' },
+  { key: 'bodySelector', label: 'Body', placeholder: '.summary' },
+  { key: 'nextPageSelector', label: 'Next page link', placeholder: 'a[rel="next"]' }
+];
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Wait for typing to pause before scraping the page
+const TEST_DEBOUNCE_MS = 800;
+
+const ScraperConfigFields: React.FC<ScraperConfigFieldsProps> = ({ url, config, onChange, onTested }) => {
+  const [result, setResult] = useState<ScraperTestResult | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [testError, setTestError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setResult(null);
+    setTestError(null);
+    onTested(null);
+
+    if (!url.trim() || !config.itemSelector.trim() || !config.titleSelector.trim()) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setTesting(true);
+      try {
+        const testResult = await apiService.testScraper(url.trim(), config);
+        if (!cancelled) {
+          setResult(testResult);
+          onTested(testResult);
+        }
+      } catch (err: any) {
+        if (!cancelled) {
+          setTestError(err.response?.data?.error || 'Failed to test selectors');
+        }
+      } finally {
+        if (!cancelled) {
+          setTesting(false);
+        }
+      }
+    }, TEST_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setTesting(false);
+    };
+  }, [url, config, onTested]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {SELECTOR_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              {field.label} selector{field.required ? ' *' : ''}
+            </label>
+            <input
+              type="text"
+              value={config[field.key]}
+              onChange={(e) => onChange({ ...config, [field.key]: e.target.value })}
+              className={inputClass}
+              placeholder={field.placeholder}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Pages to follow
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={config.maxPages}
+            onChange={(e) => onChange({ ...config, maxPages: parseInt(e.target.value, 10) || 1 })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <SourceItemsPreview
+        result={result}
+        testing={testing}
+        error={testError}
+        emptyMessage="Enter the list page URL and the item and title selectors to see what gets extracted."
+      />
+    </div>
+  );
+};
+
+export default ScraperConfigFields;
@@ -1,11 +1,147 @@
-import React from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { apiService } from '../services/api';
 
 interface SearchBarProps {
   searchTerm: string;
   onSearchChange: (value: string) => void;
 }
 
+interface Suggestion {
+  label: string;
+  insert: string;
+  description?: string;
+}
+
+// Field qualifiers understood by the backend search query language
+const SEARCH_FIELDS: Suggestion[] = [
+  { label: 'source:', insert: 'source:', description: 'Article source' },
+  { label: 'industry:', insert: 'industry:', description: 'Affected industry' },
+  { label: 'threatType:', insert: 'threatType:', description: 'Threat type, e.g. ransomware' },
+  { label: 'threatLevel:', insert: 'threatLevel:', description: 'HIGH, MEDIUM, LOW or NONE' },
+  { label: 'keyword:', insert: 'keyword:', description: 'Matched alert keyword' },
+  { label: 'cve:', insert: 'cve:', description: 'CVE ID, e.g. cve:2024-3400' },
+  { label: 'after:', insert: 'after:', description: 'Published on or after a date' },
+  { label: 'before:', insert: 'before:', description: 'Published before a date' },
+  { label: 'lang:', insert: 'lang:', description: 'Article language, e.g. de or ja' }
+];
+
+const OPERATORS: Suggestion[] = [
+  { label: 'AND', insert: 'AND ', description: 'Both terms must match' },
+  { label: 'OR', insert: 'OR ', description: 'Either term may match' },
+  { label: 'NOT', insert: 'NOT ', description: 'Exclude the next term' }
+];
+
+// Fields whose values are looked up on the server
+const VALUE_FIELDS = ['source', 'industry', 'threatType', 'threatLevel', 'keyword'];
+
+// Find the token being typed at the caret; quoted qualifier values may contain spaces
+const getCurrentToken = (value: string, caret: number) => {
+  const beforeCaret = value.slice(0, caret);
+  const quotedMatch = beforeCaret.match(/(\S+:"[^"]*)$/);
+  const match = quotedMatch || beforeCaret.match(/(\S*)$/);
+  const token = match ? match[1] : '';
+  return { token, start: caret - token.length };
+};
+
 const SearchBar: React.FC<SearchBarProps> = ({ searchTerm, onSearchChange }) => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [valueSuggestions, setValueSuggestions] = useState<Suggestion[]>([]);
+
+  const { token, start } = getCurrentToken(searchTerm, caret);
+  const colonIndex = token.indexOf(':');
+  const fieldName = colonIndex > 0 ? token.slice(0, colonIndex).replace(/^-/, '') : '';
+  const fieldPrefix = colonIndex > 0 ? token.slice(colonIndex + 1).replace(/^"/, '') : '';
+
+  // Look up values for field qualifiers such as source: while typing
+  useEffect(() => {
+    if (!VALUE_FIELDS.includes(fieldName)) {
+      setValueSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const values = await apiService.getSearchSuggestions(fieldName, fieldPrefix);
+      if (!cancelled) {
+        setValueSuggestions(values.map(value => ({
+          label: value,
+          insert: `${fieldName}:${/\s/.test(value) ? `"${value}"` : value} `
+        })));
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [fieldName, fieldPrefix]);
+
+  let suggestions: Suggestion[] = [];
+  if (colonIndex > 0) {
+    if (fieldName === 'after' || fieldName === 'before') {
+      const today = new Date().toISOString().slice(0, 10);
+      suggestions = [{ label: `${fieldName}:${today}`, insert: `${fieldName}:${today} `, description: 'YYYY-MM-DD' }];
+    } else {
+      suggestions = valueSuggestions;
+    }
+  } else if (token.length > 0) {
+    const negated = token.startsWith('-');
+    const typed = (negated ? token.slice(1) : token).toLowerCase();
+    suggestions = SEARCH_FIELDS
+      .filter(field => field.label.toLowerCase().startsWith(typed))
+      .map(field => ({ ...field, insert: negated ? `-${field.insert}` : field.insert }));
+    if (!negated) {
+      suggestions = suggestions.concat(OPERATORS.filter(operator => operator.label.startsWith(token) && operator.label !== token));
+    }
+  }
+
+  const showSuggestions = focused && !dismissed && suggestions.length > 0;
+
+  const updateCaret = () => {
+    setCaret(inputRef.current?.selectionStart ?? searchTerm.length);
+  };
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    const newValue = searchTerm.slice(0, start) + suggestion.insert + searchTerm.slice(caret);
+    const newCaret = start + suggestion.insert.length;
+    onSearchChange(newValue);
+    setCaret(newCaret);
+    setActiveIndex(0);
+
+    // Restore the caret after React re-renders the input
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(newCaret, newCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) {
+      // Leave the search box so list shortcuts work again
+      if (e.key === 'Escape') {
+        inputRef.current?.blur();
+      }
+      return;
+    }
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
   return (
     <div className="bg-white dark:bg-dark-800 border-b border-gray-200 dark:border-dark-700 px-4 py-3 shadow-sm">
       <div className="relative">
@@ -25,15 +161,53 @@ const SearchBar: React.FC<SearchBarProps> = ({ searchTerm, onSearchChange }) =>
           </svg>
         </div>
         <input
+          ref={inputRef}
+          data-search-input
           type="text"
           value={searchTerm}
-          onChange={(e) => onSearchChange(e.target.value)}
-          placeholder="Search articles by title, content, or author..."
+          onChange={(e) => {
+            onSearchChange(e.target.value);
+            setCaret(e.target.selectionStart ?? e.target.value.length);
+            setDismissed(false);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={updateCaret}
+          onClick={updateCaret}
+          onFocus={() => setFocused(true)}
+          // Delay so a click on a suggestion lands before the list closes
+          onBlur={() => setTimeout(() => setFocused(false), 150)}
+          placeholder='Search articles, e.g. ransomware source:bleepingcomputer after:2026-01-01 -"press release"'
           className="input-field pl-10"
+          autoComplete="off"
         />
+        {showSuggestions && (
+          <ul className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto bg-white dark:bg-dark-800 border border-gray-200 dark:border-dark-600 rounded-md shadow-lg">
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.label}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applySuggestion(suggestion);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center justify-between px-3 py-2 text-sm cursor-pointer ${
+                  index === activeIndex
+                    ? 'bg-primary-50 dark:bg-dark-700 text-primary-700 dark:text-primary-300'
+                    : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                <span className="font-mono">{suggestion.label}</span>
+                {suggestion.description && (
+                  <span className="ml-4 text-xs text-gray-500 dark:text-gray-400">{suggestion.description}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </div>
   );
 };
 
-export default SearchBar; 
\ No newline at end of file
+export default SearchBar;
@@ -143,6 +143,33 @@ const Sidebar: React.FC = () => {
             <span>All Articles</span>
           </Link>
 
+          {/* Forum threads */}
+          <Link
+            to="/forums"
+            className={`${getActiveClass('/forums')} focus:outline-none select-none cursor-pointer`}
+            tabIndex={-1}
+            draggable={false}
+            contentEditable={false}
+            spellCheck={false}
+            onMouseDown={handleLinkInteraction}
+            onFocus={handleLinkInteraction}
+            onKeyDown={handleLinkInteraction}
+            onContextMenu={(e) => e.preventDefault()}
+            style={{ 
+              userSelect: 'none', 
+              WebkitUserSelect: 'none', 
+              MozUserSelect: 'none', 
+              msUserSelect: 'none',
+              caretColor: 'transparent',
+              cursor: 'pointer'
+            }}
+          >
+            <svg className="w-5 h-5 mr-3 text-accent-600 dark:text-accent-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8h2a2 2 0 012 2v6a2 2 0 01-2 2h-2v4l-4-4H9a1.994 1.994 0 01-1.414-.586m0 0L11 14h4a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2v4l.586-.586z" />
+            </svg>
+            <span>Forums</span>
+          </Link>
+
           {/* Alerts - Premium users only */}
           {user && (user.plan === 'premium' || user.role === 'admin') && (
             <Link
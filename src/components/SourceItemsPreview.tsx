@@ -0,0 +1,52 @@
+import React from 'react';
+import { ScraperTestResult } from '../types/Scraper';
+
+interface SourceItemsPreviewProps {
+  result: ScraperTestResult | null;
+  testing: boolean;
+  error: string | null;
+  emptyMessage: string;
+}
+
+// Items a scraper or JSON API source extracts with its current settings
+const SourceItemsPreview: React.FC<SourceItemsPreviewProps> = ({ result, testing, error, emptyMessage }) => (
+  <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 text-sm">
+    <div className="flex items-center justify-between mb-2">
+      <h4 className="font-medium text-gray-700 dark:text-gray-300">Extracted items</h4>
+      {testing && (
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+      )}
+    </div>
+
+    {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+    {!error && !result && !testing && (
+      <p className="text-gray-500 dark:text-gray-400">{emptyMessage}</p>
+    )}
+
+    {result && (
+      <>
+        <p className={result.itemCount > 0 ? 'text-green-700 dark:text-green-300' : 'text-red-600 dark:text-red-400'}>
+          {result.itemCount} item{result.itemCount !== 1 ? 's' : ''} from {result.pages.length} page{result.pages.length !== 1 ? 's' : ''}
+          {result.pages.length > 1 && ` (${result.pages.map(page => page.itemCount).join(' + ')})`}
+        </p>
+        <ul className="mt-2 max-h-64 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+          {result.items.map((item, index) => (
+            <li key={`${item.link}-${index}`} className="py-2">
+              <div className="font-medium text-gray-900 dark:text-white">{item.title}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 break-all">
+                {item.isoDate ? `${new Date(item.isoDate).toLocaleDateString()} • ` : 'No date • '}
+                {item.link}
+              </div>
+              {item.snippet && (
+                <div className="text-xs text-gray-600 dark:text-gray-400 mt-1 line-clamp-2">{item.snippet}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </>
+    )}
+  </div>
+);
+
+export default SourceItemsPreview;
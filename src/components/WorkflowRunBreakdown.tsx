@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { WorkflowFeedResult, WorkflowGptBatch, WorkflowGptValidation } from '../types/WorkflowRun';
+
+interface WorkflowRunBreakdownProps {
+  feedResults?: WorkflowFeedResult[];
+  gptBatches?: WorkflowGptBatch[];
+}
+
+const FEED_STATUS_STYLES: Record<WorkflowFeedResult['status'], string> = {
+  modified: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  not_modified: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  unchanged: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  skipped: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+};
+
+// e.g. "5/5 valid, 1 repaired, 2 unknown alert IDs"
+const describeValidation = (validation: WorkflowGptValidation, articles: number) => {
+  const parts = [`${validation.valid}/${articles} valid`];
+  if (validation.repaired > 0) {
+    parts.push(`${validation.repaired} repaired`);
+  }
+  if (validation.droppedKeywordIds.length > 0) {
+    parts.push(`${validation.droppedKeywordIds.length} unknown alert IDs`);
+  }
+  return parts.join(', ');
+};
+
+const formatMs = (ms?: number) => (ms === undefined || ms === null ? '-' : `${(ms / 1000).toFixed(1)}s`);
+
+const headerClass = 'px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider';
+const cellClass = 'px-3 py-2 whitespace-nowrap text-sm text-gray-900 dark:text-white';
+
+const WorkflowRunBreakdown: React.FC<WorkflowRunBreakdownProps> = ({ feedResults = [], gptBatches = [] }) => {
+  const [failedOnly, setFailedOnly] = useState(false);
+
+  // Slowest feeds first so problem sources are at the top
+  const feeds = useMemo(
+    () => feedResults
+      .filter(result => !failedOnly || result.status === 'failed' || result.status === 'skipped')
+      .sort((a, b) => (b.duration || 0) - (a.duration || 0)),
+    [feedResults, failedOnly]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Feeds ({feedResults.length})
+          </h4>
+          <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={failedOnly}
+              onChange={(e) => setFailedOnly(e.target.checked)}
+              className="h-3 w-3 rounded border-gray-300"
+            />
+            <span>Failed or skipped only</span>
+          </label>
+        </div>
+        {feeds.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No feed results recorded for this run</p>
+        ) : (
+          <div className="overflow-x-auto max-h-80 border border-gray-200 dark:border-gray-700 rounded">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                <tr>
+                  <th className={headerClass}>Feed</th>
+                  <th className={headerClass}>Status</th>
+                  <th className={headerClass}>Items</th>
+                  <th className={headerClass}>New</th>
+                  <th className={headerClass}>Duplicates</th>
+                  <th className={headerClass}>Updated</th>
+                  <th className={headerClass}>Duration</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {feeds.map((result, index) => (
+                  <tr key={`${result.feedId || result.feedUrl}-${index}`}>
+                    <td className="px-3 py-2 text-sm text-gray-900 dark:text-white">
+                      <div className="font-medium">{result.feedName}</div>
+                      {result.error && (
+                        <div className="text-xs text-red-600 dark:text-red-400 break-all">{result.error}</div>
+                      )}
+                    </td>
+                    <td className={cellClass}>
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${FEED_STATUS_STYLES[result.status] || FEED_STATUS_STYLES.skipped}`}>
+                        {result.status.replace('_', ' ')}
+                      </span>
+                    </td>
+                    <td className={cellClass}>{result.itemsFetched ?? 0}</td>
+                    <td className={cellClass}>{result.newArticles ?? 0}</td>
+                    <td className={cellClass}>{result.duplicates ?? 0}</td>
+                    <td className={cellClass}>{result.updatedArticles ?? 0}</td>
+                    <td className={cellClass} title={result.fetchTime !== undefined ? `Fetch ${formatMs(result.fetchTime)}, processing ${formatMs(result.processingTime)}` : undefined}>
+                      {formatMs(result.duration)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {gptBatches.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            GPT Batches ({gptBatches.length})
+          </h4>
+          <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className={headerClass}>Batch</th>
+                  <th className={headerClass}>Articles</th>
+                  <th className={headerClass}>Updated</th>
+                  <th className={headerClass}>With Alerts</th>
+                  <th className={headerClass}>Model</th>
+                  <th className={headerClass}>Validation</th>
+                  <th className={headerClass}>Tokens (in / out)</th>
+                  <th className={headerClass}>Duration</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {gptBatches.map(batch => (
+                  <tr key={batch.batch}>
+                    <td className={cellClass}>
+                      #{batch.batch}
+                      {batch.error && (
+                        <div className="text-xs text-red-600 dark:text-red-400 whitespace-normal">{batch.error}</div>
+                      )}
+                    </td>
+                    <td className={cellClass}>{batch.articles}</td>
+                    <td className={cellClass}>{batch.updated}</td>
+                    <td className={cellClass}>{batch.withAlerts ?? 0}</td>
+                    <td className={cellClass}>{batch.model ? `${batch.provider}/${batch.model}` : '-'}</td>
+                    <td
+                      className={cellClass}
+                      title={batch.validation ? [
+                        batch.validation.structuredOutput ? 'Structured output' : 'Free-form JSON',
+                        ...batch.validation.errors,
+                        ...(batch.validation.droppedKeywordIds.length > 0 ? [`Dropped: ${batch.validation.droppedKeywordIds.join(', ')}`] : [])
+                      ].join('\n') : undefined}
+                    >
+                      {batch.validation ? (
+                        <span className={batch.validation.invalid > 0 ? 'text-yellow-700 dark:text-yellow-300' : undefined}>
+                          {describeValidation(batch.validation, batch.articles)}
+                        </span>
+                      ) : '-'}
+                    </td>
+                    <td className={cellClass}>
+                      {batch.totalTokens !== undefined
+                        ? `${batch.totalTokens} (${batch.promptTokens ?? 0} / ${batch.completionTokens ?? 0})`
+                        : '-'}
+                    </td>
+                    <td className={cellClass}>{formatMs(batch.duration)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkflowRunBreakdown;
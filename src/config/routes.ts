@@ -0,0 +1,36 @@
+import { User } from '../types/User';
+
+// Pages reachable from the command palette; keep in sync with the routes in App.tsx
+export interface AppRoute {
+  path: string;
+  label: string;
+  requirePremium?: boolean;
+  requireAdmin?: boolean;
+}
+
+export const APP_ROUTES: AppRoute[] = [
+  { path: '/dashboard', label: 'Dashboard' },
+  { path: '/articles', label: 'All Articles' },
+  { path: '/forums', label: 'Forums' },
+  { path: '/saved', label: 'Saved Articles' },
+  { path: '/alerts', label: 'Alerts', requirePremium: true },
+  { path: '/keywords', label: 'Keywords', requirePremium: true },
+  { path: '/sources', label: 'Sources', requireAdmin: true },
+  { path: '/statistics', label: 'Statistics', requireAdmin: true },
+  { path: '/spam', label: 'Spam', requireAdmin: true },
+  { path: '/admin/users', label: 'User Management', requireAdmin: true },
+];
+
+// Same visibility rules as the Sidebar
+export const canAccessRoute = (route: AppRoute, user: User | null) => {
+  if (!user) {
+    return false;
+  }
+  if (route.requireAdmin) {
+    return user.role === 'admin';
+  }
+  if (route.requirePremium) {
+    return user.plan === 'premium' || user.role === 'admin';
+  }
+  return true;
+};
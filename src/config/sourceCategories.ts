@@ -0,0 +1,32 @@
+// Categories offered for sources; the value is stored on the feed
+export const SOURCE_CATEGORIES: { value: string; label: string }[] = [
+  { value: 'general', label: 'General' },
+  { value: 'security', label: 'Security' },
+  { value: 'technology', label: 'Technology' },
+  { value: 'finance', label: 'Finance' },
+  { value: 'automotive', label: 'Automotive' },
+  { value: 'ics-ot', label: 'ICS/OT' },
+  { value: 'healthcare', label: 'Healthcare' },
+  { value: 'energy', label: 'Energy' },
+  { value: 'government', label: 'Government' },
+  { value: 'defense', label: 'Defense' },
+  { value: 'telecommunications', label: 'Telecommunications' },
+  { value: 'manufacturing', label: 'Manufacturing' },
+  { value: 'retail', label: 'Retail' },
+  { value: 'education', label: 'Education' },
+  { value: 'transportation', label: 'Transportation' },
+  { value: 'cybersecurity', label: 'Cybersecurity' },
+  { value: 'malware', label: 'Malware' },
+  { value: 'vulnerabilities', label: 'Vulnerabilities' },
+  { value: 'threat-intelligence', label: 'Threat Intelligence' },
+];
+
+// Match a folder name such as "Threat Intelligence" or "ICS/OT" to a category
+export const matchSourceCategory = (folder: string | null): string => {
+  if (!folder) {
+    return 'general';
+  }
+  const slug = folder.trim().toLowerCase().replace(/[\s/_]+/g, '-');
+  const match = SOURCE_CATEGORIES.find(category => category.value === slug || category.label.toLowerCase() === folder.trim().toLowerCase());
+  return match ? match.value : 'general';
+};
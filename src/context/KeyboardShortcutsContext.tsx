@@ -0,0 +1,71 @@
+import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import CommandPalette from '../components/CommandPalette';
+import KeyboardHelp from '../components/KeyboardHelp';
+import { useHotkeys } from '../hooks/useHotkeys';
+
+interface KeyboardShortcutsContextType {
+  // True while the palette or help overlay is shown; page shortcuts pause meanwhile
+  overlayOpen: boolean;
+  openPalette: () => void;
+  openHelp: () => void;
+}
+
+const KeyboardShortcutsContext = createContext<KeyboardShortcutsContextType | undefined>(undefined);
+
+export const useKeyboardShortcuts = () => {
+  const context = useContext(KeyboardShortcutsContext);
+  if (context === undefined) {
+    throw new Error('useKeyboardShortcuts must be used within a KeyboardShortcutsProvider');
+  }
+  return context;
+};
+
+interface KeyboardShortcutsProviderProps {
+  children: ReactNode;
+}
+
+export const KeyboardShortcutsProvider: React.FC<KeyboardShortcutsProviderProps> = ({ children }) => {
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
+  const overlayOpen = paletteOpen || helpOpen;
+
+  const openPalette = useCallback(() => {
+    setHelpOpen(false);
+    setPaletteOpen(true);
+  }, []);
+
+  const openHelp = useCallback(() => {
+    setPaletteOpen(false);
+    setHelpOpen(true);
+  }, []);
+
+  const closeOverlays = useCallback(() => {
+    setPaletteOpen(false);
+    setHelpOpen(false);
+  }, []);
+
+  useHotkeys({
+    'mod+k': () => (paletteOpen ? closeOverlays() : openPalette()),
+  });
+
+  useHotkeys({
+    'Escape': closeOverlays,
+  }, overlayOpen);
+
+  useHotkeys({
+    '?': openHelp,
+    '/': () => document.querySelector<HTMLInputElement>('[data-search-input]')?.focus(),
+  }, !overlayOpen);
+
+  return (
+    <KeyboardShortcutsContext.Provider value={{
+      overlayOpen,
+      openPalette,
+      openHelp,
+    }}>
+      {children}
+      <CommandPalette open={paletteOpen} onClose={closeOverlays} onShowHelp={openHelp} />
+      <KeyboardHelp open={helpOpen} onClose={closeOverlays} />
+    </KeyboardShortcutsContext.Provider>
+  );
+};
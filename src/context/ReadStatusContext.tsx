@@ -1,11 +1,11 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import { apiService } from '../services/api';
 
 interface ReadStatusContextType {
   readStatus: Record<string, { read: boolean; timestamp?: string }>;
   markAsRead: (articleId: string) => Promise<void>;
   markAsUnread: (articleId: string) => Promise<void>;
-  markAllAsRead: (articleIds: string[]) => Promise<void>;
+  markAllAsRead: (articleIds?: string[]) => Promise<void>;
   isRead: (articleId: string) => boolean;
   getReadStats: () => Promise<{
     totalArticles: number;
@@ -33,7 +33,7 @@ interface ReadStatusProviderProps {
 export const ReadStatusProvider: React.FC<ReadStatusProviderProps> = ({ children }) => {
   const [readStatus, setReadStatus] = useState<Record<string, { read: boolean; timestamp?: string }>>({});
 
-  const markAsRead = async (articleId: string) => {
+  const markAsRead = useCallback(async (articleId: string) => {
     try {
       console.log('Marking article as read:', articleId);
       const result = await apiService.markAsRead(articleId);
@@ -45,65 +45,75 @@ export const ReadStatusProvider: React.FC<ReadStatusProviderProps> = ({ children
     } catch (error) {
       console.error('Error marking article as read:', error);
     }
-  };
+  }, []);
 
-  const markAsUnread = async (articleId: string) => {
+  const markAsUnread = useCallback(async (articleId: string) => {
     try {
       console.log('Marking article as unread:', articleId);
       const result = await apiService.markAsUnread(articleId);
       console.log('Mark as unread result:', result);
-      setReadStatus(prev => {
-        const newStatus = { ...prev };
-        delete newStatus[articleId];
-        return newStatus;
-      });
+      setReadStatus(prev => ({
+        ...prev,
+        [articleId]: { read: false }
+      }));
     } catch (error) {
       console.error('Error marking article as unread:', error);
     }
-  };
+  }, []);
 
-  const isRead = (articleId: string) => {
+  const isRead = useCallback((articleId: string) => {
     return readStatus[articleId]?.read || false;
-  };
+  }, [readStatus]);
 
-  const getReadStats = async () => {
+  const getReadStats = useCallback(async () => {
     return await apiService.getReadStats();
-  };
+  }, []);
 
-  const markAllAsRead = async (articleIds: string[]) => {
+  // Without IDs, every non-spam article is marked as read on the server
+  const markAllAsRead = useCallback(async (articleIds?: string[]) => {
     try {
-      console.log('Marking all articles as read:', articleIds.length);
-      const result = await apiService.markAllAsRead();
+      console.log('Marking all articles as read:', articleIds ? articleIds.length : 'all');
+      const result = await apiService.markAllAsRead(articleIds);
       console.log('Mark all as read result:', result);
       
       // Update local state for all articles
-      const newReadStatus: Record<string, { read: boolean; timestamp?: string }> = {};
-      articleIds.forEach(articleId => {
-        newReadStatus[articleId] = { read: true, timestamp: new Date().toISOString() };
+      setReadStatus(prev => {
+        const newReadStatus: Record<string, { read: boolean; timestamp?: string }> = {};
+        (articleIds || Object.keys(prev)).forEach(articleId => {
+          newReadStatus[articleId] = { read: true, timestamp: new Date().toISOString() };
+        });
+        return {
+          ...prev,
+          ...newReadStatus
+        };
       });
       
-      setReadStatus(prev => ({
-        ...prev,
-        ...newReadStatus
-      }));
-      
       console.log('All articles marked as read successfully');
     } catch (error) {
       console.error('Error marking all articles as read:', error);
       throw error; // Re-throw to allow error handling in components
     }
-  };
+  }, []);
 
-  const refreshReadStatus = async (articleIds: string[]) => {
+  const refreshReadStatus = useCallback(async (articleIds: string[]) => {
     try {
-      // Since the backend doesn't have a bulk read status endpoint,
-      // we'll just return and let the frontend manage read status locally
-      // The read status will be updated when articles are marked as read
       console.log('Refreshing read status for', articleIds.length, 'articles');
+      const status = await apiService.getReadStatus(articleIds);
+      
+      // Articles without a stored state are unread for this user
+      const newReadStatus: Record<string, { read: boolean; timestamp?: string }> = {};
+      articleIds.forEach(articleId => {
+        newReadStatus[articleId] = status[articleId] || { read: false };
+      });
+      
+      setReadStatus(prev => ({
+        ...prev,
+        ...newReadStatus
+      }));
     } catch (error) {
       console.error('Error refreshing read status:', error);
     }
-  };
+  }, []);
 
   return (
     <ReadStatusContext.Provider value={{
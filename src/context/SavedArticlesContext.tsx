@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import { apiService } from '../services/api';
 
 interface SavedArticlesContextType {
@@ -28,7 +28,7 @@ interface SavedArticlesProviderProps {
 export const SavedArticlesProvider: React.FC<SavedArticlesProviderProps> = ({ children }) => {
   const [savedStatus, setSavedStatus] = useState<Record<string, { saved: boolean; timestamp?: string }>>({});
 
-  const saveArticle = async (articleId: string) => {
+  const saveArticle = useCallback(async (articleId: string) => {
     try {
       console.log('Saving article:', articleId);
       const result = await apiService.saveArticle(articleId);
@@ -47,18 +47,17 @@ export const SavedArticlesProvider: React.FC<SavedArticlesProviderProps> = ({ ch
       console.error('Error saving article:', error);
       alert('Failed to save article. Please try again.');
     }
-  };
+  }, []);
 
-  const unsaveArticle = async (articleId: string) => {
+  const unsaveArticle = useCallback(async (articleId: string) => {
     try {
       console.log('Unsaving article:', articleId);
       const result = await apiService.unsaveArticle(articleId);
       console.log('Unsave article result:', result);
-      setSavedStatus(prev => {
-        const newStatus = { ...prev };
-        delete newStatus[articleId];
-        return newStatus;
-      });
+      setSavedStatus(prev => ({
+        ...prev,
+        [articleId]: { saved: false }
+      }));
       
       // Show success feedback
       console.log('✅ Article removed from saved articles.');
@@ -69,17 +68,13 @@ export const SavedArticlesProvider: React.FC<SavedArticlesProviderProps> = ({ ch
       console.error('Error unsaving article:', error);
               alert('Failed to remove article from saved articles. Please try again.');
     }
-  };
+  }, []);
 
-  const saveAllArticles = async (articleIds: string[]) => {
+  const saveAllArticles = useCallback(async (articleIds: string[]) => {
     try {
       console.log('Saving all articles:', articleIds.length);
-      // Since the backend doesn't have a bulk save endpoint,
-      // we'll save articles one by one
-      for (const articleId of articleIds) {
-        await apiService.saveArticle(articleId);
-      }
-      
+      await apiService.bulkSaveArticles({ articleIds });
+
       // Update local state
       const newSavedStatus: Record<string, { saved: boolean; timestamp?: string }> = {};
       articleIds.forEach(articleId => {
@@ -96,26 +91,35 @@ export const SavedArticlesProvider: React.FC<SavedArticlesProviderProps> = ({ ch
       console.error('Error saving all articles:', error);
       throw error; // Re-throw to allow error handling in components
     }
-  };
+  }, []);
 
-  const isSaved = (articleId: string) => {
+  const isSaved = useCallback((articleId: string) => {
     return savedStatus[articleId]?.saved || false;
-  };
+  }, [savedStatus]);
 
-  const getSavedArticles = async () => {
+  const getSavedArticles = useCallback(async () => {
     return await apiService.getSavedArticles();
-  };
+  }, []);
 
-  const refreshSavedStatus = async (articleIds: string[]) => {
+  const refreshSavedStatus = useCallback(async (articleIds: string[]) => {
     try {
-      // Since the backend doesn't have a bulk saved status endpoint,
-      // we'll just return and let the frontend manage saved status locally
-      // The saved status will be updated when articles are saved/unsaved
       console.log('Refreshing saved status for', articleIds.length, 'articles');
+      const status = await apiService.getSavedStatus(articleIds);
+      
+      // Articles without a stored state are not saved by this user
+      const newSavedStatus: Record<string, { saved: boolean; timestamp?: string }> = {};
+      articleIds.forEach(articleId => {
+        newSavedStatus[articleId] = status[articleId] || { saved: false };
+      });
+      
+      setSavedStatus(prev => ({
+        ...prev,
+        ...newSavedStatus
+      }));
     } catch (error) {
       console.error('Error refreshing saved status:', error);
     }
-  };
+  }, []);
 
   return (
     <SavedArticlesContext.Provider value={{
@@ -0,0 +1,100 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+export const DEFAULT_ARTICLE_FILTERS = {
+  industry: '',
+  severity: '',
+  type: '',
+  source: '',
+  timeFilter: '',
+  sortBy: 'newest',
+  hideRead: false,
+  threatLevel: '',
+  threatType: '',
+  language: '',
+};
+
+export type ArticleFilters = typeof DEFAULT_ARTICLE_FILTERS;
+
+export interface ArticleViewState extends ArticleFilters {
+  q: string;
+  pages: number;
+}
+
+const DEFAULT_VIEW_STATE: ArticleViewState = {
+  ...DEFAULT_ARTICLE_FILTERS,
+  q: '',
+  pages: 1,
+};
+
+const FILTER_KEYS = Object.keys(DEFAULT_ARTICLE_FILTERS) as (keyof ArticleFilters)[];
+
+// Pages restored from the URL; the API returns at most 1000 articles per request
+const MAX_PAGES = 20;
+
+/**
+ * Search term, filters and loaded page count of an article view, kept in the
+ * query string so a view can be bookmarked, shared and restored on back navigation.
+ * Only values that differ from the defaults appear in the URL.
+ */
+export const useArticleFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Only the filter values, so loading more pages or typing a search keeps the filters object
+  const filterString = new URLSearchParams(
+    FILTER_KEYS.flatMap(key => {
+      const value = searchParams.get(key);
+      return value === null ? [] : [[key, value]];
+    })
+  ).toString();
+
+  // Parse once per filter change so the filters object stays referentially stable
+  const filters = useMemo(() => {
+    const params = new URLSearchParams(filterString);
+    const parsed = { ...DEFAULT_ARTICLE_FILTERS };
+    FILTER_KEYS.forEach(key => {
+      const value = params.get(key);
+      if (value === null) {
+        return;
+      }
+      if (key === 'hideRead') {
+        parsed.hideRead = value === 'true';
+      } else {
+        parsed[key] = value;
+      }
+    });
+    return parsed;
+  }, [filterString]);
+
+  const searchTerm = searchParams.get('q') || '';
+  const pages = Math.min(Math.max(parseInt(searchParams.get('pages') || '1') || 1, 1), MAX_PAGES);
+
+  const setViewState = useCallback((updates: Partial<ArticleViewState>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => {
+        const defaultValue = DEFAULT_VIEW_STATE[key as keyof ArticleViewState];
+        if (value === undefined || value === defaultValue || value === '') {
+          next.delete(key);
+        } else {
+          next.set(key, String(value));
+        }
+      });
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Changing the query starts again from the first page
+  const setFilter = useCallback((filterName: string, value: any) => {
+    setViewState({ [filterName]: value, pages: 1 });
+  }, [setViewState]);
+
+  const setSearchTerm = useCallback((value: string) => {
+    setViewState({ q: value, pages: 1 });
+  }, [setViewState]);
+
+  const setPages = useCallback((count: number) => {
+    setViewState({ pages: count });
+  }, [setViewState]);
+
+  return { searchTerm, filters, pages, setViewState, setFilter, setSearchTerm, setPages };
+};
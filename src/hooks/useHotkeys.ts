@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+
+export type HotkeyMap = Record<string, (event: KeyboardEvent) => void>;
+
+// Keys are written as event.key ('j', '/', '?', 'Escape'); Ctrl or Cmd combos as 'mod+k'
+const toHotkey = (event: KeyboardEvent) => {
+  if (event.altKey) {
+    return '';
+  }
+  if (event.ctrlKey || event.metaKey) {
+    return `mod+${event.key.toLowerCase()}`;
+  }
+  return event.key;
+};
+
+// Checkboxes and radio buttons take no text, so other shortcuts keep working after clicking one
+const isToggleInput = (target: HTMLElement) =>
+  target instanceof HTMLInputElement && ['checkbox', 'radio'].includes(target.type);
+
+const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  if (isToggleInput(target)) {
+    return false;
+  }
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+// Enter and Space activate a focused button, link or toggle input; shortcuts must not take them over
+const isActivationTarget = (target: EventTarget | null, hotkey: string) => {
+  if (!(target instanceof HTMLElement) || (hotkey !== 'Enter' && hotkey !== ' ')) {
+    return false;
+  }
+  return ['BUTTON', 'A'].includes(target.tagName) || target.getAttribute('role') === 'button' || isToggleInput(target);
+};
+
+/**
+ * Bind single-key shortcuts on the window. Plain keys are ignored while the user
+ * is typing in a form field, and Enter is left to a focused button, link or checkbox;
+ * Escape and mod+ combos always fire.
+ */
+export const useHotkeys = (bindings: HotkeyMap, enabled: boolean = true) => {
+  // Keep the latest handlers without re-subscribing on every render
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const hotkey = toHotkey(event);
+      const handler = bindingsRef.current[hotkey];
+      if (!handler) {
+        return;
+      }
+      if (isTypingTarget(event.target) && hotkey !== 'Escape' && !hotkey.startsWith('mod+')) {
+        return;
+      }
+      if (isActivationTarget(event.target, hotkey)) {
+        return;
+      }
+
+      event.preventDefault();
+      handler(event);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+
+/**
+ * Restore the window scroll position when coming back to a history entry,
+ * e.g. returning to a filtered list from /article/:id.
+ * `ready` should turn true once the list has rendered its content.
+ */
+export const useScrollRestoration = (ready: boolean) => {
+  const location = useLocation();
+  const storageKey = `scroll:${location.key}`;
+  const restoredRef = useRef(false);
+
+  // Remember the position when leaving this history entry
+  useEffect(() => {
+    return () => {
+      sessionStorage.setItem(storageKey, String(window.scrollY));
+    };
+  }, [storageKey]);
+
+  useEffect(() => {
+    if (!ready || restoredRef.current) {
+      return;
+    }
+    restoredRef.current = true;
+
+    const saved = sessionStorage.getItem(storageKey);
+    if (saved) {
+      requestAnimationFrame(() => window.scrollTo(0, parseInt(saved)));
+    }
+  }, [ready, storageKey]);
+};
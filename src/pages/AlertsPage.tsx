@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { apiService } from '../services/api';
+import { useArticleFilters } from '../hooks/useArticleFilters';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
 import { Article } from '../types/Article';
 import FilterBar from '../components/FilterBar';
 import SearchBar from '../components/SearchBar';
@@ -17,6 +19,10 @@ interface Keyword {
   updatedAt: string;
 }
 
+const hasAlertMatches = (article: Article) =>
+  (article.alertMatches && article.alertMatches.length > 0) ||
+  (article.savedSearchMatches && article.savedSearchMatches.length > 0);
+
 const AlertsPage: React.FC = () => {
   const { user } = useAuth();
   const { refreshReadStatus, getReadStats, readStatus } = useReadStatus();
@@ -26,25 +32,15 @@ const AlertsPage: React.FC = () => {
   const [keywords, setKeywords] = useState<Keyword[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
   const [readStats, setReadStats] = useState<{
     totalArticles: number;
     readArticles: number;
     unreadArticles: number;
     readPercentage: number;
   } | null>(null);
+  const { searchTerm, filters, setFilter, setSearchTerm } = useArticleFilters();
 
-  const [filters, setFilters] = useState({
-    industry: '',
-    severity: '',
-    type: '',
-    source: '',
-    timeFilter: '',
-    sortBy: 'newest',
-    hideRead: false,
-    threatLevel: '',
-    threatType: '',
-  });
+  useScrollRestoration(!loading);
 
   const fetchArticles = useCallback(async () => {
     try {
@@ -66,10 +62,8 @@ const AlertsPage: React.FC = () => {
         // Clear any previous error if we have articles
         setError(null);
         
-        // Show articles that have any alert matches
-        let initialFiltered = allArticles.filter(article => 
-          article.alertMatches && article.alertMatches.length > 0
-        );
+        // Show articles that have any keyword or saved search matches
+        let initialFiltered = allArticles.filter(hasAlertMatches);
         setFilteredArticles(initialFiltered);
         
         // Refresh read status and saved status
@@ -139,10 +133,8 @@ const AlertsPage: React.FC = () => {
           filtered = articles;
         }
 
-        // Show articles that have any alert matches
-        filtered = filtered.filter(article => 
-          article.alertMatches && article.alertMatches.length > 0
-        );
+        // Show articles that have any keyword or saved search matches
+        filtered = filtered.filter(hasAlertMatches);
 
         // Apply other filters
         if (filters.industry) {
@@ -210,7 +202,7 @@ const AlertsPage: React.FC = () => {
 
         // Apply hide read filter
         if (filters.hideRead) {
-          filtered = filtered.filter((article) => !readStatus[article._id]);
+          filtered = filtered.filter((article) => !readStatus[article._id]?.read);
         }
 
         // Exclude spam articles from alerts (using new isSpam field)
@@ -255,10 +247,7 @@ const AlertsPage: React.FC = () => {
   }, [articles, searchTerm, filters, readStatus]);
 
   const handleFilterChange = (filterName: string, value: any) => {
-    setFilters(prev => ({
-      ...prev,
-      [filterName]: value
-    }));
+    setFilter(filterName, value);
   };
 
   const handleSearchChange = (value: string) => {
@@ -313,7 +302,7 @@ const AlertsPage: React.FC = () => {
             </p>
           </div>
           
-          <FilterBar filters={filters} onFilterChange={handleFilterChange} />
+          <FilterBar filters={filters} onFilterChange={handleFilterChange} searchTerm={searchTerm} facetScope={{ alerts: 'true' }} />
           
           <div className="bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-dark-700 p-6">
             <div className="flex items-center justify-between mb-6">
@@ -364,6 +353,7 @@ const AlertsPage: React.FC = () => {
                 return acc;
               }, {} as Record<string, { name: string; displayName: string }>)} 
               isAdmin={user?.role === 'admin'}
+              onBulkChange={fetchArticles}
             />
           </div>
         </div>
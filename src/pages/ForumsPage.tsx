@@ -0,0 +1,254 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { apiService } from '../services/api';
+import { ForumThread, ForumThreadWithPosts } from '../types/Forum';
+
+const PAGE_SIZE = 30;
+
+const formatDate = (value?: string | Date | null) => (value ? new Date(value).toLocaleString() : 'Unknown');
+
+// Post content is stored as a snippet, sometimes with markup
+const toExcerpt = (content?: string) => (content || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const ForumsPage: React.FC = () => {
+  const [threads, setThreads] = useState<ForumThread[]>([]);
+  const [sources, setSources] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pages, setPages] = useState(0);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [source, setSource] = useState('');
+  const [newRepliesOnly, setNewRepliesOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openThread, setOpenThread] = useState<ForumThreadWithPosts | null>(null);
+  const [loadingThreadId, setLoadingThreadId] = useState<string | null>(null);
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await apiService.getForums({ page, limit: PAGE_SIZE, search, source, newReplies: newRepliesOnly });
+      setThreads(result.threads);
+      setSources(result.sources);
+      setTotal(result.total);
+      setPages(result.pages);
+    } catch (err: any) {
+      console.error('Error fetching forum threads:', err);
+      setError(err.response?.data?.error || 'Failed to fetch forum threads');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search, source, newRepliesOnly]);
+
+  useEffect(() => {
+    fetchThreads();
+  }, [fetchThreads]);
+
+  const handleToggleThread = async (thread: ForumThread) => {
+    if (openThread && openThread._id === thread._id) {
+      setOpenThread(null);
+      return;
+    }
+
+    try {
+      setLoadingThreadId(thread._id);
+      setOpenThread(await apiService.getForumThread(thread._id));
+    } catch (err: any) {
+      console.error('Error fetching forum thread:', err);
+      setError(err.response?.data?.error || 'Failed to fetch forum thread');
+    } finally {
+      setLoadingThreadId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-dark-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="space-y-6">
+          <div className="card p-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                  Forum Threads ({total})
+                </h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  Posts from forum sources, grouped by thread
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    setPage(1);
+                  }}
+                  placeholder="Search thread titles..."
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+                />
+                <select
+                  value={source}
+                  onChange={(e) => {
+                    setSource(e.target.value);
+                    setPage(1);
+                  }}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+                >
+                  <option value="">All forums</option>
+                  {sources.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={newRepliesOnly}
+                    onChange={(e) => {
+                      setNewRepliesOnly(e.target.checked);
+                      setPage(1);
+                    }}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                  With new replies
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent"></div>
+            </div>
+          ) : threads.length === 0 ? (
+            <div className="card p-12 text-center">
+              <p className="text-gray-600 dark:text-gray-400">
+                No forum threads found. Threads appear as posts from forum sources are fetched.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {threads.map(thread => {
+                const isOpen = openThread !== null && openThread._id === thread._id;
+                return (
+                  <div key={thread._id} className="card overflow-hidden">
+                    <button
+                      onClick={() => handleToggleThread(thread)}
+                      className="w-full text-left p-5 hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{thread.title}</h3>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {thread.source} • started {formatDate(thread.firstPostAt)} • last post {formatDate(thread.lastPostAt)}
+                          </p>
+                        </div>
+                        <div className="flex flex-shrink-0 items-center gap-2">
+                          {thread.lastNewReplyAt && (thread.newReplyCount || 0) > 0 && (
+                            <span
+                              className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+                              title={`Found ${formatDate(thread.lastNewReplyAt)}`}
+                            >
+                              +{thread.newReplyCount} new
+                            </span>
+                          )}
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                            {thread.postCount} post{thread.postCount !== 1 ? 's' : ''}
+                          </span>
+                          {loadingThreadId === thread._id && (
+                            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                          )}
+                        </div>
+                      </div>
+                    </button>
+
+                    {isOpen && openThread && (
+                      <div className="border-t border-gray-200 dark:border-gray-700 px-5 py-4 space-y-4">
+                        {openThread.url && (
+                          <a
+                            href={openThread.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            Open thread on the forum
+                          </a>
+                        )}
+                        <ol className="space-y-3">
+                          {openThread.posts.map(post => (
+                            <li
+                              key={post._id}
+                              className={`rounded-lg border border-gray-200 dark:border-gray-700 p-4 ${post.isReply ? 'ml-6' : ''} ${post.read ? 'opacity-75' : ''}`}
+                            >
+                              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                                <span className="font-medium text-gray-700 dark:text-gray-300">
+                                  {post.isReply ? 'Reply' : 'Opening post'}
+                                </span>
+                                {(post.creator || post.author) && <span>by {post.creator || post.author}</span>}
+                                <span>• {formatDate(post.isoDate)}</span>
+                                {post.threatLevel && post.threatLevel !== 'NONE' && (
+                                  <span className={`px-2 py-0.5 rounded-md font-medium ${
+                                    post.threatLevel === 'HIGH' || post.threatLevel === 'CRITICAL'
+                                      ? 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200'
+                                      : post.threatLevel === 'MEDIUM'
+                                      ? 'bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-200'
+                                      : 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200'
+                                  }`}>
+                                    {post.threatLevel}
+                                  </span>
+                                )}
+                              </div>
+                              <Link
+                                to={`/article/${post._id}`}
+                                className="block mt-1 font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                              >
+                                {post.title}
+                              </Link>
+                              <p className="mt-1 text-sm text-gray-600 dark:text-gray-300 line-clamp-3">
+                                {toExcerpt(post.content)}
+                              </p>
+                            </li>
+                          ))}
+                        </ol>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {pages > 1 && (
+            <div className="flex items-center justify-center gap-3">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || loading}
+                className="px-4 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                Page {page} of {pages}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pages || loading}
+                className="px-4 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForumsPage;
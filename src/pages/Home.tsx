@@ -1,53 +1,70 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Article } from '../types/Article';
 import { useReadStatus } from '../context/ReadStatusContext';
+import { useAuth } from '../context/AuthContext';
 import ArticleList from '../components/ArticleList';
 import FilterBar from '../components/FilterBar';
 import SearchBar from '../components/SearchBar';
+import SavedSearches from '../components/SavedSearches';
+import { SavedSearchFilters } from '../types/SavedSearch';
 import { apiService } from '../services/api';
+import { useArticleFilters, DEFAULT_ARTICLE_FILTERS } from '../hooks/useArticleFilters';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
+
+const PAGE_SIZE = 50;
 
 const Home: React.FC = () => {
-  const { readStatus, refreshReadStatus, getReadStats, markAllAsRead } = useReadStatus();
+  const { user } = useAuth();
+  const { refreshReadStatus, getReadStats, markAllAsRead } = useReadStatus();
   const [articles, setArticles] = useState<Article[]>([]);
-  const [filteredArticles, setFilteredArticles] = useState<Article[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
+  const { searchTerm, filters, pages, setViewState, setFilter, setSearchTerm, setPages } = useArticleFilters();
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(searchTerm.trim());
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [totalArticles, setTotalArticles] = useState(0);
   const [readStats, setReadStats] = useState<{
     totalArticles: number;
     readArticles: number;
     unreadArticles: number;
     readPercentage: number;
   } | null>(null);
-  const [filters, setFilters] = useState({
-    industry: '',
-    severity: '',
-    type: '',
-    source: '',
-    timeFilter: '',
-    sortBy: 'newest',
-    hideRead: false,
-    threatLevel: '',
-    threatType: '',
-  });
   const [keywords, setKeywords] = useState<Record<string, { name: string; displayName: string }>>({});
+  // Incremented on every new query so responses for stale queries are ignored
+  const requestIdRef = useRef(0);
+  // Number of pages to (re)load, so a shared link or refresh shows the same list
+  const pagesRef = useRef(pages);
+  pagesRef.current = pages;
+
+  useScrollRestoration(!loading);
+
+  // Avoid a request per keystroke while typing in the search box
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
   const fetchArticles = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
     try {
       setLoading(true);
       setError(null);
       
-      // Use getAllArticlesWithAlerts to fetch all articles, not just first page
-      // This ensures the hide read filter works properly across all articles
-      const data = await apiService.getAllArticlesWithAlerts();
-      console.log('Received articles from API:', data.length);
-      console.log('Sample articles with types:', data.slice(0, 3).map(a => ({ title: a.title, type: a.type, source: a.name })));
+      const { data, pagination } = await apiService.getArticlesPage({ ...filters, search: debouncedSearchTerm }, null, PAGE_SIZE * pagesRef.current);
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+      console.log('Received articles from API:', data.length, 'of', pagination.total);
       setArticles(data);
+      setNextCursor(pagination.nextCursor);
+      setHasMore(pagination.hasMore);
+      setTotalArticles(pagination.total);
       
-      // Refresh read status for all articles
+      // Refresh read status for the loaded articles
       if (data.length > 0) {
-        const articleIds = data.map(article => article._id);
-        await refreshReadStatus(articleIds);
+        await refreshReadStatus(data.map(article => article._id));
       }
       
       // Get read statistics
@@ -55,11 +72,44 @@ const Home: React.FC = () => {
       setReadStats(stats);
     } catch (error) {
       console.error('Error fetching articles:', error);
-      setError('Failed to fetch articles');
+      if (requestId === requestIdRef.current) {
+        setError('Failed to fetch articles');
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [filters, debouncedSearchTerm, refreshReadStatus, getReadStats]);
+
+  const loadMoreArticles = useCallback(async () => {
+    if (!nextCursor || loadingMore) {
+      return;
+    }
+
+    const requestId = requestIdRef.current;
+    try {
+      setLoadingMore(true);
+      const { data, pagination } = await apiService.getArticlesPage({ ...filters, search: debouncedSearchTerm }, nextCursor, PAGE_SIZE);
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+      setArticles(prev => [...prev, ...data]);
+      setPages(pagesRef.current + 1);
+      setNextCursor(pagination.nextCursor);
+      setHasMore(pagination.hasMore);
+      setTotalArticles(pagination.total);
+      
+      if (data.length > 0) {
+        await refreshReadStatus(data.map(article => article._id));
+      }
+    } catch (error) {
+      console.error('Error loading more articles:', error);
+      setHasMore(false);
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
-  }, [refreshReadStatus, getReadStats]);
+  }, [filters, debouncedSearchTerm, nextCursor, loadingMore, refreshReadStatus, setPages]);
 
   const fetchKeywords = useCallback(async () => {
     try {
@@ -81,240 +131,18 @@ const Home: React.FC = () => {
 
   useEffect(() => {
     fetchArticles();
-    fetchKeywords();
-  }, [fetchArticles, fetchKeywords]);
+  }, [fetchArticles]);
 
   useEffect(() => {
-    const filterArticles = async () => {
-      try {
-        // If we have a search term, use backend search
-        if (searchTerm.trim()) {
-          console.log('Using backend search for:', searchTerm);
-          let searchResults: Article[] = [];
-          
-          try {
-            searchResults = await apiService.searchArticles(searchTerm);
-            console.log('Search results received:', searchResults.length, 'articles');
-            console.log('Sample search results:', searchResults.slice(0, 2).map((a: Article) => ({ title: a.title, source: a.source })));
-          } catch (error) {
-            console.error('Search API error:', error);
-            // Fallback to client-side search
-            searchResults = articles.filter((article: Article) => 
-              article.title?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-              article.content?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-              article.source?.toLowerCase().includes(searchTerm.toLowerCase())
-            );
-            console.log('Fallback search results:', searchResults.length, 'articles');
-          }
-          
-          // Apply additional filters to search results
-          let filtered = searchResults;
-
-          // Apply industry filter
-          if (filters.industry) {
-            filtered = filtered.filter((article: Article) => {
-              // Check if article has industries array and the selected industry is in it
-              if (article.industries && Array.isArray(article.industries)) {
-                return article.industries.includes(filters.industry);
-              }
-              // Fallback to single industry field
-              return article.industry === filters.industry;
-            });
-          }
-
-          // Apply severity filter (map to threatLevel since severity field doesn't exist)
-          if (filters.severity) {
-            filtered = filtered.filter((article: Article) => {
-              // Map severity filter to threatLevel
-              const severityToThreatLevel: Record<string, string> = {
-                'high': 'HIGH',
-                'medium': 'MEDIUM', 
-                'low': 'LOW'
-              };
-              const expectedThreatLevel = severityToThreatLevel[filters.severity];
-              return article.threatLevel === expectedThreatLevel;
-            });
-          }
-
-          // Apply threat level filter
-          if (filters.threatLevel) {
-            filtered = filtered.filter((article: Article) => article.threatLevel === filters.threatLevel);
-          }
-
-          // Apply threat type filter
-          if (filters.threatType) {
-            filtered = filtered.filter((article: Article) => article.threatType === filters.threatType);
-          }
-
-          // Apply source filter
-          if (filters.source) {
-            filtered = filtered.filter((article: Article) => article.source === filters.source);
-          }
-
-          // Apply time filter
-          if (filters.timeFilter) {
-            const now = new Date();
-            let cutoffDate: Date;
-            
-            switch (filters.timeFilter) {
-              case '1day':
-                cutoffDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-                break;
-              case '1week':
-                cutoffDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-                break;
-              case '1month':
-                cutoffDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-                break;
-              case '3months':
-                cutoffDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-                break;
-              default:
-                cutoffDate = new Date(0); // Beginning of time
-            }
-            
-            filtered = filtered.filter((article: Article) => {
-              const articleDate = new Date(article.isoDate || article.isodate || article.pubDate || 0);
-              return articleDate >= cutoffDate;
-            });
-          }
-
-          // Type filtering is now handled by the backend
-
-          // Apply hide read filter
-          if (filters.hideRead) {
-            filtered = filtered.filter((article: Article) => !readStatus[article._id]);
-          }
-
-          // Spam articles are now excluded by the backend by default
-
-          // Apply sorting
-          if (filters.sortBy === 'newest') {
-            filtered.sort((a: Article, b: Article) => new Date(b.isoDate || b.isodate || b.pubDate || new Date()).getTime() - new Date(a.isoDate || a.isodate || a.pubDate || new Date()).getTime());
-          } else if (filters.sortBy === 'oldest') {
-            filtered.sort((a: Article, b: Article) => new Date(a.isoDate || a.isodate || a.pubDate || new Date()).getTime() - new Date(b.isoDate || b.isodate || b.pubDate || new Date()).getTime());
-          }
-
-          setFilteredArticles(filtered);
-          return;
-        }
-
-        // If we have type filter or source filter, use backend filtering
-        if (filters.type || filters.source) {
-          console.log('Using backend filtering due to type or source filter:', { type: filters.type, source: filters.source });
-          try {
-            const queryParams = new URLSearchParams();
-            if (filters.type) queryParams.append('type', filters.type);
-            if (filters.source) queryParams.append('source', filters.source);
-            
-            const filteredData = await apiService.getAllArticles(`?${queryParams.toString()}`);
-            setFilteredArticles(filteredData);
-            return;
-          } catch (error) {
-            console.error('Error fetching filtered articles:', error);
-            // Fall back to client-side filtering
-          }
-        }
-
-        // Otherwise, use client-side filtering
-        let filtered = articles;
-
-        // Apply industry filter
-        if (filters.industry) {
-          filtered = filtered.filter((article) => {
-            // Check if article has industries array and the selected industry is in it
-            if (article.industries && Array.isArray(article.industries)) {
-              return article.industries.includes(filters.industry);
-            }
-            // Fallback to single industry field
-            return article.industry === filters.industry;
-          });
-        }
-
-        // Apply severity filter (map to threatLevel since severity field doesn't exist)
-        if (filters.severity) {
-          filtered = filtered.filter((article) => {
-            // Map severity filter to threatLevel
-            const severityToThreatLevel: Record<string, string> = {
-              'high': 'HIGH',
-              'medium': 'MEDIUM', 
-              'low': 'LOW'
-            };
-            const expectedThreatLevel = severityToThreatLevel[filters.severity];
-            return article.threatLevel === expectedThreatLevel;
-          });
-        }
-
-        // Apply threat level filter
-        if (filters.threatLevel) {
-          filtered = filtered.filter((article) => article.threatLevel === filters.threatLevel);
-        }
-
-        // Apply threat type filter
-        if (filters.threatType) {
-          filtered = filtered.filter((article) => article.threatType === filters.threatType);
-        }
-
-        // Apply source filter
-        if (filters.source) {
-          filtered = filtered.filter((article) => article.source === filters.source);
-        }
-
-        // Apply time filter
-        if (filters.timeFilter) {
-          const now = new Date();
-          let cutoffDate: Date;
-          
-          switch (filters.timeFilter) {
-            case '1day':
-              cutoffDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-              break;
-            case '1week':
-              cutoffDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-              break;
-            case '1month':
-              cutoffDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-              break;
-            case '3months':
-              cutoffDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-              break;
-            default:
-              cutoffDate = new Date(0); // Beginning of time
-          }
-          
-          filtered = filtered.filter((article) => {
-            const articleDate = new Date(article.isoDate || article.isodate || article.pubDate || 0);
-            return articleDate >= cutoffDate;
-          });
-        }
-
-        // Type filtering is now handled by the backend
-
-        // Apply hide read filter
-        if (filters.hideRead) {
-          filtered = filtered.filter((article) => !readStatus[article._id]);
-        }
-
-        // Spam articles are now excluded by the backend by default
-
-        // Apply sorting
-        if (filters.sortBy === 'newest') {
-          filtered.sort((a, b) => new Date(b.isoDate || b.isodate || b.pubDate || new Date()).getTime() - new Date(a.isoDate || a.isodate || a.pubDate || new Date()).getTime());
-        } else if (filters.sortBy === 'oldest') {
-          filtered.sort((a, b) => new Date(a.isoDate || a.isodate || a.pubDate || new Date()).getTime() - new Date(b.isoDate || b.isodate || b.pubDate || new Date()).getTime());
-        }
-
-        setFilteredArticles(filtered);
-      } catch (error) {
-        console.error('Error filtering articles:', error);
-      }
-    };
-
-    filterArticles();
-  }, [articles, searchTerm, filters, readStatus]);
+    fetchKeywords();
+  }, [fetchKeywords]);
 
   const handleFilterChange = (filterName: string, value: any) => {
-    setFilters(prev => ({ ...prev, [filterName]: value }));
+    setFilter(filterName, value);
+  };
+
+  const handleApplySavedSearch = (query: string, savedFilters: SavedSearchFilters) => {
+    setViewState({ ...DEFAULT_ARTICLE_FILTERS, hideRead: filters.hideRead, ...savedFilters, q: query, pages: 1 });
   };
 
   const handleSearchChange = (value: string) => {
@@ -348,7 +176,9 @@ const Home: React.FC = () => {
     try {
       await apiService.deleteAllArticles();
       setArticles([]);
-      setFilteredArticles([]);
+      setNextCursor(null);
+      setHasMore(false);
+      setTotalArticles(0);
       setReadStats(null);
     } catch (error) {
       console.error('Error deleting all articles:', error);
@@ -378,9 +208,9 @@ const Home: React.FC = () => {
 
   const handleDeleteArticle = async (articleId: string) => {
     try {
-      // Remove the article from the current lists
+      // Remove the article from the current list
       setArticles(prev => prev.filter(article => article._id !== articleId));
-      setFilteredArticles(prev => prev.filter(article => article._id !== articleId));
+      setTotalArticles(prev => Math.max(prev - 1, 0));
       
       // Refresh stats
       const newStats = await getReadStats();
@@ -395,13 +225,14 @@ const Home: React.FC = () => {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="space-y-6">
           <SearchBar searchTerm={searchTerm} onSearchChange={handleSearchChange} />
-          <FilterBar filters={filters} onFilterChange={handleFilterChange} />
+          <SavedSearches searchTerm={searchTerm} filters={filters} onApply={handleApplySavedSearch} />
+          <FilterBar filters={filters} onFilterChange={handleFilterChange} searchTerm={searchTerm} />
           
           <div className="card p-6">
             <div className="flex items-center justify-between mb-6">
               <div className="flex-1">
                 <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
-                  Articles ({filteredArticles.length})
+                  Articles ({totalArticles})
                 </h2>
                 {readStats && (
                   <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
@@ -457,7 +288,19 @@ const Home: React.FC = () => {
               </div>
             )}
             
-            <ArticleList articles={filteredArticles} loading={loading} onDelete={handleDeleteArticle} keywords={keywords} />
+            <ArticleList
+              articles={articles}
+              loading={loading}
+              onDelete={handleDeleteArticle}
+              keywords={keywords}
+              hasMore={hasMore}
+              loadingMore={loadingMore}
+              onLoadMore={loadMoreArticles}
+              totalCount={totalArticles}
+              matchingQuery={{ ...filters, search: debouncedSearchTerm }}
+              onBulkChange={fetchArticles}
+              isAdmin={user?.role === 'admin'}
+            />
           </div>
         </div>
       </div>
@@ -1,5 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { apiService } from '../services/api';
+import { SOURCE_CATEGORIES } from '../config/sourceCategories';
+import OpmlImportModal from '../components/OpmlImportModal';
+import FeedValidationPanel from '../components/FeedValidationPanel';
+import ScraperConfigFields from '../components/ScraperConfigFields';
+import JsonSourceConfigFields from '../components/JsonSourceConfigFields';
+import { FeedValidation } from '../types/FeedValidation';
+import { EMPTY_SCRAPER_CONFIG, ScraperConfig, ScraperTestResult } from '../types/Scraper';
+import { EMPTY_JSON_API_CONFIG, JsonApiConfig } from '../types/JsonSource';
+
+type SourceType = 'rss' | 'scraper' | 'json';
 
 interface Source {
   _id: string;
@@ -16,14 +26,44 @@ interface Source {
   lastFetch?: string;
   fetchCount?: number;
   errorCount?: number;
+  sourceType?: SourceType;
+  scraper?: ScraperConfig | null;
+  jsonApi?: JsonApiConfig | null;
+  fetchFullText?: boolean;
+  // Scheduling, intervals in minutes
+  fetchInterval?: number;
+  adaptivePolling?: boolean;
+  pollInterval?: number | null;
+  nextFetchAt?: string | null;
+  consecutiveFailures?: number;
+  disabledReason?: string | null;
+  lastFetchDuration?: number | null;
 }
 
+const formatInterval = (minutes: number) => {
+  if (minutes >= 60 && minutes % 60 === 0) {
+    return `${minutes / 60}h`;
+  }
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+const URL_LABELS: Record<SourceType, string> = { rss: 'RSS URL', scraper: 'List Page URL', json: 'API URL' };
+
+// The edit modal does not gate saving on the scraper or JSON API test
+const ignoreItemsTest = () => {};
+
 const SourcesPage: React.FC = () => {
   const [sources, setSources] = useState<Source[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'all' | 'news' | 'forum'>('all');
   const [showAddForm, setShowAddForm] = useState(false);
+  const [showOpmlImport, setShowOpmlImport] = useState(false);
+  const [validation, setValidation] = useState<FeedValidation | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [skipValidation, setSkipValidation] = useState(false);
+  // Scraper and JSON API sources: items extracted with the current settings
+  const [itemsTest, setItemsTest] = useState<ScraperTestResult | null>(null);
   const [addingSource, setAddingSource] = useState(false);
   const [editingSource, setEditingSource] = useState<Source | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
@@ -32,14 +72,24 @@ const SourcesPage: React.FC = () => {
     name: '',
     url: '',
     category: 'general',
-    type: 'news'
+    type: 'news',
+    sourceType: 'rss' as SourceType,
+    scraper: EMPTY_SCRAPER_CONFIG,
+    jsonApi: EMPTY_JSON_API_CONFIG,
+    fetchFullText: false
   });
   const [editForm, setEditForm] = useState({
     name: '',
     url: '',
     category: 'general',
     type: 'news',
-    isodate: ''
+    isodate: '',
+    sourceType: 'rss' as SourceType,
+    scraper: EMPTY_SCRAPER_CONFIG,
+    jsonApi: EMPTY_JSON_API_CONFIG,
+    fetchFullText: false,
+    fetchInterval: '60',
+    adaptivePolling: true
   });
   const [searchQuery, setSearchQuery] = useState('');
   const [runningSources, setRunningSources] = useState<Set<string>>(new Set());
@@ -128,6 +178,40 @@ const SourcesPage: React.FC = () => {
     }
   };
 
+  const handleValidateSource = async (url: string) => {
+    if (!url.trim()) {
+      setError('Enter a feed or website URL to validate');
+      return;
+    }
+
+    setValidating(true);
+    setError(null);
+    try {
+      const result = await apiService.validateSource(url.trim());
+      setValidation(result);
+      // Switch to the discovered feed and suggest its title as the name
+      setNewSource(prev => ({ ...prev, url: result.feedUrl, name: prev.name || result.preview?.title || '' }));
+    } catch (err: any) {
+      console.error('Error validating source:', err);
+      setValidation(null);
+      setError(err.response?.data?.error || 'Failed to validate source');
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  // Validating a discovered feed directly finds no page links, so keep the page's list
+  const handleSelectDiscoveredFeed = async (url: string) => {
+    const discoveredFeeds = validation?.discoveredFeeds || [];
+    await handleValidateSource(url);
+    setValidation(prev => (prev && prev.discoveredFeeds.length === 0 ? { ...prev, discoveredFeeds } : prev));
+  };
+
+  // Only a validated URL can be saved, unless validation is explicitly skipped
+  const canSaveSource = skipValidation || (newSource.sourceType === 'rss'
+    ? validation !== null && validation.valid && validation.feedUrl === newSource.url.trim()
+    : itemsTest !== null && itemsTest.itemCount > 0);
+
   const handleAddSource = async (e: React.FormEvent) => {
     e.preventDefault();
     console.log('Adding source:', newSource);
@@ -136,24 +220,52 @@ const SourcesPage: React.FC = () => {
       setError('Name and URL are required');
       return;
     }
+
+    if (!canSaveSource) {
+      setError('Validate the feed before adding it, or choose to save without validation');
+      return;
+    }
     
     setAddingSource(true);
     setError(null);
     
     try {
-      const result = await apiService.addSource(newSource);
+      const result = await apiService.addSource({ ...newSource, skipValidation });
       console.log('Source added successfully:', result);
-      setNewSource({ name: '', url: '', category: 'general', type: 'news' });
+      setNewSource({ name: '', url: '', category: 'general', type: 'news', sourceType: 'rss', scraper: EMPTY_SCRAPER_CONFIG, jsonApi: EMPTY_JSON_API_CONFIG, fetchFullText: false });
+      setValidation(null);
+      setSkipValidation(false);
       setShowAddForm(false);
       await fetchSources();
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error adding source:', err);
-      setError(`Failed to add source: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      setError(`Failed to add source: ${err.response?.data?.error || (err instanceof Error ? err.message : 'Unknown error')}`);
     } finally {
       setAddingSource(false);
     }
   };
 
+  const handleExportOpml = async () => {
+    try {
+      const blob = await apiService.exportOpml();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `sources-${new Date().toISOString().slice(0, 10)}.opml`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      // OPML only holds feeds; scraper and JSON API sources are not in the file
+      const skipped = sources.filter(source => source.sourceType && source.sourceType !== 'rss');
+      if (skipped.length > 0) {
+        alert(`${skipped.length} scraper or JSON API source${skipped.length === 1 ? ' was' : 's were'} not exported: ${skipped.map(source => source.name).join(', ')}`);
+      }
+    } catch (err) {
+      console.error('Error exporting sources:', err);
+      setError('Failed to export sources');
+    }
+  };
+
   const handleToggleActive = async (sourceId: string, currentActive: boolean) => {
     try {
       const currentSource = sources.find(s => s._id === sourceId);
@@ -210,7 +322,13 @@ const SourcesPage: React.FC = () => {
       url: source.url || '',
       category: source.category || 'general',
       type: source.type || 'news',
-      isodate: isodate
+      isodate: isodate,
+      sourceType: source.sourceType || 'rss',
+      scraper: source.scraper ? { ...EMPTY_SCRAPER_CONFIG, ...source.scraper } : EMPTY_SCRAPER_CONFIG,
+      jsonApi: source.jsonApi ? { ...EMPTY_JSON_API_CONFIG, ...source.jsonApi } : EMPTY_JSON_API_CONFIG,
+      fetchFullText: source.fetchFullText || false,
+      fetchInterval: String(source.fetchInterval || 60),
+      adaptivePolling: source.adaptivePolling !== false
     });
     setShowEditModal(true);
   };
@@ -242,7 +360,13 @@ const SourcesPage: React.FC = () => {
         url: editForm.url,
         category: editForm.category,
         type: editForm.type,
-        isActive: editingSource.isActive
+        isActive: editingSource.isActive,
+        sourceType: editForm.sourceType,
+        ...(editForm.sourceType === 'scraper' && { scraper: editForm.scraper }),
+        ...(editForm.sourceType === 'json' && { jsonApi: editForm.jsonApi }),
+        fetchFullText: editForm.fetchFullText,
+        fetchInterval: parseInt(editForm.fetchInterval, 10),
+        adaptivePolling: editForm.adaptivePolling
       });
 
       console.log('Update result:', updateResult);
@@ -328,15 +452,15 @@ const SourcesPage: React.FC = () => {
       // Refresh sources to get updated status
       await fetchSources();
 
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error running source:', err);
       
-      // Store error result
+      // Store error result; a 409 means a workflow already covers this source
       setSourceResults(prev => ({
         ...prev,
         [sourceId]: {
           success: false,
-          message: err instanceof Error ? err.message : 'Failed to run source',
+          message: err.response?.data?.error || (err instanceof Error ? err.message : 'Failed to run source'),
           timestamp: new Date().toISOString()
         }
       }));
@@ -520,15 +644,29 @@ const SourcesPage: React.FC = () => {
                   )}
                 </div>
                 
-                <button
-                  onClick={() => setShowAddForm(!showAddForm)}
-                  className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-medium rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105"
-                >
-                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                  </svg>
-                  Add Source
-                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setShowOpmlImport(true)}
+                    className="inline-flex items-center px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 font-medium rounded-xl transition-colors"
+                  >
+                    Import OPML
+                  </button>
+                  <button
+                    onClick={handleExportOpml}
+                    className="inline-flex items-center px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 font-medium rounded-xl transition-colors"
+                  >
+                    Export OPML
+                  </button>
+                  <button
+                    onClick={() => setShowAddForm(!showAddForm)}
+                    className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-medium rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105"
+                  >
+                    <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                    </svg>
+                    Add Source
+                  </button>
+                </div>
               </div>
 
               {/* Add Source Form */}
@@ -541,6 +679,21 @@ const SourcesPage: React.FC = () => {
                     Add New Source
                   </h3>
                   <form onSubmit={handleAddSource} className="space-y-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Source Kind
+                      </label>
+                      <select
+                        value={newSource.sourceType}
+                        onChange={(e) => setNewSource({ ...newSource, sourceType: e.target.value as SourceType })}
+                        className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                      >
+                        <option value="rss">RSS / Atom feed</option>
+                        <option value="scraper">HTML scraper (site without a feed)</option>
+                        <option value="json">JSON API</option>
+                      </select>
+                    </div>
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                       <div>
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -557,18 +710,66 @@ const SourcesPage: React.FC = () => {
                       </div>
                       <div>
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                          RSS URL
+                          {URL_LABELS[newSource.sourceType]}
                         </label>
-                        <input
-                          type="url"
-                          value={newSource.url}
-                          onChange={(e) => setNewSource({ ...newSource, url: e.target.value })}
-                          className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-                          placeholder="https://example.com/rss"
-                          required
-                        />
+                        <div className="flex gap-2">
+                          <input
+                            type="url"
+                            value={newSource.url}
+                            onChange={(e) => {
+                              setNewSource({ ...newSource, url: e.target.value });
+                              setValidation(null);
+                            }}
+                            className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                            placeholder={newSource.sourceType === 'rss' ? 'https://example.com/rss or https://example.com' : newSource.sourceType === 'json' ? 'https://api.example.com/advisories' : 'https://example.com/advisories'}
+                            required
+                          />
+                          {newSource.sourceType === 'rss' && (
+                            <button
+                              type="button"
+                              onClick={() => handleValidateSource(newSource.url)}
+                              disabled={validating || addingSource}
+                              className="px-4 py-3 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium rounded-xl hover:bg-blue-200 dark:hover:bg-blue-900/50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                              {validating ? 'Checking...' : 'Validate'}
+                            </button>
+                          )}
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          {newSource.sourceType === 'scraper'
+                            ? 'The page that lists the items; the selectors below are applied to it.'
+                            : newSource.sourceType === 'json'
+                            ? 'The first page of the API; the paths below map its items to articles.'
+                            : 'Enter a feed URL, or a website URL to discover its feeds.'}
+                        </p>
                       </div>
                     </div>
+
+                    {newSource.sourceType === 'scraper' && (
+                      <ScraperConfigFields
+                        url={newSource.url}
+                        config={newSource.scraper}
+                        onChange={(scraper) => setNewSource({ ...newSource, scraper })}
+                        onTested={setItemsTest}
+                      />
+                    )}
+
+                    {newSource.sourceType === 'json' && (
+                      <JsonSourceConfigFields
+                        url={newSource.url}
+                        config={newSource.jsonApi}
+                        onChange={(jsonApi) => setNewSource({ ...newSource, jsonApi })}
+                        onTested={setItemsTest}
+                      />
+                    )}
+
+                    {newSource.sourceType === 'rss' && validation && (
+                      <FeedValidationPanel
+                        validation={validation}
+                        onSelectFeed={handleSelectDiscoveredFeed}
+                        disabled={validating || addingSource}
+                      />
+                    )}
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                       <div>
@@ -580,25 +781,9 @@ const SourcesPage: React.FC = () => {
                           onChange={(e) => setNewSource({ ...newSource, category: e.target.value })}
                           className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
                         >
-                          <option value="general">General</option>
-                          <option value="security">Security</option>
-                          <option value="technology">Technology</option>
-                          <option value="finance">Finance</option>
-                          <option value="automotive">Automotive</option>
-                          <option value="ics-ot">ICS/OT</option>
-                          <option value="healthcare">Healthcare</option>
-                          <option value="energy">Energy</option>
-                          <option value="government">Government</option>
-                          <option value="defense">Defense</option>
-                          <option value="telecommunications">Telecommunications</option>
-                          <option value="manufacturing">Manufacturing</option>
-                          <option value="retail">Retail</option>
-                          <option value="education">Education</option>
-                          <option value="transportation">Transportation</option>
-                          <option value="cybersecurity">Cybersecurity</option>
-                          <option value="malware">Malware</option>
-                          <option value="vulnerabilities">Vulnerabilities</option>
-                          <option value="threat-intelligence">Threat Intelligence</option>
+                          {SOURCE_CATEGORIES.map(category => (
+                            <option key={category.value} value={category.value}>{category.label}</option>
+                          ))}
                         </select>
                       </div>
                       <div>
@@ -615,12 +800,38 @@ const SourcesPage: React.FC = () => {
                         </select>
                       </div>
                     </div>
+
+                    <label className="flex items-start space-x-3 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={newSource.fetchFullText}
+                        onChange={(e) => setNewSource({ ...newSource, fetchFullText: e.target.checked })}
+                        className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>
+                        <span className="font-medium">Fetch full text</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          For feeds that only publish a snippet: download each new article and extract its main content before classification.
+                        </span>
+                      </span>
+                    </label>
+                    
+                    <label className="flex items-center space-x-3 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={skipValidation}
+                        onChange={(e) => setSkipValidation(e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>Save without validation (the feed may be temporarily unreachable)</span>
+                    </label>
                     
                     <div className="flex space-x-4">
                       <button 
                         type="submit" 
                         className="flex-1 px-6 py-3 bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white font-medium rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
-                        disabled={addingSource}
+                        disabled={addingSource || !canSaveSource}
+                        title={canSaveSource ? undefined : 'Validate the feed first'}
                       >
                         {addingSource ? (
                           <div className="flex items-center justify-center">
@@ -726,6 +937,16 @@ const SourcesPage: React.FC = () => {
                                                          <span className="px-3 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300">
                                {source.type || (source.url && (source.url.toLowerCase().includes('reddit') || source.url.toLowerCase().includes('forum')) ? 'forum' : 'news')}
                              </span>
+                            {source.sourceType === 'scraper' && (
+                              <span className="px-3 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300">
+                                Scraper
+                              </span>
+                            )}
+                            {source.sourceType === 'json' && (
+                              <span className="px-3 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300">
+                                JSON API
+                              </span>
+                            )}
                             {source.error && (
                               <span className="px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
                                 Error
@@ -745,6 +966,32 @@ const SourcesPage: React.FC = () => {
                             </div>
                           )}
                           
+                          {!source.isActive && source.disabledReason && (
+                            <div className="mb-3 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+                              <p className="text-amber-700 dark:text-amber-300 text-sm">
+                                <strong>Auto-disabled:</strong> {source.disabledReason}
+                              </p>
+                            </div>
+                          )}
+                          
+                          {source.isActive && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                              Next fetch: {source.nextFetchAt ? new Date(source.nextFetchAt).toLocaleString() : 'on the next scheduler tick'}
+                              {' '}• Every {formatInterval(source.pollInterval || source.fetchInterval || 60)}
+                              {source.adaptivePolling !== false && ' (adaptive)'}
+                              {source.lastFetchDuration != null && (
+                                <span className={source.lastFetchDuration >= 10000 ? 'text-amber-600 dark:text-amber-400' : ''}>
+                                  {' '}• Last fetch took {(source.lastFetchDuration / 1000).toFixed(1)}s
+                                </span>
+                              )}
+                              {(source.consecutiveFailures || 0) > 0 && (
+                                <span className="ml-2 text-red-600 dark:text-red-400">
+                                  • Backing off after {source.consecutiveFailures} failed {source.consecutiveFailures === 1 ? 'fetch' : 'fetches'}
+                                </span>
+                              )}
+                            </div>
+                          )}
+                          
                           <div className="text-xs text-gray-500 dark:text-gray-400">
                             Created: {new Date(source.createdAt).toLocaleDateString()} • 
                             Updated: {new Date(source.updatedAt).toLocaleDateString()}
@@ -859,6 +1106,13 @@ const SourcesPage: React.FC = () => {
         </div>
       </div>
 
+      {showOpmlImport && (
+        <OpmlImportModal
+          onClose={() => setShowOpmlImport(false)}
+          onImported={fetchSources}
+        />
+      )}
+
       {/* Edit Source Modal */}
       {showEditModal && editingSource && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -901,7 +1155,7 @@ const SourcesPage: React.FC = () => {
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                      RSS URL
+                      {URL_LABELS[editForm.sourceType]}
                     </label>
                     <input
                       type="url"
@@ -913,6 +1167,40 @@ const SourcesPage: React.FC = () => {
                     />
                   </div>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Source Kind
+                  </label>
+                  <select
+                    value={editForm.sourceType}
+                    onChange={(e) => setEditForm({ ...editForm, sourceType: e.target.value as SourceType })}
+                    className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  >
+                    <option value="rss">RSS / Atom feed</option>
+                    <option value="scraper">HTML scraper (site without a feed)</option>
+                    <option value="json">JSON API</option>
+                  </select>
+                </div>
+
+                {editForm.sourceType === 'scraper' && (
+                  <ScraperConfigFields
+                    url={editForm.url}
+                    config={editForm.scraper}
+                    onChange={(scraper) => setEditForm({ ...editForm, scraper })}
+                    onTested={ignoreItemsTest}
+                  />
+                )}
+
+                {editForm.sourceType === 'json' && editingSource && (
+                  <JsonSourceConfigFields
+                    url={editForm.url}
+                    config={editForm.jsonApi}
+                    onChange={(jsonApi) => setEditForm({ ...editForm, jsonApi })}
+                    onTested={ignoreItemsTest}
+                    sourceId={editingSource._id}
+                  />
+                )}
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div>
@@ -924,25 +1212,9 @@ const SourcesPage: React.FC = () => {
                       onChange={(e) => setEditForm({ ...editForm, category: e.target.value })}
                       className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
                     >
-                      <option value="general">General</option>
-                      <option value="security">Security</option>
-                      <option value="technology">Technology</option>
-                      <option value="finance">Finance</option>
-                      <option value="automotive">Automotive</option>
-                      <option value="ics-ot">ICS/OT</option>
-                      <option value="healthcare">Healthcare</option>
-                      <option value="energy">Energy</option>
-                      <option value="government">Government</option>
-                      <option value="defense">Defense</option>
-                      <option value="telecommunications">Telecommunications</option>
-                      <option value="manufacturing">Manufacturing</option>
-                      <option value="retail">Retail</option>
-                      <option value="education">Education</option>
-                      <option value="transportation">Transportation</option>
-                      <option value="cybersecurity">Cybersecurity</option>
-                      <option value="malware">Malware</option>
-                      <option value="vulnerabilities">Vulnerabilities</option>
-                      <option value="threat-intelligence">Threat Intelligence</option>
+                      {SOURCE_CATEGORIES.map(category => (
+                        <option key={category.value} value={category.value}>{category.label}</option>
+                      ))}
                     </select>
                   </div>
                   <div>
@@ -960,6 +1232,49 @@ const SourcesPage: React.FC = () => {
                   </div>
                 </div>
 
+                <label className="flex items-start space-x-3 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={editForm.fetchFullText}
+                    onChange={(e) => setEditForm({ ...editForm, fetchFullText: e.target.checked })}
+                    className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="font-medium">Fetch full text</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      For feeds that only publish a snippet: download each new article and extract its main content before classification.
+                    </span>
+                  </span>
+                </label>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Fetch Interval (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    min={5}
+                    value={editForm.fetchInterval}
+                    onChange={(e) => setEditForm({ ...editForm, fetchInterval: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    required
+                  />
+                  <label className="flex items-start space-x-3 mt-3 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={editForm.adaptivePolling}
+                      onChange={(e) => setEditForm({ ...editForm, adaptivePolling: e.target.checked })}
+                      className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>
+                      <span className="font-medium">Adaptive polling</span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        Poll less often when the feed publishes rarely. The interval above is the shortest wait.
+                      </span>
+                    </span>
+                  </label>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     Last Fetch Date
@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { apiService } from '../services/api';
+import { useArticleFilters } from '../hooks/useArticleFilters';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
 import { Article } from '../types/Article';
 import { useReadStatus } from '../context/ReadStatusContext';
 import { useSavedArticles } from '../context/SavedArticlesContext';
@@ -23,18 +25,9 @@ const SpamPage: React.FC = () => {
     unreadArticles: number;
     readPercentage: number;
   } | null>(null);
-  const [filters, setFilters] = useState({
-    industry: '',
-    severity: '',
-    type: '',
-    source: '',
-    timeFilter: '',
-    sortBy: 'newest',
-    hideRead: false,
-    threatLevel: '',
-    threatType: '',
-  });
-  const [searchTerm, setSearchTerm] = useState('');
+  const { searchTerm, filters, setFilter, setSearchTerm } = useArticleFilters();
+
+  useScrollRestoration(!loading);
 
   const fetchSpamArticles = useCallback(async () => {
     try {
@@ -172,10 +165,7 @@ const SpamPage: React.FC = () => {
   }, [filterSpamArticles]);
 
   const handleFilterChange = (filterName: string, value: any) => {
-    setFilters(prev => ({
-      ...prev,
-      [filterName]: value
-    }));
+    setFilter(filterName, value);
   };
 
   const handleSearchChange = (term: string) => {
@@ -284,7 +274,7 @@ const SpamPage: React.FC = () => {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="space-y-6">
           <SearchBar searchTerm={searchTerm} onSearchChange={handleSearchChange} />
-          <FilterBar filters={filters} onFilterChange={handleFilterChange} />
+          <FilterBar filters={filters} onFilterChange={handleFilterChange} searchTerm={searchTerm} facetScope={{ spam: 'true' }} />
           
           <div className="card p-6">
             <div className="flex items-center justify-between mb-6">
@@ -345,6 +335,8 @@ const SpamPage: React.FC = () => {
               loading={loading} 
               onDelete={handleDeleteArticle}
               keywords={keywords}
+              isAdmin={user?.role === 'admin'}
+              onBulkChange={fetchSpamArticles}
             />
           </div>
         </div>
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { apiService } from '../services/api';
+import { apiService, LLMProvider } from '../services/api';
+import WorkflowRunBreakdown from '../components/WorkflowRunBreakdown';
+import { CurrentWorkflowRun, WorkflowFeedResult, WorkflowGptBatch, WorkflowTrigger } from '../types/WorkflowRun';
 
 interface WorkflowStats {
   lastRun: string;
@@ -30,15 +32,29 @@ interface Prompt {
   name: string;
   description: string;
   content: string;
+  // LLM the prompt runs on; null uses the server default
+  llmProvider?: string | null;
+  llmModel?: string | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+// "Provider / model" a prompt runs on
+const describeLLM = (prompt: Prompt, providers: LLMProvider[]) => {
+  const provider = providers.find(entry => (prompt.llmProvider ? entry.name === prompt.llmProvider : entry.isDefault));
+  if (!provider) {
+    return prompt.llmProvider ? `${prompt.llmProvider} / ${prompt.llmModel || 'default model'}` : 'Server default';
+  }
+  const model = (prompt.llmProvider && prompt.llmModel) || provider.defaultModel;
+  return `${provider.label} / ${model}${prompt.llmProvider ? '' : ' (default)'}`;
+};
+
 interface WorkflowRun {
   _id: string;
+  trigger?: WorkflowTrigger;
   startTime: string;
-  endTime: string;
+  endTime?: string;
   status: string;
   totalFeeds: number;
   successfulFeeds: number;
@@ -48,10 +64,28 @@ interface WorkflowRun {
   articlesWithAlerts: number;
   processingTime: number;
   tokensUsed: number;
+  // Conditional GET: feeds answering 304 or with an unchanged body
+  notModifiedFeeds?: number;
+  bytesDownloaded?: number;
+  bytesSaved?: number;
+  skippedFeeds?: number;
+  duplicates?: number;
+  // Stored articles their source republished with new content
+  updatedArticles?: number;
+  // Only returned by the run details endpoint
+  feedResults?: WorkflowFeedResult[];
+  gptBatches?: WorkflowGptBatch[];
   error: string | null;
   createdAt: string;
 }
 
+const TRIGGER_LABELS: Record<WorkflowTrigger, string> = {
+  cron: 'Scheduled',
+  manual: 'Manual',
+  startup: 'Startup',
+  single_source: 'Single source'
+};
+
 interface OpenAIBilling {
   currentPeriod: {
     startDate: string;
@@ -86,6 +120,7 @@ const StatisticsPage: React.FC = () => {
   const [overviewStats, setOverviewStats] = useState<OverviewStats | null>(null);
   const [prompts, setPrompts] = useState<Prompt[]>([]);
   const [activePrompt, setActivePrompt] = useState<Prompt | null>(null);
+  const [llmProviders, setLLMProviders] = useState<LLMProvider[]>([]);
   const [workflowRuns, setWorkflowRuns] = useState<WorkflowRun[]>([]);
   const [workflowPagination, setWorkflowPagination] = useState({ total: 0, page: 1, limit: 10, pages: 0 });
   const [loading, setLoading] = useState(true);
@@ -95,6 +130,9 @@ const StatisticsPage: React.FC = () => {
   const [savingPrompt, setSavingPrompt] = useState(false);
   const [selectedWorkflowRun, setSelectedWorkflowRun] = useState<WorkflowRun | null>(null);
   const [showWorkflowDetails, setShowWorkflowDetails] = useState(false);
+  const [workflowDetailsLoading, setWorkflowDetailsLoading] = useState(false);
+  const [currentRuns, setCurrentRuns] = useState<CurrentWorkflowRun[]>([]);
+  const [cancellingRunId, setCancellingRunId] = useState<string | null>(null);
   const [openAIBilling, setOpenAIBilling] = useState<OpenAIBilling | null>(null);
   const [activeTab, setActiveTab] = useState<'overview' | 'workflow-runs' | 'prompts' | 'billing'>('overview');
   const [testResult, setTestResult] = useState<any>(null);
@@ -106,6 +144,27 @@ const StatisticsPage: React.FC = () => {
     fetchStatistics();
   }, []);
 
+  // Poll runs in progress while the history is open; refresh it when one ends
+  useEffect(() => {
+    if (activeTab !== 'workflow-runs') {
+      return;
+    }
+
+    let previousCount = -1;
+    const pollCurrentRuns = async () => {
+      const runs = await apiService.getCurrentWorkflowRuns();
+      if (previousCount > runs.length) {
+        fetchWorkflowRunsPage(1);
+      }
+      previousCount = runs.length;
+      setCurrentRuns(runs);
+    };
+
+    pollCurrentRuns();
+    const interval = setInterval(pollCurrentRuns, 10000);
+    return () => clearInterval(interval);
+  }, [activeTab]);
+
   const fetchStatistics = async () => {
     try {
       setLoading(true);
@@ -121,6 +180,7 @@ const StatisticsPage: React.FC = () => {
       console.log('Prompts data:', promptsData);
       const activePromptData: any = await apiService.getActivePrompt();
       console.log('Active prompt data:', activePromptData);
+      const llmProvidersData = await apiService.getLLMProviders();
       const workflowRunsData: any = await apiService.getWorkflowRuns(10, 1);
       console.log('Workflow runs data:', workflowRunsData);
       const billingData: any = await apiService.getOpenAIBilling();
@@ -148,6 +208,7 @@ const StatisticsPage: React.FC = () => {
       });
       setPrompts(Array.isArray(promptsData) ? promptsData : (promptsData?.data || []));
       setActivePrompt(activePromptData);
+      setLLMProviders(llmProvidersData);
       setWorkflowRuns(workflowRunsData?.data?.runs || workflowRunsData?.runs || []);
       setWorkflowPagination(workflowRunsData?.data?.pagination || workflowRunsData?.pagination || { total: 0, page: 1, limit: 10, pages: 0 });
       setOpenAIBilling(billingData?.data || billingData);
@@ -263,6 +324,39 @@ const StatisticsPage: React.FC = () => {
     }
   };
 
+  const handleCancelWorkflowRun = async (runId: string) => {
+    if (!window.confirm('Cancel this workflow run? It stops after the feeds and GPT batch in progress.')) {
+      return;
+    }
+
+    try {
+      setCancellingRunId(runId);
+      await apiService.cancelWorkflowRun(runId);
+      setCurrentRuns(prev => prev.map(run => (run._id === runId ? { ...run, cancelRequested: true } : run)));
+    } catch (error: any) {
+      console.error('Error cancelling workflow run:', error);
+      setError(error.response?.data?.error || 'Failed to cancel workflow run');
+    } finally {
+      setCancellingRunId(null);
+    }
+  };
+
+  const openWorkflowRunDetails = async (run: WorkflowRun) => {
+    setSelectedWorkflowRun(run);
+    setShowWorkflowDetails(true);
+    setWorkflowDetailsLoading(true);
+    try {
+      const details = await apiService.getWorkflowRunDetails(run._id);
+      if (details) {
+        setSelectedWorkflowRun(details);
+      }
+    } catch (error) {
+      console.error('Error fetching workflow run details:', error);
+    } finally {
+      setWorkflowDetailsLoading(false);
+    }
+  };
+
   const formatDuration = (ms: number | undefined | null) => {
     if (ms === undefined || ms === null) {
       return '0s';
@@ -292,6 +386,18 @@ const StatisticsPage: React.FC = () => {
     return tokens.toString();
   };
 
+  const formatBytes = (bytes: number | undefined | null) => {
+    if (bytes === undefined || bytes === null) {
+      return '0 B';
+    }
+    if (bytes >= 1024 * 1024) {
+      return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    } else if (bytes >= 1024) {
+      return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${bytes} B`;
+  };
+
   const formatCost = (cost: number | undefined | null) => {
     if (cost === undefined || cost === null) {
       return '$0.0000';
@@ -307,13 +413,18 @@ const StatisticsPage: React.FC = () => {
      saving: boolean;
      onTestRun: () => void;
      testLoading: boolean;
-   }> = ({ prompt, onSave, onCancel, saving, onTestRun, testLoading }) => {
+     providers: LLMProvider[];
+   }> = ({ prompt, onSave, onCancel, saving, onTestRun, testLoading, providers }) => {
     const [formData, setFormData] = useState({
       name: prompt.name,
       description: prompt.description,
       content: prompt.content,
+      llmProvider: prompt.llmProvider || '',
+      llmModel: prompt.llmModel || '',
       isActive: prompt.isActive
     });
+    const defaultProvider = providers.find(provider => provider.isDefault);
+    const selectedProvider = providers.find(provider => provider.name === formData.llmProvider);
 
     const handleSubmit = (e: React.FormEvent) => {
       e.preventDefault();
@@ -371,6 +482,43 @@ const StatisticsPage: React.FC = () => {
           />
         </div>
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              LLM Provider
+            </label>
+            <select
+              value={formData.llmProvider}
+              // Model names are provider specific
+              onChange={(e) => setFormData({ ...formData, llmProvider: e.target.value, llmModel: '' })}
+              className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+            >
+              <option value="">Server default{defaultProvider ? ` (${defaultProvider.label})` : ''}</option>
+              {providers.map(provider => (
+                <option key={provider.name} value={provider.name}>
+                  {provider.label}{provider.configured ? '' : ' (not configured)'}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Model
+            </label>
+            <input
+              type="text"
+              value={formData.llmModel}
+              onChange={(e) => setFormData({ ...formData, llmModel: e.target.value })}
+              disabled={!selectedProvider}
+              className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 disabled:opacity-50"
+              placeholder={(selectedProvider || defaultProvider)?.defaultModel || 'Default model'}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Leave empty for the provider's default model.
+            </p>
+          </div>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
             Prompt Content
@@ -639,6 +787,33 @@ const StatisticsPage: React.FC = () => {
           <h2 className="text-2xl font-semibold text-gray-900 dark:text-white mb-4">
             Workflow Run History
           </h2>
+
+          {currentRuns.map(run => (
+            <div
+              key={run._id}
+              className="mb-4 flex items-center justify-between rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 dark:border-blue-800 dark:bg-blue-900/30"
+            >
+              <div className="flex items-center space-x-3">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                <div className="text-sm text-blue-900 dark:text-blue-100">
+                  <span className="font-medium">
+                    {TRIGGER_LABELS[run.trigger] || run.trigger} run in progress
+                  </span>
+                  {' '}since {new Date(run.startTime).toLocaleTimeString()}
+                  {run.cancelRequested && (
+                    <span className="ml-2 text-yellow-700 dark:text-yellow-300">Cancelling…</span>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => handleCancelWorkflowRun(run._id)}
+                disabled={run.cancelRequested || cancellingRunId === run._id}
+                className="px-3 py-1 text-sm text-red-700 border border-red-300 rounded hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed dark:text-red-300 dark:border-red-700 dark:hover:bg-red-900/30"
+              >
+                Cancel
+              </button>
+            </div>
+          ))}
           
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden">
             <div className="overflow-x-auto">
@@ -648,6 +823,9 @@ const StatisticsPage: React.FC = () => {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       Date
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Trigger
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       Status
                     </th>
@@ -660,6 +838,12 @@ const StatisticsPage: React.FC = () => {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       With Alerts
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Not Modified
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Bytes Saved
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       Tokens Used
                     </th>
@@ -677,6 +861,9 @@ const StatisticsPage: React.FC = () => {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                         {new Date(run.startTime).toLocaleDateString()} {new Date(run.startTime).toLocaleTimeString()}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {run.trigger ? TRIGGER_LABELS[run.trigger] || run.trigger : '-'}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
                           run.status === 'completed' 
@@ -697,6 +884,12 @@ const StatisticsPage: React.FC = () => {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                         {run.articlesWithAlerts}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {run.notModifiedFeeds ?? 0}/{run.totalFeeds ?? 0}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {formatBytes(run.bytesSaved)}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                         {formatTokens(run.tokensUsed)}
                       </td>
@@ -705,10 +898,7 @@ const StatisticsPage: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                         <button
-                          onClick={() => {
-                            setSelectedWorkflowRun(run);
-                            setShowWorkflowDetails(true);
-                          }}
+                          onClick={() => openWorkflowRunDetails(run)}
                           className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
                         >
                           View Details
@@ -832,6 +1022,7 @@ const StatisticsPage: React.FC = () => {
                  </div>
                </div>
                <div className="text-xs text-gray-500 dark:text-gray-400">
+                 <p>Model: {describeLLM(activePrompt, llmProviders)}</p>
                  <p>Created: {new Date(activePrompt.createdAt).toLocaleDateString()}</p>
                  <p>Updated: {new Date(activePrompt.updatedAt).toLocaleDateString()}</p>
                </div>
@@ -871,6 +1062,7 @@ const StatisticsPage: React.FC = () => {
                 </p>
                 
                 <div className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                  <p>Model: {describeLLM(prompt, llmProviders)}</p>
                   <p>Created: {new Date(prompt.createdAt).toLocaleDateString()}</p>
                   <p>Updated: {new Date(prompt.updatedAt).toLocaleDateString()}</p>
                 </div>
@@ -985,10 +1177,15 @@ const StatisticsPage: React.FC = () => {
       {/* Workflow Run Details Modal */}
       {showWorkflowDetails && selectedWorkflowRun && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
-          <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-3/4 lg:w-1/2 shadow-lg rounded-md bg-white dark:bg-gray-800">
+          <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-3/4 shadow-lg rounded-md bg-white dark:bg-gray-800">
             <div className="mt-3">
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
                 Workflow Run Details
+                {selectedWorkflowRun.trigger && (
+                  <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                    {TRIGGER_LABELS[selectedWorkflowRun.trigger] || selectedWorkflowRun.trigger}
+                  </span>
+                )}
               </h3>
               
               <div className="space-y-4">
@@ -1002,7 +1199,7 @@ const StatisticsPage: React.FC = () => {
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">End Time</label>
                     <p className="text-sm text-gray-900 dark:text-white">
-                      {new Date(selectedWorkflowRun.endTime).toLocaleString()}
+                      {selectedWorkflowRun.endTime ? new Date(selectedWorkflowRun.endTime).toLocaleString() : 'Running'}
                     </p>
                   </div>
                 </div>
@@ -1013,7 +1210,9 @@ const StatisticsPage: React.FC = () => {
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
                       selectedWorkflowRun.status === 'completed' 
                         ? 'bg-green-100 text-green-800'
-                        : 'bg-red-100 text-red-800'
+                        : selectedWorkflowRun.status === 'failed'
+                        ? 'bg-red-100 text-red-800'
+                        : 'bg-yellow-100 text-yellow-800'
                     }`}>
                       {selectedWorkflowRun.status}
                     </span>
@@ -1074,6 +1273,34 @@ const StatisticsPage: React.FC = () => {
                   </div>
                 </div>
                 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Feeds Not Modified</label>
+                    <p className="text-sm text-gray-900 dark:text-white">{selectedWorkflowRun.notModifiedFeeds ?? 0}</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Bytes Downloaded / Saved</label>
+                    <p className="text-sm text-gray-900 dark:text-white">
+                      {formatBytes(selectedWorkflowRun.bytesDownloaded)} / {formatBytes(selectedWorkflowRun.bytesSaved)}
+                    </p>
+                  </div>
+                </div>
+                
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Duplicate Items</label>
+                    <p className="text-sm text-gray-900 dark:text-white">{selectedWorkflowRun.duplicates ?? 0}</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Skipped Feeds (deadline)</label>
+                    <p className="text-sm text-gray-900 dark:text-white">{selectedWorkflowRun.skippedFeeds ?? 0}</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Updated Articles</label>
+                    <p className="text-sm text-gray-900 dark:text-white">{selectedWorkflowRun.updatedArticles ?? 0}</p>
+                  </div>
+                </div>
+                
                 {selectedWorkflowRun.error && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Error</label>
@@ -1082,6 +1309,17 @@ const StatisticsPage: React.FC = () => {
                     </p>
                   </div>
                 )}
+
+                {workflowDetailsLoading ? (
+                  <div className="flex justify-center py-4">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                  </div>
+                ) : (
+                  <WorkflowRunBreakdown
+                    feedResults={selectedWorkflowRun.feedResults}
+                    gptBatches={selectedWorkflowRun.gptBatches}
+                  />
+                )}
               </div>
               
               <div className="mt-6 flex justify-end">
@@ -1120,6 +1358,7 @@ const StatisticsPage: React.FC = () => {
                  saving={savingPrompt}
                  onTestRun={handleTestRun}
                  testLoading={testLoading}
+                 providers={llmProviders}
                />
 
 
@@ -1199,6 +1438,11 @@ const StatisticsPage: React.FC = () => {
                    <h4 className="font-bold text-purple-900 dark:text-purple-100 mb-4 flex items-center">
                      <span className="mr-3 text-xl">📥</span>
                      GPT Response
+                     {testResult.model && (
+                       <span className="ml-2 text-xs font-normal text-purple-700 dark:text-purple-300">
+                         {testResult.provider} / {testResult.model}
+                       </span>
+                     )}
                    </h4>
                    <div className="bg-white dark:bg-gray-800 border border-purple-300 dark:border-purple-600 rounded-lg p-4 h-full overflow-y-auto shadow-inner">
                      <pre className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap font-mono leading-relaxed">
@@ -1,4 +1,11 @@
-import { Article } from '../types/Article';
+import { Article, ArticleVersion } from '../types/Article';
+import { SavedSearch, SavedSearchFilters } from '../types/SavedSearch';
+import { CurrentWorkflowRun } from '../types/WorkflowRun';
+import { OpmlImportResult, OpmlPreviewEntry } from '../types/Opml';
+import { FeedValidation } from '../types/FeedValidation';
+import { ScraperConfig, ScraperTestResult } from '../types/Scraper';
+import { JsonApiConfig } from '../types/JsonSource';
+import { ForumThreadPage, ForumThreadQuery, ForumThreadWithPosts } from '../types/Forum';
 import axios from 'axios';
 import { API_CONFIG } from '../config/api';
 
@@ -11,6 +18,65 @@ const apiClient = axios.create({
   },
 });
 
+export interface ArticleQuery {
+  search?: string;
+  industry?: string;
+  severity?: string;
+  type?: string;
+  source?: string;
+  timeFilter?: string;
+  sortBy?: string;
+  hideRead?: boolean;
+  threatLevel?: string;
+  threatType?: string;
+  language?: string;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface ArticleFacets {
+  total: number;
+  industry: FacetValue[];
+  source: FacetValue[];
+  type: FacetValue[];
+  severity: FacetValue[];
+  threatLevel: FacetValue[];
+  threatType: FacetValue[];
+  language: FacetValue[];
+}
+
+// Bulk actions target either explicit IDs or every article matching a query
+export type BulkArticleTarget = { articleIds: string[] } | { query: ArticleQuery };
+
+export interface BulkUpdateResult {
+  message: string;
+  matchedCount: number;
+  updatedCount: number;
+}
+
+// LLM provider a prompt can run on
+export interface LLMProvider {
+  name: string;
+  label: string;
+  defaultModel: string;
+  // Credentials (API key) are set on the server
+  configured: boolean;
+  // Used by prompts without a provider
+  isDefault: boolean;
+}
+
+export interface ArticlePagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
 class ApiService {
   private async makeRequest(endpoint: string, options: any = {}): Promise<any> {
     try {
@@ -28,6 +94,17 @@ class ApiService {
     }
   }
 
+  // Skip empty values so unset filters are not sent to the server
+  private buildQueryParams(query: object): URLSearchParams {
+    const queryParams = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '' && value !== false) {
+        queryParams.append(key, String(value));
+      }
+    });
+    return queryParams;
+  }
+
   async getAllArticles(queryParams?: string): Promise<Article[]> {
     const url = queryParams ? `/articles${queryParams}` : '/articles';
     const response = await this.makeRequest(url);
@@ -46,6 +123,29 @@ class ApiService {
     }
   }
 
+  // Fetch one page of articles; filtering, sorting and pagination happen on the server
+  async getArticlesPage(query: ArticleQuery, cursor?: string | null, limit: number = 50): Promise<{ data: Article[]; pagination: ArticlePagination }> {
+    const queryParams = this.buildQueryParams(query);
+    queryParams.append('limit', String(limit));
+    if (cursor) {
+      queryParams.append('cursor', cursor);
+    }
+
+    const response = await this.makeRequest(`/articles?${queryParams.toString()}`);
+    return {
+      data: response.data || [],
+      pagination: response.pagination || { page: 1, limit, total: 0, pages: 0, hasMore: false, nextCursor: null }
+    };
+  }
+
+  // Value counts for every FilterBar dropdown under the given query
+  async getArticleFacets(query: ArticleQuery & { spam?: string; alerts?: string }): Promise<ArticleFacets> {
+    const queryParams = this.buildQueryParams(query);
+
+    const response = await this.makeRequest(`/articles/facets?${queryParams.toString()}`);
+    return response.data;
+  }
+
   async getAllArticlesWithAlerts(): Promise<Article[]> {
     // Fetch all articles (not just first page) for alerts page
     const response = await this.makeRequest('/articles?limit=1000');
@@ -92,6 +192,12 @@ class ApiService {
     }
   }
 
+  // Versions of an article its source updated in place, oldest first
+  async getArticleRevisions(articleId: string): Promise<ArticleVersion[]> {
+    const response = await this.makeRequest(`/articles/${articleId}/revisions`);
+    return response.data;
+  }
+
   async deleteArticle(articleId: string): Promise<{ message: string }> {
     return this.makeRequest(`/articles/${articleId}`, {
       method: 'DELETE',
@@ -123,6 +229,17 @@ class ApiService {
     }
   }
 
+  // Autocomplete values for a search field qualifier such as source: or industry:
+  async getSearchSuggestions(field: string, prefix: string): Promise<string[]> {
+    try {
+      const response = await this.makeRequest(`/articles/search/suggestions?field=${encodeURIComponent(field)}&prefix=${encodeURIComponent(prefix)}`);
+      return response.data || [];
+    } catch (error) {
+      console.error('Error fetching search suggestions:', error);
+      return [];
+    }
+  }
+
   async getArticlesBySector(sector: string): Promise<Article[]> {
     const response = await this.makeRequest(`/articles/sector/${encodeURIComponent(sector)}`);
     if (response.data && response.success) {
@@ -179,9 +296,39 @@ class ApiService {
     });
   }
 
-  async markAllAsRead(): Promise<{ message: string; updatedCount: number }> {
+  async markAllAsRead(articleIds?: string[]): Promise<{ message: string; updatedCount: number }> {
     return this.makeRequest('/articles/mark-all-read', {
       method: 'PATCH',
+      data: articleIds ? { articleIds } : {}
+    });
+  }
+
+  // Bulk action methods
+  async bulkMarkRead(target: BulkArticleTarget, read: boolean = true): Promise<BulkUpdateResult> {
+    return this.makeRequest('/articles/bulk/read', {
+      method: 'PATCH',
+      data: { ...target, read }
+    });
+  }
+
+  async bulkSaveArticles(target: BulkArticleTarget, saved: boolean = true): Promise<BulkUpdateResult> {
+    return this.makeRequest('/articles/bulk/saved', {
+      method: 'PATCH',
+      data: { ...target, saved }
+    });
+  }
+
+  async bulkMarkSpam(target: BulkArticleTarget, isSpam: boolean = true): Promise<BulkUpdateResult> {
+    return this.makeRequest('/articles/bulk/spam', {
+      method: 'PATCH',
+      data: { ...target, isSpam }
+    });
+  }
+
+  async bulkDeleteArticles(target: BulkArticleTarget): Promise<{ message: string; deletedCount: number }> {
+    return this.makeRequest('/articles/bulk', {
+      method: 'DELETE',
+      data: target
     });
   }
 
@@ -207,13 +354,13 @@ class ApiService {
     }
   }
 
-  async getUnreadCount(): Promise<{ unreadCount: number }> {
+  async getUnreadCount(): Promise<{ unreadCount: number; readCount: number }> {
     try {
       const response = await this.makeRequest('/articles/stats/unread-count');
       return response;
     } catch (error) {
       console.error('Error fetching unread count:', error);
-      return { unreadCount: 0 };
+      return { unreadCount: 0, readCount: 0 };
     }
   }
 
@@ -223,14 +370,14 @@ class ApiService {
     unreadArticles: number;
     readPercentage: number;
   }> {
-    const stats = await this.getStatistics();
-    const unreadCount = await this.getUnreadCount();
+    const { unreadCount, readCount } = await this.getUnreadCount();
+    const totalArticles = unreadCount + readCount;
     
     return {
-      totalArticles: stats.totalArticles,
-      readArticles: stats.totalArticles - unreadCount.unreadCount,
-      unreadArticles: unreadCount.unreadCount,
-      readPercentage: stats.totalArticles > 0 ? ((stats.totalArticles - unreadCount.unreadCount) / stats.totalArticles) * 100 : 0
+      totalArticles,
+      readArticles: readCount,
+      unreadArticles: unreadCount,
+      readPercentage: totalArticles > 0 ? (readCount / totalArticles) * 100 : 0
     };
   }
 
@@ -308,11 +455,25 @@ class ApiService {
     }
   }
 
+  // Per-user read/saved state for a batch of articles
+  async getArticleUserState(articleIds: string[]): Promise<Record<string, { read: boolean; readAt?: string; saved: boolean; savedAt?: string }>> {
+    if (articleIds.length === 0) {
+      return {};
+    }
+    const response = await this.makeRequest('/articles/user-state', {
+      method: 'POST',
+      data: { articleIds }
+    });
+    return response.data || {};
+  }
+
   async getReadStatus(articleIds: string[]): Promise<Record<string, { read: boolean; timestamp?: string }>> {
-    // Since the backend doesn't have a bulk read status endpoint,
-    // we'll return an empty object and let the frontend handle it
-    // The read status will be managed locally in the context
-    return {};
+    const states = await this.getArticleUserState(articleIds);
+    const readStatus: Record<string, { read: boolean; timestamp?: string }> = {};
+    Object.entries(states).forEach(([articleId, state]) => {
+      readStatus[articleId] = { read: state.read, timestamp: state.readAt || undefined };
+    });
+    return readStatus;
   }
 
   async markAsUnread(articleId: string): Promise<{ message: string }> {
@@ -341,9 +502,12 @@ class ApiService {
 
   // Additional methods for frontend compatibility
   async getSavedStatus(articleIds: string[]): Promise<Record<string, { saved: boolean; timestamp?: string }>> {
-    // Since the backend doesn't have a bulk saved status endpoint,
-    // we'll return an empty object and let the frontend handle it
-    return {};
+    const states = await this.getArticleUserState(articleIds);
+    const savedStatus: Record<string, { saved: boolean; timestamp?: string }> = {};
+    Object.entries(states).forEach(([articleId, state]) => {
+      savedStatus[articleId] = { saved: state.saved, timestamp: state.savedAt || undefined };
+    });
+    return savedStatus;
   }
 
   async unsaveArticle(articleId: string): Promise<{ message: string }> {
@@ -368,6 +532,34 @@ class ApiService {
     });
   }
 
+  // Saved searches methods
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    const response = await this.makeRequest('/saved-searches');
+    return response.data || [];
+  }
+
+  async createSavedSearch(savedSearch: { name: string; query: string; filters: SavedSearchFilters; subscribed?: boolean }): Promise<SavedSearch> {
+    const response = await this.makeRequest('/saved-searches', {
+      method: 'POST',
+      data: savedSearch
+    });
+    return response.data;
+  }
+
+  async updateSavedSearch(savedSearchId: string, updates: { name?: string; query?: string; filters?: SavedSearchFilters; subscribed?: boolean }): Promise<SavedSearch> {
+    const response = await this.makeRequest(`/saved-searches/${savedSearchId}`, {
+      method: 'PUT',
+      data: updates
+    });
+    return response.data;
+  }
+
+  async deleteSavedSearch(savedSearchId: string): Promise<{ message: string }> {
+    return this.makeRequest(`/saved-searches/${savedSearchId}`, {
+      method: 'DELETE'
+    });
+  }
+
   // Keywords methods
   async getKeywords(): Promise<any[]> {
     const response = await this.makeRequest('/keywords');
@@ -413,23 +605,21 @@ class ApiService {
     return response.data || response;
   }
 
-  // Sources methods
-  async getSources(): Promise<any[]> {
-    const response = await this.makeRequest('/sources');
-    if (response.data && response.success) {
-      return response.data;
-    } else {
-      return Array.isArray(response) ? response : [];
-    }
+  // Forum threads, most recently active first
+  async getForums(query: ForumThreadQuery = {}): Promise<ForumThreadPage> {
+    const queryParams = this.buildQueryParams(query);
+    const response = await this.makeRequest(`/forums?${queryParams.toString()}`);
+    return {
+      threads: response.data || [],
+      sources: response.sources || [],
+      total: response.pagination?.total || 0,
+      pages: response.pagination?.pages || 0
+    };
   }
 
-  async getForums(): Promise<Article[]> {
-    const response = await this.makeRequest('/forums');
-    if (response.data && response.success) {
-      return response.data;
-    } else {
-      return Array.isArray(response) ? response : [];
-    }
+  async getForumThread(threadId: string): Promise<ForumThreadWithPosts> {
+    const response = await this.makeRequest(`/forums/${threadId}`);
+    return response.data;
   }
 
   async checkHealth(): Promise<{ status: string; message: string; timestamp: string }> {
@@ -460,123 +650,45 @@ class ApiService {
     };
   }
 
-  // Filter methods
-  async getAvailableTypes(): Promise<string[]> {
-    try {
-      const response = await this.makeRequest('/articles/types');
-      if (response.data && response.success) {
-        return response.data;
-      } else {
-        // Fallback to common types
-        return ['news', 'forum'];
-      }
-    } catch (error) {
-      console.error('Error fetching available types:', error);
-      // Fallback to common types
-      return ['news', 'forum'];
+  // Sources methods
+  async getSources(): Promise<any[]> {
+    const response = await this.makeRequest('/sources');
+    if (response.data && response.success) {
+      return response.data;
+    } else {
+      return Array.isArray(response) ? response : [];
     }
   }
 
-  async getAvailableIndustries(): Promise<string[]> {
-    try {
-      // Get all articles and extract unique industries from the industries arrays
-      const articles = await this.getAllArticles();
-      const allIndustries = new Set<string>();
-      
-      articles.forEach(article => {
-        if (article.industries && Array.isArray(article.industries)) {
-          article.industries.forEach(industry => {
-            if (industry && industry.trim()) {
-              allIndustries.add(industry.trim());
-            }
-          });
-        }
-        // Also check single industry field as fallback
-        if (article.industry && article.industry.trim()) {
-          allIndustries.add(article.industry.trim());
-        }
-      });
-      
-      // Convert to array and sort
-      const industries = Array.from(allIndustries).sort();
-      
-      // If no industries found, return default list
-      if (industries.length === 0) {
-        return [
-          'Automotive', 'Finance', 'ICS/OT', 'Healthcare', 'Energy', 
-          'Government', 'Education', 'Retail', 'Manufacturing', 
-          'Transportation', 'Telecommunications', 'Media', 'Entertainment', 'Other'
-        ];
-      }
-      
-      return industries;
-    } catch (error) {
-      console.error('Error fetching available industries:', error);
-      // Fallback to default industries
-      return [
-        'Automotive', 'Finance', 'ICS/OT', 'Healthcare', 'Energy', 
-        'Government', 'Education', 'Retail', 'Manufacturing', 
-        'Transportation', 'Telecommunications', 'Media', 'Entertainment', 'Other'
-      ];
-    }
+  // Dry-run a feed or website URL before adding it as a source
+  async validateSource(url: string): Promise<FeedValidation> {
+    const response = await this.makeRequest('/sources/validate', {
+      method: 'POST',
+      data: { url }
+    });
+    return response.data;
   }
 
-  async getAvailableSources(): Promise<string[]> {
-    try {
-      const response = await this.makeRequest('/articles/sources');
-      if (response.data && response.success) {
-        return response.data;
-      } else {
-        return [];
-      }
-    } catch (error) {
-      console.error('Error fetching available sources:', error);
-      return [];
-    }
+  // Extract items from a list page with scraper selectors, without saving anything
+  async testScraper(url: string, scraper: ScraperConfig): Promise<ScraperTestResult> {
+    const response = await this.makeRequest('/sources/scraper/test', {
+      method: 'POST',
+      data: { url, scraper }
+    });
+    return response.data;
   }
 
-  async getAvailableThreatTypes(): Promise<string[]> {
-    try {
-      // Get all articles and extract unique threat types
-      const articles = await this.getAllArticles();
-      const allThreatTypes = new Set<string>();
-      
-      articles.forEach(article => {
-        if (article.threatType && article.threatType.trim() && article.threatType !== 'N/A') {
-          allThreatTypes.add(article.threatType.trim());
-        }
-      });
-      
-      // Convert to array and sort
-      const threatTypes = Array.from(allThreatTypes).sort();
-      
-      // If no threat types found, return default list
-      if (threatTypes.length === 0) {
-        return [
-          'malware', 'phishing', 'vulnerability', 'ransomware', 'data breach', 
-          'social engineering', 'DDoS', 'APT', 'zero-day', 'insider threat',
-          'supply chain', 'credential stuffing', 'man-in-the-middle', 'SQL injection',
-          'cross-site scripting', 'privilege escalation', 'backdoor', 'trojan'
-        ];
-      }
-      
-      return threatTypes;
-    } catch (error) {
-      console.error('Error fetching available threat types:', error);
-      // Fallback to default threat types
-      return [
-        'malware', 'phishing', 'vulnerability', 'ransomware', 'data breach', 
-        'social engineering', 'DDoS', 'APT', 'zero-day', 'insider threat',
-        'supply chain', 'credential stuffing', 'man-in-the-middle', 'SQL injection',
-        'cross-site scripting', 'privilege escalation', 'backdoor', 'trojan'
-      ];
-    }
+  // Fetch a JSON API with the given mapping without saving; sourceId reuses a stored auth header value
+  async testJsonSource(url: string, jsonApi: JsonApiConfig, sourceId?: string): Promise<ScraperTestResult> {
+    const response = await this.makeRequest('/sources/json/test', {
+      method: 'POST',
+      data: { url, jsonApi, sourceId }
+    });
+    return response.data;
   }
 
-
-
-  // Sources methods
-  async addSource(source: { name: string; url: string; description?: string; category?: string; type?: string }): Promise<any> {
+  // skipValidation saves the source even if the server's dry run fails
+  async addSource(source: { name: string; url: string; description?: string; category?: string; type?: string; sourceType?: 'rss' | 'scraper' | 'json'; scraper?: ScraperConfig; jsonApi?: JsonApiConfig; fetchFullText?: boolean; skipValidation?: boolean }): Promise<any> {
     const response = await this.makeRequest('/sources', {
       method: 'POST',
       data: source
@@ -584,7 +696,31 @@ class ApiService {
     return response.data || response;
   }
 
-  async updateSource(sourceId: string, source: { name: string; url: string; description?: string; category?: string; type?: string; isActive?: boolean }): Promise<any> {
+  // Check an OPML file's feeds against existing sources without adding them
+  async previewOpmlImport(opml: string): Promise<OpmlPreviewEntry[]> {
+    const response = await this.makeRequest('/sources/opml/preview', {
+      method: 'POST',
+      data: opml,
+      headers: { 'Content-Type': 'text/xml' }
+    });
+    return response.data || [];
+  }
+
+  async importOpmlSources(entries: { name: string; url: string; description?: string; category: string }[]): Promise<{ imported: number; failed: number; results: OpmlImportResult[] }> {
+    const response = await this.makeRequest('/sources/opml/import', {
+      method: 'POST',
+      data: { entries }
+    });
+    return response.data;
+  }
+
+  async exportOpml(): Promise<Blob> {
+    return this.makeRequest('/sources/opml/export', {
+      responseType: 'blob'
+    });
+  }
+
+  async updateSource(sourceId: string, source: { name: string; url: string; description?: string; category?: string; type?: string; isActive?: boolean; sourceType?: 'rss' | 'scraper' | 'json'; scraper?: ScraperConfig; jsonApi?: JsonApiConfig; fetchFullText?: boolean; fetchInterval?: number; adaptivePolling?: boolean }): Promise<any> {
     const response = await this.makeRequest(`/sources/${sourceId}`, {
       method: 'PUT',
       data: source
@@ -647,6 +783,13 @@ class ApiService {
     return response;
   }
 
+  // Start the scheduler workflow for every active source
+  async runAllSources(): Promise<{ message: string }> {
+    return this.makeRequest('/feeds/scheduler/run', {
+      method: 'POST'
+    });
+  }
+
   // Prompt management methods
   async getPrompts(): Promise<any[]> {
     try {
@@ -700,6 +843,16 @@ class ApiService {
     }
   }
 
+  async getLLMProviders(): Promise<LLMProvider[]> {
+    try {
+      const response = await this.makeRequest('/prompts/llm-providers');
+      return response.data || [];
+    } catch (error) {
+      console.error('Error fetching LLM providers:', error);
+      return [];
+    }
+  }
+
   // Workflow runs methods
   async getWorkflowRuns(limit: number = 10, page: number = 1): Promise<any> {
     try {
@@ -724,6 +877,23 @@ class ApiService {
     }
   }
 
+  // Runs in progress on any server instance
+  async getCurrentWorkflowRuns(): Promise<CurrentWorkflowRun[]> {
+    try {
+      const response = await this.makeRequest('/statistics/workflow-runs/current');
+      return response.data && response.success ? response.data : [];
+    } catch (error) {
+      console.error('Error fetching current workflow runs:', error);
+      return [];
+    }
+  }
+
+  async cancelWorkflowRun(runId: string): Promise<{ success: boolean; message?: string; error?: string }> {
+    return this.makeRequest(`/statistics/workflow-runs/${runId}/cancel`, {
+      method: 'POST'
+    });
+  }
+
   async getOpenAIBilling(): Promise<any> {
     try {
       const response = await this.makeRequest('/statistics/openai-billing');
@@ -2,16 +2,38 @@ export interface Article {
   _id: string;
   title: string;
   content?: string;
+  // Extracted page text for sources with full-text fetching enabled
+  fullText?: string;
+  fullTextFetchedAt?: string | Date;
+  fullTextError?: { message: string; timestamp: string | Date } | null;
   link: string;
+  // Link as published, when it differs from the canonical link
+  originalLink?: string;
   isoDate: string | Date;
   source: string;
   feedUrl: string;
   author?: string;
+  creator?: string;
   pubDate?: string;
   guid?: string;
   isodate?: string;
   name?: string;
   type?: string; // 'news' or 'forum'
+  // Forum posts: the thread they belong to
+  threadKey?: string;
+  threadTitle?: string;
+  threadUrl?: string | null;
+  isReply?: boolean;
+  // Near-duplicate reports share the _id of the story's primary (first stored) article
+  storyId?: string | null;
+  // Set when the source updated the article in place; see ArticleVersion
+  revisedAt?: string | Date | null;
+  revisionCount?: number;
+  // Detected language, ISO 639-1 code or 'und'
+  lang?: string;
+  // Translation of articles in other languages; the original stays in title/content
+  translation?: ArticleTranslation | null;
+  translationError?: { message: string; timestamp: string | Date } | null;
   sector?: string;
   industry?: string;
   industries?: string[];
@@ -30,7 +52,40 @@ export interface Article {
   alerts?: Record<string, number>;
   alertMatches?: (string | { _id: string; displayName?: string; name?: string })[];
   alertProcessedAt?: string | Date;
+  // Subscribed saved searches that matched this article (alerts only)
+  savedSearchMatches?: { _id: string; name: string }[];
   // New threat fields
   threatLevel?: string; // 'HIGH', 'MEDIUM', 'LOW', 'NONE'
   threatType?: string; // 'malware', 'phishing', 'vulnerability', etc.
+}
+
+export interface ArticleTranslation {
+  title: string;
+  content: string;
+  fullText?: string;
+  // Language translated into
+  lang: string;
+  provider: string;
+  translatedAt: string | Date;
+}
+
+// Word diff part between two versions of an article
+export interface TextDiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// One version of an article its source updated, oldest first
+export interface ArticleVersion {
+  title: string;
+  content: string;
+  since: string | Date;
+  // Change from the version before; null for the first version
+  change: {
+    // Material changes re-run alert matching
+    material: boolean;
+    changedWords: number;
+    title: TextDiffPart[];
+    content: TextDiffPart[];
+  } | null;
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+// Dry-run result for a URL entered as a new source; nothing is stored
+export interface DiscoveredFeed {
+  url: string;
+  title: string;
+  type: string;
+}
+
+export interface FeedPreview {
+  title: string | null;
+  description: string | null;
+  itemCount: number;
+  newestItemDate: string | null;
+  // Items whose text is long enough to be the full article rather than a snippet
+  fullContentItems: number;
+  hasFullContent: boolean;
+  sampleItems: { title: string; link: string | null; isoDate: string | null }[];
+}
+
+export interface FeedValidation {
+  valid: boolean;
+  // The URL itself, or the first feed discovered on the page
+  feedUrl: string;
+  discoveredFeeds: DiscoveredFeed[];
+  preview: FeedPreview | null;
+  alreadyAdded: boolean;
+  error: string | null;
+}
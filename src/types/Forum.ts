@@ -0,0 +1,37 @@
+import { Article } from './Article';
+
+// A thread of a forum source, built from its posts as they are ingested
+export interface ForumThread {
+  _id: string;
+  key: string;
+  title: string;
+  url?: string | null;
+  source: string;
+  feedUrl: string;
+  firstPostAt?: string | Date;
+  lastPostAt?: string | Date;
+  postCount: number;
+  replyCount: number;
+  // Replies added by the last fetch that found any on an already known thread
+  newReplyCount?: number;
+  lastNewReplyAt?: string | Date | null;
+}
+
+export interface ForumThreadWithPosts extends ForumThread {
+  posts: Article[];
+}
+
+export interface ForumThreadQuery {
+  page?: number;
+  limit?: number;
+  source?: string;
+  search?: string;
+  newReplies?: boolean;
+}
+
+export interface ForumThreadPage {
+  threads: ForumThread[];
+  sources: string[];
+  total: number;
+  pages: number;
+}
@@ -0,0 +1,37 @@
+export type JsonPaginationType = 'none' | 'page' | 'offset' | 'cursor' | 'nextUrl' | 'linkHeader';
+
+// JSONPath field mapping of a JSON API source; item paths are relative to each item
+export interface JsonApiConfig {
+  itemsPath: string;
+  titlePath: string;
+  linkPath: string;
+  datePath: string;
+  contentPath: string;
+  idPath: string;
+  // Link for items without one, with {id} replaced by the item ID
+  linkTemplate: string;
+  maxPages: number;
+  pagination: {
+    type: JsonPaginationType;
+    // Query parameter for page, offset and cursor pagination
+    param?: string;
+    start?: number;
+    // JSONPath of the next cursor or next page URL
+    path?: string;
+  };
+  // The stored value is never sent back; hasValue tells whether one is set
+  authHeader: { name: string; value?: string; hasValue?: boolean } | null;
+}
+
+export const EMPTY_JSON_API_CONFIG: JsonApiConfig = {
+  itemsPath: '',
+  titlePath: '',
+  linkPath: '',
+  datePath: '',
+  contentPath: '',
+  idPath: '',
+  linkTemplate: '',
+  maxPages: 1,
+  pagination: { type: 'none' },
+  authHeader: null
+};
@@ -0,0 +1,19 @@
+// A feed outline of an uploaded OPML file, as checked by the server
+export interface OpmlPreviewEntry {
+  name: string;
+  url: string;
+  description: string;
+  htmlUrl: string;
+  folder: string | null;
+  // existing: URL already added; duplicate: repeated within the file
+  status: 'new' | 'existing' | 'duplicate' | 'invalid';
+  error: string | null;
+}
+
+export interface OpmlImportResult {
+  name: string;
+  url: string;
+  success: boolean;
+  _id?: string;
+  error: string | null;
+}
@@ -0,0 +1,23 @@
+export interface SavedSearchFilters {
+  industry?: string;
+  severity?: string;
+  type?: string;
+  source?: string;
+  timeFilter?: string;
+  sortBy?: string;
+  threatLevel?: string;
+  threatType?: string;
+  language?: string;
+}
+
+export interface SavedSearch {
+  _id: string;
+  name: string;
+  query: string;
+  filters: SavedSearchFilters;
+  subscribed: boolean;
+  matchCount?: number;
+  lastMatchedAt?: string | Date | null;
+  createdAt?: string | Date;
+  updatedAt?: string | Date;
+}
@@ -0,0 +1,26 @@
+// CSS selectors of a scraper source, applied to the list page at the source URL
+export interface ScraperConfig {
+  itemSelector: string;
+  titleSelector: string;
+  linkSelector: string;
+  dateSelector: string;
+  bodySelector: string;
+  nextPageSelector: string;
+  maxPages: number;
+}
+
+export interface ScraperTestResult {
+  itemCount: number;
+  pages: { url: string; itemCount: number }[];
+  items: { title: string; link: string; isoDate: string | null; snippet: string | null }[];
+}
+
+export const EMPTY_SCRAPER_CONFIG: ScraperConfig = {
+  itemSelector: '',
+  titleSelector: '',
+  linkSelector: '',
+  dateSelector: '',
+  bodySelector: '',
+  nextPageSelector: '',
+  maxPages: 1
+};
@@ -0,0 +1,64 @@
+// Per-feed outcome of a workflow run; times in ms
+export interface WorkflowFeedResult {
+  feedId?: string;
+  feedName: string;
+  feedUrl: string;
+  host?: string;
+  status: 'modified' | 'not_modified' | 'unchanged' | 'failed' | 'skipped';
+  itemsFetched?: number;
+  newArticles?: number;
+  duplicates?: number;
+  newReplies?: number;
+  // Stored articles the feed republished with new content
+  updatedArticles?: number;
+  bytesDownloaded?: number;
+  bytesSaved?: number;
+  fetchTime?: number;
+  processingTime?: number;
+  duration?: number;
+  error?: string | null;
+}
+
+// Schema check of the LLM results of a batch
+export interface WorkflowGptValidation {
+  structuredOutput: boolean;
+  parsed: number;
+  valid: number;
+  repaired: number;
+  invalid: number;
+  // Alert IDs the model returned that do not exist
+  droppedKeywordIds: string[];
+  repairRequested: boolean;
+  errors: string[];
+}
+
+// One GPT alert processing batch of a workflow run
+export interface WorkflowGptBatch {
+  batch: number;
+  articles: number;
+  updated: number;
+  withAlerts?: number;
+  // LLM provider and model that analyzed the batch
+  provider?: string;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  duration?: number;
+  validation?: WorkflowGptValidation;
+  error?: string | null;
+}
+
+export type WorkflowTrigger = 'cron' | 'manual' | 'startup' | 'single_source';
+
+export type WorkflowStatus = 'running' | 'completed' | 'completed_with_errors' | 'failed' | 'cancelled';
+
+// A run holding the ingestion lock ('ingestion') or a single source lock ('source:<id>')
+export interface CurrentWorkflowRun {
+  _id: string;
+  trigger: WorkflowTrigger;
+  status: WorkflowStatus;
+  startTime: string;
+  scope: string;
+  cancelRequested: boolean;
+}
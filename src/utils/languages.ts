@@ -0,0 +1,19 @@
+// Display names for the ISO 639-1 codes the backend stores in Article.lang
+
+let displayNames: Intl.DisplayNames | null = null;
+try {
+  displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+} catch {
+  // Older browsers without Intl.DisplayNames show the code
+}
+
+export const getLanguageName = (code: string): string => {
+  if (code === 'und') {
+    return 'Unknown';
+  }
+  try {
+    return displayNames?.of(code) || code.toUpperCase();
+  } catch {
+    return code.toUpperCase();
+  }
+};
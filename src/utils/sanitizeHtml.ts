@@ -0,0 +1,145 @@
+// Allowlist sanitizer for feed HTML shown in the reader view.
+// Output is rebuilt from scratch inside an inert DOMParser document, so only
+// allowed elements and attributes ever reach the page.
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'strong', 'b', 'em', 'i', 'u', 's', 'del', 'ins', 'sub', 'sup', 'mark', 'small', 'abbr',
+  'blockquote', 'q', 'cite', 'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'a', 'pre', 'code', 'kbd', 'samp', 'var', 'span', 'div', 'section', 'article', 'figure', 'figcaption',
+  'table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  'img',
+]);
+
+// Dropped together with everything inside them; other unknown tags are unwrapped
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'form', 'input', 'button',
+  'select', 'textarea', 'noscript', 'template', 'svg', 'math', 'link', 'meta', 'head', 'title', 'base',
+  'video', 'audio', 'source', 'track', 'canvas', 'map', 'area',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  abbr: ['title'],
+  ol: ['start'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope'],
+  col: ['span'],
+  colgroup: ['span'],
+};
+
+const LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+const IMAGE_PROTOCOLS = ['http:', 'https:'];
+
+export interface SanitizeOptions {
+  // Used to resolve relative links and image URLs
+  baseUrl?: string;
+  // Remote images are replaced by a placeholder unless allowed
+  allowImages?: boolean;
+}
+
+export interface SanitizedHtml {
+  html: string;
+  blockedImages: number;
+}
+
+const resolveUrl = (value: string, baseUrl: string | undefined, protocols: string[]) => {
+  try {
+    const url = new URL(value.trim(), baseUrl || window.location.href);
+    return protocols.includes(url.protocol) ? url.href : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Sanitize article HTML against an allowlist. Links open in a new tab without
+ * referrer or opener; remote images are blocked unless allowImages is set.
+ */
+export const sanitizeHtml = (html: string, options: SanitizeOptions = {}): SanitizedHtml => {
+  const { baseUrl, allowImages = false } = options;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const output = doc.createElement('div');
+  let blockedImages = 0;
+
+  const copyChildren = (source: Node, target: Node) => {
+    source.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        target.appendChild(doc.createTextNode(child.textContent || ''));
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        copyElement(child as Element, target);
+      }
+    });
+  };
+
+  const copyElement = (element: Element, target: Node) => {
+    const tag = element.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) {
+      return;
+    }
+    if (!ALLOWED_TAGS.has(tag)) {
+      copyChildren(element, target);
+      return;
+    }
+
+    if (tag === 'img') {
+      const src = resolveUrl(element.getAttribute('src') || '', baseUrl, IMAGE_PROTOCOLS);
+      if (!src) {
+        return;
+      }
+      if (!allowImages) {
+        blockedImages++;
+        const placeholder = doc.createElement('span');
+        placeholder.className = 'reader-blocked-image';
+        placeholder.textContent = `Image blocked${element.getAttribute('alt') ? `: ${element.getAttribute('alt')}` : ''}`;
+        target.appendChild(placeholder);
+        return;
+      }
+    }
+
+    const clean = doc.createElement(tag);
+    (ALLOWED_ATTRIBUTES[tag] || []).forEach(name => {
+      const value = element.getAttribute(name);
+      if (value !== null && name !== 'href' && name !== 'src') {
+        clean.setAttribute(name, value);
+      }
+    });
+
+    if (tag === 'a') {
+      const href = resolveUrl(element.getAttribute('href') || '', baseUrl, LINK_PROTOCOLS);
+      if (href) {
+        clean.setAttribute('href', href);
+        clean.setAttribute('target', '_blank');
+        clean.setAttribute('rel', 'noopener noreferrer nofollow');
+      }
+    } else if (tag === 'img') {
+      clean.setAttribute('src', resolveUrl(element.getAttribute('src') || '', baseUrl, IMAGE_PROTOCOLS) as string);
+      clean.setAttribute('loading', 'lazy');
+      clean.setAttribute('referrerpolicy', 'no-referrer');
+    } else if (tag === 'code' || tag === 'pre') {
+      // Keep language hints for code blocks, e.g. class="language-bash"
+      const language = (element.getAttribute('class') || '').split(/\s+/).find(name => /^language-[\w-]+$/.test(name));
+      if (language) {
+        clean.setAttribute('class', language);
+      }
+    }
+
+    copyChildren(element, clean);
+    target.appendChild(clean);
+  };
+
+  copyChildren(doc.body, output);
+  return { html: output.innerHTML, blockedImages };
+};
+
+/**
+ * Plain-text excerpt of article HTML for list views.
+ */
+export const htmlToExcerpt = (html: string, maxLength: number = 300) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, template').forEach(element => element.remove());
+  const text = (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength).trimEnd()}…` : text;
+};
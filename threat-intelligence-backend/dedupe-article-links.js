@@ -0,0 +1,53 @@
+require('dotenv').config();
+const { MongoClient } = require('mongodb');
+
+async function dedupeArticleLinks() {
+  let client;
+  try {
+    console.log('🔧 Removing duplicate article links...\n');
+
+    // Connect to database
+    client = new MongoClient(process.env.MONGODB_URI);
+    await client.connect();
+    const db = client.db('threatly2');
+
+    console.log('✅ Connected to threatly2 database\n');
+
+    const articlesCollection = db.collection('Articles');
+
+    // Oldest article of each link first
+    const duplicates = await articlesCollection.aggregate([
+      { $match: { link: { $exists: true } } },
+      { $sort: { _id: 1 } },
+      { $group: { _id: '$link', ids: { $push: '$_id' }, count: { $sum: 1 } } },
+      { $match: { count: { $gt: 1 } } }
+    ], { allowDiskUse: true }).toArray();
+
+    const removedIds = duplicates.flatMap(duplicate => duplicate.ids.slice(1));
+    console.log(`📊 Found ${duplicates.length} links stored more than once (${removedIds.length} extra articles)\n`);
+
+    if (removedIds.length > 0) {
+      // Same references the API deletes with an article
+      for (const collectionName of ['ArticleUserStates', 'SavedSearchMatches']) {
+        const result = await db.collection(collectionName).deleteMany({ articleId: { $in: removedIds } });
+        console.log(`🧹 Removed ${result.deletedCount} ${collectionName} entries`);
+      }
+
+      const result = await articlesCollection.deleteMany({ _id: { $in: removedIds } });
+      console.log(`🧹 Removed ${result.deletedCount} duplicate articles, keeping the oldest of each link`);
+    }
+
+    console.log('\n🎉 Done! The unique link index is created the next time the API starts.');
+
+  } catch (error) {
+    console.error('❌ Error removing duplicate article links:', error);
+  } finally {
+    if (client) {
+      await client.close();
+      console.log('\n🔌 Database connection closed');
+    }
+  }
+}
+
+// Run the migration
+dedupeArticleLinks().catch(console.error);
@@ -1,19 +1,24 @@
 require('dotenv').config();
 const { MongoClient } = require('mongodb');
-const OpenAI = require('openai');
 const logger = require('./utils/logger');
+const forumThreadService = require('./services/forumThreadService');
+const llmService = require('./services/llmService');
+const { ALERT_RESULTS_FORMAT, parseAlertResults, validateAlertResult } = require('./utils/alertResultSchema');
+
+// Validation errors kept in the per-batch report
+const MAX_REPORTED_ERRORS = 10;
 
 class GPTAlertService {
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
     this.client = null;
     this.db = null;
     this.alerts = [];
     this.batchSize = parseInt(process.env.ALERT_BATCH_SIZE || process.env.BATCH_SIZE || '5', 10);
     this.maxArticles = parseInt(process.env.ALERT_MAX_ARTICLES || '200', 10);
-         this.model = process.env.OPENAI_MODEL || 'gpt-4.1-nano';
+    // Full article text can be long; cap what goes into the prompt per article
+    this.maxContentChars = parseInt(process.env.ALERT_MAX_CONTENT_CHARS || '6000', 10);
+    // Runs an article may go without a valid result before it is no longer sent
+    this.maxAttempts = parseInt(process.env.ALERT_MAX_ATTEMPTS || '3', 10);
   }
 
   /**
@@ -31,6 +36,17 @@ class GPTAlertService {
     }
   }
 
+  /**
+   * Text to analyze for an article: the extracted full text when the feed
+   * provides one, otherwise the RSS content. Articles in other languages
+   * are analyzed in translation when one is stored.
+   */
+  getArticleText(article) {
+    const source = article.translation || article;
+    const text = source.fullText || source.content || article.content || 'No Content';
+    return text.length > this.maxContentChars ? `${text.substring(0, this.maxContentChars)}...` : text;
+  }
+
   /**
    * Load the active prompt from Prompts collection
    */
@@ -105,7 +121,9 @@ class GPTAlertService {
               { alertMatches: { $exists: false } },
               { alertMatches: { $size: 0 } }
             ]
-          }
+          },
+          // Articles the model failed on too often are left out; see alertError
+          { alertAttempts: { $not: { $gte: this.maxAttempts } } }
         ]
       }).limit(this.maxArticles).toArray();
       
@@ -133,7 +151,7 @@ class GPTAlertService {
   /**
    * Create prompt for GPT with alerts and articles
    */
-  async createPrompt(articles) {
+  async createPrompt(articles, activePrompt = null) {
     // Debug: Check what alerts we have
     console.log('\n=== DEBUG: ALERTS FOR GPT ===');
     console.log(`Total alerts loaded: ${this.alerts.length}`);
@@ -158,17 +176,31 @@ class GPTAlertService {
     console.log('First 500 chars of alerts JSON:');
     console.log(alertsJson.substring(0, 500) + '...');
 
+    // Forum posts are often short replies that only make sense with the thread
+    let threadContexts = new Map();
+    try {
+      threadContexts = await forumThreadService.getThreadContexts(articles);
+    } catch (error) {
+      logger.warn('Could not load forum thread context:', error.message);
+    }
+
     const articlesSection = articles.map(article => {
+      const threadContext = threadContexts.get(article._id.toString());
+      const threadSection = article.threadKey
+        ? `Thread: ${article.threadTitle || 'Unknown'} (${article.isReply ? 'reply' : 'opening post'})
+${threadContext ? `Earlier posts in the thread (context only; match alerts on this post):\n${threadContext}\n` : ''}`
+        : '';
+      const translationSection = article.translation
+        ? `Original language: ${article.lang} (title and content translated)\nOriginal title: ${article.title}\n`
+        : '';
       return `Article ID: ${article._id}
-Title: ${article.title || 'No Title'}
-Content: ${article.content || 'No Content'}
+Title: ${(article.translation && article.translation.title) || article.title || 'No Title'}
+${translationSection}Content: ${this.getArticleText(article)}
 Source: ${article.source || 'No Source'}
 Link: ${article.link || 'No Link'}
----`;
+${threadSection}---`;
     }).join('\n\n');
 
-    const activePrompt = await this.loadActivePrompt();
-
     if (activePrompt && activePrompt.content) {
       // Use placeholders if present; otherwise append sections
       let content = activePrompt.content;
@@ -202,6 +234,8 @@ For each article, analyze the title and content against each alert:
 - If there's a match (exact, synonym, or contextual), add the alert's "_id" to "alertMatches"
 - IMPORTANT: Always return the keyword's "_id" value, NOT the description text
 - Look for keyword matches, related terms, and industry-specific terminology
+- For forum posts, use the earlier posts of the thread to understand what a reply refers to
+- Articles in other languages are given in translation; names in the original title count as matches too
 - Example: If article mentions "Samsung SDI", return the keyword's "_id" like "507f1f77bcf86cd799439011"
 
 ### CLASSIFICATION:
@@ -211,34 +245,44 @@ For each article, analyze the title and content against each alert:
 - **isSpam**: true for ads/promotional content, false for genuine news
 
 ## RESPONSE FORMAT:
-Return a JSON array with exactly this structure:
-[
-  {
-    "id": "ARTICLE_ID_HERE",
-    "threatLevel": "HIGH",
-    "threatType": "malware",
-    "industries": ["Automotive", "Technology"],
-    "alertMatches": ["KEYWORD_ID_1", "KEYWORD_ID_2"],
-    "isSpam": false
-  }
-]
+Return a JSON object with one result per article in "results", exactly this structure:
+{
+  "results": [
+    {
+      "id": "ARTICLE_ID_HERE",
+      "threatLevel": "HIGH",
+      "threatType": "malware",
+      "industries": ["Automotive", "Technology"],
+      "alertMatches": ["KEYWORD_ID_1", "KEYWORD_ID_2"],
+      "isSpam": false
+    }
+  ]
+}
 
 ⚠️  CRITICAL: In "alertMatches", always use the keyword's "_id" value from the ALERTS section above.
 ⚠️  NEVER return description text, numbers, or any other value - ONLY the "_id" strings.
 
-Only respond with the JSON array, no additional text.`;
+Only respond with the JSON object, no additional text.`;
   }
 
   /**
    * Send batch to GPT for analysis
    */
   async analyzeBatchWithGPT(articles) {
+    // Token usage, model and validation report of this call, read by
+    // processArticlesInBatches even when parsing fails
+    this.lastUsage = null;
+    this.lastModel = null;
+    this.lastValidation = null;
+    this.lastFailures = null;
     try {
       console.log('\n' + '='.repeat(80));
       console.log('🚀 STARTING GPT ANALYSIS');
       console.log('='.repeat(80));
       
-      const prompt = await this.createPrompt(articles);
+      // The active prompt also selects the LLM provider and model
+      const activePrompt = await this.loadActivePrompt();
+      const prompt = await this.createPrompt(articles, activePrompt);
       
       logger.info(`Sending batch of ${articles.length} articles to GPT for analysis`);
       
@@ -253,25 +297,30 @@ Only respond with the JSON array, no additional text.`;
       console.log(prompt.substring(0, 1000) + '...');
       console.log('-'.repeat(50));
       
-      console.log('\n⏳ Calling OpenAI API...');
+      const { provider, model } = llmService.resolve(activePrompt);
+      console.log(`\n⏳ Calling ${provider} (${model})...`);
       
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: [
-          {
-            role: "system",
-            content: "You are a cybersecurity threat intelligence analyst. Analyze articles against alerts and return JSON results."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
+      const messages = [
+        {
+          role: "system",
+          content: "You are a cybersecurity threat intelligence analyst. Analyze articles against alerts and return JSON results."
+        },
+        {
+          role: "user",
+          content: prompt
+        }
+      ];
+      const response = await llmService.complete({
+        prompt: activePrompt,
+        messages,
         temperature: 0.1,
-        max_tokens: 4000
+        maxTokens: 4000,
+        responseFormat: ALERT_RESULTS_FORMAT
       });
 
-      const content = response.choices[0].message.content;
+      this.lastUsage = response.usage || null;
+      this.lastModel = { provider: response.provider, model: response.model };
+      const { content } = response;
       logger.info('Received response from GPT');
       
       console.log('\n✅ GPT RESPONSE RECEIVED!');
@@ -283,110 +332,84 @@ Only respond with the JSON array, no additional text.`;
       
       console.log('\n🔍 RESPONSE ANALYSIS:');
       console.log(`📊 Response length: ${content.length} characters`);
-      console.log(`🤖 Model used: ${this.model}`);
+      console.log(`🤖 Model used: ${response.provider} (${response.model})`);
       console.log(`💰 Tokens used: ${response.usage?.total_tokens || 'Unknown'}`);
       
-      // Try to parse the response
-      console.log('\n📋 PARSING GPT RESPONSE...');
-      
-      // Parse JSON response
-      try {
-        const results = JSON.parse(content);
-        logger.info(`Successfully parsed GPT response with ${results.length} article results`);
-        
-                 console.log('Parsed results:');
-         console.log(JSON.stringify(results, null, 2));
-         
-         // Debug: Show the exact keys in each result
-         console.log('\n=== DEBUG: RESULT KEYS ===');
-         results.forEach((result, index) => {
-           console.log(`Result ${index + 1} keys:`, Object.keys(result));
-           console.log(`Result ${index + 1} threatLevel (new):`, result.threatLevel);
-           console.log(`Result ${index + 1} 'Threat Level' (old):`, result['Threat Level']);
-           console.log(`Result ${index + 1} threatType (new):`, result.threatType);
-           console.log(`Result ${index + 1} 'Threat Type' (old):`, result['Threat Type']);
-           console.log(`Result ${index + 1} industries (new):`, result.industries);
-           console.log(`Result ${index + 1} 'Affected Industries' (old):`, result['Affected Industries']);
-           console.log(`Result ${index + 1} alertMatches (new):`, result.alertMatches);
-           console.log(`Result ${index + 1} 'Matched Alerts' (old):`, result['Matched Alerts']);
-           console.log(`Result ${index + 1} isSpam:`, result.isSpam);
-         });
-        
-         // Transform results to expected format - handle both old and new field names
-         const transformedResults = results.map((result, index) => {
-           // Handle the new response format
-           const articleId = result.id || result.articleId || articles[index]?._id?.toString();
-           
-           // Convert isSpam from number to boolean
-           const isSpam = result.isSpam === 1 || result.isSpam === true;
-           
-           // Handle industries - check both old and new field names
-           let industries = [];
-           if (result.industries && result.industries !== "N/A") {
-             industries = Array.isArray(result.industries) 
-               ? result.industries 
-               : [result.industries];
-           } else if (result['Affected Industries'] && result['Affected Industries'] !== "N/A") {
-             industries = Array.isArray(result['Affected Industries']) 
-               ? result['Affected Industries'] 
-               : [result['Affected Industries']];
-           }
-           
-           // Handle alertMatches - check both old and new field names
-           let matches = [];
-           if (result.alertMatches && Array.isArray(result.alertMatches)) {
-             matches = result.alertMatches;
-           } else if (result['Matched Alerts'] && Array.isArray(result['Matched Alerts'])) {
-             matches = result['Matched Alerts'];
-           } else if (result.matches && Array.isArray(result.matches)) {
-             matches = result.matches;
-           }
-           
-           // Handle threatLevel - check both old and new field names
-           const threatLevel = result.threatLevel || result['Threat Level'] || 'NONE';
-           
-           // Handle threatType - check both old and new field names
-           const threatType = result.threatType || result['Threat Type'] || 'N/A';
-           
-           return {
-             articleId: articleId,
-             matches: matches,
-             industries: industries,
-             isSpam: isSpam,
-             threatLevel: threatLevel,
-             threatType: threatType
-           };
-         });
-
-                 // Validate results
-         console.log('\n=== VALIDATION ===');
-         transformedResults.forEach((result, index) => {
-           console.log(`Result ${index + 1}:`);
-           console.log(`  Article ID: ${result.articleId}`);
-           console.log(`  Threat Level: ${result.threatLevel}`);
-           console.log(`  Threat Type: ${result.threatType}`);
-           console.log(`  Alert Matches: ${result.matches?.length || 0} alerts`);
-           if (result.matches && result.matches.length > 0) {
-             console.log(`  Alert IDs: ${result.matches.join(', ')}`);
-           }
-           console.log(`  Industries: ${result.industries?.length || 0} industries`);
-           if (result.industries && result.industries.length > 0) {
-             console.log(`  Industry Types: ${result.industries.join(', ')}`);
-           }
-           console.log(`  Spam Status: ${result.isSpam ? 'SPAM' : 'Legitimate'}`);
-         });
-        
-        return transformedResults;
-      } catch (parseError) {
-        logger.error('Error parsing GPT response:', parseError);
-        logger.error('Raw response:', content);
-        console.log('\n=== PARSE ERROR ===');
-        console.log('Failed to parse JSON response:');
-        console.log(parseError.message);
-        console.log('Raw response was:');
-        console.log(content);
+      const report = {
+        structuredOutput: response.structured,
+        parsed: 0,
+        valid: 0,
+        repaired: 0,
+        invalid: 0,
+        droppedKeywordIds: [],
+        repairRequested: false,
+        errors: []
+      };
+      this.lastValidation = report;
+
+      console.log('\n📋 VALIDATING GPT RESPONSE...');
+      const firstPass = this.validateBatchResults(content, articles);
+      report.parsed = firstPass.parsed;
+      report.droppedKeywordIds.push(...firstPass.droppedKeywordIds);
+      const validResults = firstPass.results;
+
+      // One repair round trip for the articles without a valid result
+      let failures = firstPass.failures;
+      if (failures.size > 0) {
+        report.repairRequested = true;
+        logger.warn(`${failures.size} of ${articles.length} GPT results invalid, requesting a repair`);
+        try {
+          const repairResponse = await llmService.complete({
+            prompt: activePrompt,
+            messages: [
+              ...messages,
+              { role: 'assistant', content },
+              { role: 'user', content: this.createRepairPrompt(failures) }
+            ],
+            temperature: 0.1,
+            maxTokens: 4000,
+            responseFormat: ALERT_RESULTS_FORMAT
+          });
+          this.lastUsage = this.addUsage(this.lastUsage, repairResponse.usage);
+
+          const repairArticles = articles.filter(article => failures.has(article._id.toString()));
+          const repair = this.validateBatchResults(repairResponse.content, repairArticles);
+          report.droppedKeywordIds.push(...repair.droppedKeywordIds);
+          repair.results.forEach((result, articleId) => validResults.set(articleId, result));
+          report.repaired = repair.results.size;
+          failures = repair.failures;
+        } catch (error) {
+          logger.error('GPT repair request failed:', error);
+        }
+      }
+
+      this.lastFailures = failures;
+      report.valid = validResults.size;
+      report.invalid = failures.size;
+      report.droppedKeywordIds = Array.from(new Set(report.droppedKeywordIds));
+      report.errors = Array.from(failures.entries())
+        .slice(0, MAX_REPORTED_ERRORS)
+        .map(([articleId, errors]) => `${articleId}: ${errors.join('; ')}`);
+
+      if (report.droppedKeywordIds.length > 0) {
+        logger.warn(`Dropped unknown alert IDs from GPT results: ${report.droppedKeywordIds.join(', ')}`);
+      }
+      // Articles without a valid result stay unprocessed and are retried on the next
+      // run, up to maxAttempts (see recordFailedArticles)
+      if (failures.size > 0) {
+        logger.warn(`No valid GPT result for ${failures.size} articles: ${report.errors.join(' | ')}`);
+      }
+      if (validResults.size === 0) {
         throw new Error('Failed to parse GPT response');
       }
+
+      const results = articles
+        .map(article => validResults.get(article._id.toString()))
+        .filter(Boolean);
+      logger.info(`Validated ${results.length} of ${articles.length} GPT results (${report.repaired} repaired)`);
+      console.log(`\n✅ ${results.length} valid results, ${report.repaired} repaired, ${report.invalid} invalid, ${report.droppedKeywordIds.length} unknown alert IDs dropped`);
+
+      return results;
     } catch (error) {
       logger.error('Error calling GPT API:', error);
       throw error;
@@ -394,117 +417,101 @@ Only respond with the JSON array, no additional text.`;
   }
 
   /**
-   * Transform GPT response to expected format
+   * Parse a GPT answer and validate each result against the alert result schema
+   * @param {string} content - Model answer
+   * @param {Array} articles - Articles the answer is for
+   * @returns {Object} { parsed, results: Map articleId => result, failures: Map articleId => errors, droppedKeywordIds }
    */
-  transformGPTResponse(content, articles) {
-    try {
-      console.log('\n🔄 TRANSFORMING GPT RESPONSE...');
-      console.log('='.repeat(80));
-      
-      // Parse JSON response
-      const results = JSON.parse(content);
-      logger.info(`Successfully parsed GPT response with ${results.length} article results`);
-      
-      console.log(`📊 Parsed ${results.length} results from GPT`);
-      
-      // Transform results to expected format - simplified and consistent
-      const transformedResults = results.map((result, index) => {
-        console.log(`\n--- Transforming Result ${index + 1} ---`);
-        
-        // Get article ID - GPT should return "id" field
-        const articleId = result.id || articles[index]?._id?.toString();
-        
-        if (!articleId) {
-          console.log(`   ⚠️  No article ID found, using index-based mapping`);
-          console.log(`   Available fields: ${Object.keys(result).join(', ')}`);
-        } else {
-          console.log(`   ✅ Article ID: ${articleId}`);
-        }
-        
-        // Extract fields with consistent names
-        const threatLevel = result.threatLevel || 'NONE';
-        const threatType = result.threatType || 'N/A';
-        const isSpam = result.isSpam === true || result.isSpam === 1;
-        
-        console.log(`   Threat Level: ${threatLevel}`);
-        console.log(`   Threat Type: ${threatType}`);
-        console.log(`   Is Spam: ${isSpam}`);
-        
-        // Handle industries - ensure it's always an array
-        let industries = [];
-        if (result.industries) {
-          industries = Array.isArray(result.industries) ? result.industries : [result.industries];
-        }
-        console.log(`   Industries: ${JSON.stringify(industries)}`);
-        
-        // Handle alertMatches - ensure it's always an array
-        let matches = [];
-        if (result.alertMatches) {
-          matches = Array.isArray(result.alertMatches) ? result.alertMatches : [result.alertMatches];
-        }
-        console.log(`   Raw Alert Matches: ${JSON.stringify(result.alertMatches)}`);
-        console.log(`   Processed Matches: ${JSON.stringify(matches)}`);
-        
-        // Validate alertMatches contain valid keyword IDs
-        if (matches.length > 0) {
-          console.log(`   🔍 Validating ${matches.length} alert matches...`);
-          const validKeywordIds = this.alerts.map(alert => alert._id.toString());
-          console.log(`   Available keyword IDs: ${validKeywordIds.slice(0, 5).join(', ')}...`);
-          
-          const originalMatches = [...matches];
-          matches = matches.filter(matchId => {
-            const isValid = validKeywordIds.includes(matchId);
-            if (!isValid) {
-              console.log(`      ❌ Invalid keyword ID: ${matchId}`);
-            } else {
-              console.log(`      ✅ Valid keyword ID: ${matchId}`);
-            }
-            return isValid;
-          });
-          
-          if (matches.length !== originalMatches.length) {
-            console.log(`   ⚠️  Filtered out ${originalMatches.length - matches.length} invalid keyword IDs`);
-          }
+  validateBatchResults(content, articles) {
+    const articleIds = new Set(articles.map(article => article._id.toString()));
+    const keywordIds = new Set(this.alerts.map(alert => alert._id.toString()));
+    const results = new Map();
+    const failures = new Map();
+    const droppedKeywordIds = [];
+
+    const items = parseAlertResults(content);
+    if (!items) {
+      articleIds.forEach(articleId => failures.set(articleId, ['no JSON results in the response']));
+      return { parsed: 0, results, failures, droppedKeywordIds };
+    }
+
+    items.forEach((item, index) => {
+      const validation = validateAlertResult(item, { articleIds, keywordIds });
+      if (validation.result) {
+        results.set(validation.result.articleId, validation.result);
+        droppedKeywordIds.push(...validation.droppedKeywordIds);
+      } else if (item && articleIds.has(item.id) && !results.has(item.id)) {
+        failures.set(item.id, validation.errors);
+      } else {
+        logger.warn(`Ignoring GPT result ${index + 1}: ${validation.errors.join('; ')}`);
+      }
+    });
+
+    articleIds.forEach(articleId => {
+      if (results.has(articleId)) {
+        failures.delete(articleId);
+      } else if (!failures.has(articleId)) {
+        failures.set(articleId, ['no result for this article']);
+      }
+    });
+
+    return { parsed: items.length, results, failures, droppedKeywordIds };
+  }
+
+  /**
+   * Follow-up message asking for corrected results
+   * @param {Map} failures - articleId => validation errors
+   */
+  createRepairPrompt(failures) {
+    const problems = Array.from(failures.entries())
+      .map(([articleId, errors]) => `- Article ID ${articleId}: ${errors.join('; ')}`)
+      .join('\n');
+
+    return `Some results in your answer were missing or invalid:
+${problems}
+
+Return corrected results for these articles only, as a JSON object with a "results" array like before. Use only "_id" values from the ALERTS section in "alertMatches". Respond with the JSON only.`;
+  }
+
+  /**
+   * Count a run without a valid result on each article, with the validation errors
+   * @param {Map} failures - articleId => validation errors
+   */
+  async recordFailedArticles(failures) {
+    const { ObjectId } = require('mongodb');
+    const timestamp = new Date();
+    const operations = Array.from(failures.entries()).map(([articleId, errors]) => ({
+      updateOne: {
+        filter: { _id: new ObjectId(articleId) },
+        update: {
+          $inc: { alertAttempts: 1 },
+          $set: { alertError: { message: errors.join('; '), timestamp } }
         }
-        
-        const transformed = {
-          articleId: articleId,
-          matches: matches,
-          industries: industries,
-          isSpam: isSpam,
-          threatLevel: threatLevel,
-          threatType: threatType
-        };
-        
-        console.log(`   ✅ Transformed result:`, JSON.stringify(transformed, null, 2));
-        return transformed;
-      });
-      
-      console.log(`\n🎯 TRANSFORMATION COMPLETE!`);
-      console.log(`📊 Total transformed results: ${transformedResults.length}`);
-      
-      // Show summary of all results
-      console.log('\n📋 TRANSFORMATION SUMMARY:');
-      transformedResults.forEach((result, index) => {
-        console.log(`   Result ${index + 1}: Article ${result.articleId}`);
-        console.log(`     Threat: ${result.threatLevel} (${result.threatType})`);
-        console.log(`     Industries: ${result.industries.length}`);
-        console.log(`     Alert Matches: ${result.matches.length}`);
-        console.log(`     Spam: ${result.isSpam}`);
-      });
-      
-      return transformedResults;
-    } catch (parseError) {
-      logger.error('Error parsing GPT response:', parseError);
-      console.log('\n❌ TRANSFORMATION FAILED!');
-      console.log('='.repeat(80));
-      console.log('Parse error:', parseError.message);
-      console.log('Raw content:', content);
-      console.log('='.repeat(80));
-      throw new Error('Failed to parse GPT response');
+      }
+    }));
+
+    try {
+      await this.db.collection('Articles').bulkWrite(operations, { ordered: false });
+      logger.info(`Recorded failed GPT analysis for ${operations.length} articles (given up after ${this.maxAttempts} attempts)`);
+    } catch (error) {
+      logger.error('Error recording failed GPT analysis:', error);
     }
   }
 
+  addUsage(total, usage) {
+    if (!usage) {
+      return total;
+    }
+    if (!total) {
+      return usage;
+    }
+    return {
+      prompt_tokens: (total.prompt_tokens || 0) + (usage.prompt_tokens || 0),
+      completion_tokens: (total.completion_tokens || 0) + (usage.completion_tokens || 0),
+      total_tokens: (total.total_tokens || 0) + (usage.total_tokens || 0)
+    };
+  }
+
   /**
    * Update articles with alert matches
    */
@@ -540,11 +547,9 @@ Only respond with the JSON array, no additional text.`;
                  threatType: result.threatType || 'N/A',
                  alertProcessedAt: new Date(),
                  lastUpdated: new Date(),
-                 // Ensure these fields are set for new articles
-                 read: false,
-                 saved: false,
                  processedAt: new Date()
-               }
+               },
+               $unset: { alertAttempts: '', alertError: '' }
              }
            );
 
@@ -572,8 +577,9 @@ Only respond with the JSON array, no additional text.`;
 
   /**
    * Process articles in batches
+   * @param {Object} options - { shouldCancel: () => boolean, checked before each batch }
    */
-  async processArticlesInBatches() {
+  async processArticlesInBatches({ shouldCancel = () => false } = {}) {
     try {
       await this.connect();
       await this.loadAlerts();
@@ -582,16 +588,26 @@ Only respond with the JSON array, no additional text.`;
       
       if (articles.length === 0) {
         logger.info('No unprocessed articles found');
-        return { processed: 0, batches: 0 };
+        return { processed: 0, batches: 0, batchResults: [] };
       }
 
       logger.info(`Processing ${articles.length} articles in batches of ${this.batchSize}`);
       
       let totalProcessed = 0;
       let batchCount = 0;
+      // Per-batch outcome and token usage, stored on the workflow run
+      const batchResults = [];
+
+      let cancelled = false;
 
       // Process articles in batches
       for (let i = 0; i < articles.length; i += this.batchSize) {
+        if (shouldCancel()) {
+          logger.info(`GPT alert processing cancelled after ${batchCount} batches`);
+          cancelled = true;
+          break;
+        }
+
         const batch = articles.slice(i, i + this.batchSize);
         batchCount++;
         
@@ -600,6 +616,9 @@ Only respond with the JSON array, no additional text.`;
         console.log(`BATCH ${batchCount}/${Math.ceil(articles.length / this.batchSize)}`);
         console.log(`${'='.repeat(50)}`);
         
+        const batchResult = { batch: batchCount, articles: batch.length, updated: 0, withAlerts: 0, error: null };
+        const batchStartedAt = Date.now();
+        
         try {
           // Analyze batch with GPT
           const results = await this.analyzeBatchWithGPT(batch);
@@ -607,6 +626,8 @@ Only respond with the JSON array, no additional text.`;
           // Update articles with results
           const updatedCount = await this.updateArticlesWithMatches(results);
           totalProcessed += updatedCount;
+          batchResult.updated = updatedCount;
+          batchResult.withAlerts = results.filter(result => result.matches && result.matches.length > 0).length;
           
           logger.info(`Batch ${batchCount} completed: ${updatedCount} articles updated`);
           console.log(`\n✅ Batch ${batchCount} completed: ${updatedCount} articles updated`);
@@ -620,12 +641,32 @@ Only respond with the JSON array, no additional text.`;
         } catch (error) {
           logger.error(`Error processing batch ${batchCount}:`, error);
           console.log(`❌ Error processing batch ${batchCount}: ${error.message}`);
+          batchResult.error = error.message;
           // Continue with next batch
         }
+
+        // Set by analyzeBatchWithGPT once the model answered, even if nothing in the answer was valid
+        if (this.lastFailures && this.lastFailures.size > 0) {
+          await this.recordFailedArticles(this.lastFailures);
+        }
+
+        batchResult.duration = Date.now() - batchStartedAt;
+        if (this.lastUsage) {
+          batchResult.promptTokens = this.lastUsage.prompt_tokens || 0;
+          batchResult.completionTokens = this.lastUsage.completion_tokens || 0;
+          batchResult.totalTokens = this.lastUsage.total_tokens || 0;
+        }
+        if (this.lastModel) {
+          Object.assign(batchResult, this.lastModel);
+        }
+        if (this.lastValidation) {
+          batchResult.validation = this.lastValidation;
+        }
+        batchResults.push(batchResult);
       }
 
       logger.info(`Completed processing: ${totalProcessed} articles updated in ${batchCount} batches`);
-      return { processed: totalProcessed, batches: batchCount };
+      return { processed: totalProcessed, batches: batchCount, batchResults, cancelled };
       
     } catch (error) {
       logger.error('Error in processArticlesInBatches:', error);
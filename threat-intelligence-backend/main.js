@@ -1,38 +1,58 @@
 require('dotenv').config();
 const logger = require('./utils/logger');
 const threatly2RSSService = require('./threatly2-rss-service');
-const threatly2DatabaseService = require('./services/threatly2DatabaseService');
+const workflowRunService = require('./services/workflowRunService');
+const workflowLockService = require('./services/workflowLockService');
 
 async function runWorkflow() {
-  const startTime = Date.now();
   logger.info('Starting threat intelligence workflow...');
 
+  // Shares the lock with the server's scheduler
+  const lock = await workflowLockService.acquireIngestion();
+  if (!lock) {
+    logger.warn('Another ingestion workflow or a single-source run is in progress, exiting');
+    return;
+  }
+
+  const run = await workflowRunService.start('manual');
+  if (run._id) {
+    await workflowLockService.setRunId(lock, run._id);
+  }
+
   try {
     // Run RSS feed processing
-    const rssResult = await threatly2RSSService.fetchAllFeeds();
+    const rssResult = await threatly2RSSService.fetchAllFeeds({ shouldCancel: () => lock.cancelRequested });
     
     if (!rssResult.success) {
       logger.error('RSS feed processing failed:', rssResult.error);
+      await workflowRunService.finish(run, {
+        status: 'failed',
+        feedResults: rssResult.feedResults,
+        error: rssResult.error
+      });
       return;
     }
 
-    // Create workflow run record
-    const workflowRun = {
-      startTime: new Date(startTime),
-      endTime: new Date(),
-      duration: Date.now() - startTime,
+    let status = rssResult.totalErrors === 0 ? 'completed' : 'completed_with_errors';
+    if (rssResult.cancelled) {
+      status = 'cancelled';
+    }
+
+    // Complete workflow run record
+    await workflowRunService.finish(run, {
+      status,
       totalFeeds: rssResult.totalFeeds,
+      successfulFeeds: rssResult.totalFeeds - rssResult.totalErrors,
+      failedFeeds: rssResult.totalErrors,
+      notModifiedFeeds: rssResult.notModifiedFeeds,
       totalArticlesFetched: rssResult.totalArticlesFetched,
-      totalNewArticles: rssResult.totalNewArticles,
-      totalErrors: rssResult.totalErrors,
-      feedResults: rssResult.feedResults,
-      status: rssResult.totalErrors === 0 ? 'success' : 'partial_success',
-      createdAt: new Date()
-    };
-
-    await threatly2DatabaseService.insertWorkflowRun(workflowRun);
+      newArticles: rssResult.totalNewArticles,
+      bytesDownloaded: rssResult.bytesDownloaded,
+      bytesSaved: rssResult.bytesSaved,
+      feedResults: rssResult.feedResults
+    });
 
-    logger.info(`Workflow completed in ${workflowRun.duration}ms`);
+    logger.info(`Workflow completed in ${Date.now() - run.startTime}ms`);
     logger.info(`Processed ${rssResult.totalFeeds} feeds`);
     logger.info(`Fetched ${rssResult.totalArticlesFetched} articles`);
     logger.info(`Added ${rssResult.totalNewArticles} new articles`);
@@ -41,21 +61,13 @@ async function runWorkflow() {
     } catch (error) {
     logger.error('Error in workflow execution:', error);
     
-    // Create failed workflow run record
-    const workflowRun = {
-      startTime: new Date(startTime),
-      endTime: new Date(),
-      duration: Date.now() - startTime,
+    // Mark the workflow run as failed
+    await workflowRunService.finish(run, {
       status: 'failed',
-      error: error.message,
-      createdAt: new Date()
-    };
-
-    try {
-      await threatly2DatabaseService.insertWorkflowRun(workflowRun);
-    } catch (dbError) {
-      logger.error('Error saving failed workflow run:', dbError);
-    }
+      error: error.message
+    });
+  } finally {
+    await workflowLockService.release(lock);
   }
 }
 
@@ -0,0 +1,96 @@
+require('dotenv').config();
+const { MongoClient } = require('mongodb');
+
+async function migrateUserArticleState() {
+  let client;
+  try {
+    console.log('🔧 Migrating read/saved flags to per-user article state...\n');
+
+    // Connect to database
+    // Same database as the API's mongoose connection (server.js), which holds the users
+    const mongoUri = process.env.MONGODB_URI.replace('/threatly?', '/threatly2?');
+    client = new MongoClient(mongoUri);
+    await client.connect();
+    const db = client.db('threatly2');
+
+    console.log('✅ Connected to threatly2 database\n');
+
+    const articlesCollection = db.collection('Articles');
+    const statesCollection = db.collection('ArticleUserStates');
+
+    // Legacy flags were global, so every existing user inherits them
+    const users = await client.db().collection('users').find({}, { projection: { _id: 1, email: 1 } }).toArray();
+    const articles = await articlesCollection.find(
+      { $or: [{ read: true }, { saved: true }] },
+      { projection: { _id: 1, read: 1, readAt: 1, saved: 1, savedAt: 1 } }
+    ).toArray();
+
+    console.log(`📊 Found ${articles.length} read/saved articles and ${users.length} users\n`);
+
+    // The legacy flags are removed below, so stop before that if they were not copied
+    if (articles.length > 0 && users.length === 0) {
+      console.log('❌ No users found; leaving the legacy flags in place. Check MONGODB_URI.');
+      return;
+    }
+
+    if (articles.length > 0) {
+      const now = new Date();
+      let statesWritten = 0;
+
+      for (const user of users) {
+        const operations = articles.map(article => ({
+          updateOne: {
+            filter: { userId: user._id, articleId: article._id },
+            update: {
+              $set: {
+                read: article.read === true,
+                readAt: article.read === true ? (article.readAt || now) : null,
+                saved: article.saved === true,
+                savedAt: article.saved === true ? (article.savedAt || now) : null,
+                updatedAt: now
+              },
+              $setOnInsert: { createdAt: now }
+            },
+            upsert: true
+          }
+        }));
+
+        const result = await statesCollection.bulkWrite(operations, { ordered: false });
+        statesWritten += result.upsertedCount + result.matchedCount;
+        console.log(`✅ ${user.email}: ${result.upsertedCount} created, ${result.modifiedCount} updated`);
+      }
+
+      if (statesWritten === 0) {
+        console.log('❌ No per-user states were written; leaving the legacy flags in place.');
+        return;
+      }
+    }
+
+    // Remove the legacy global flags from Articles
+    const unsetResult = await articlesCollection.updateMany(
+      {
+        $or: [
+          { read: { $exists: true } },
+          { readAt: { $exists: true } },
+          { saved: { $exists: true } },
+          { savedAt: { $exists: true } }
+        ]
+      },
+      { $unset: { read: '', readAt: '', saved: '', savedAt: '' } }
+    );
+
+    console.log(`\n🧹 Removed legacy flags from ${unsetResult.modifiedCount} articles`);
+    console.log('🎉 Migration completed!');
+
+  } catch (error) {
+    console.error('❌ Error migrating article state:', error);
+  } finally {
+    if (client) {
+      await client.close();
+      console.log('\n🔌 Database connection closed');
+    }
+  }
+}
+
+// Run the migration
+migrateUserArticleState().catch(console.error);
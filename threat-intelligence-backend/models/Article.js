@@ -10,6 +10,17 @@ const articleSchema = new mongoose.Schema({
     type: String,
     required: true
   },
+  // Main text of the article page, for feeds with fetchFullText enabled
+  fullText: {
+    type: String
+  },
+  fullTextFetchedAt: {
+    type: Date
+  },
+  fullTextError: {
+    message: String,
+    timestamp: Date
+  },
   link: {
     type: String,
     required: true,
@@ -52,6 +63,66 @@ const articleSchema = new mongoose.Schema({
     enum: ['news', 'forum'],
     default: 'news'
   },
+  // Forum posts: the thread they belong to, see models/ForumThread.js
+  threadKey: {
+    type: String
+  },
+  threadTitle: {
+    type: String
+  },
+  threadUrl: {
+    type: String
+  },
+  isReply: {
+    type: Boolean
+  },
+  // Link as published, when it differs from the canonical link (tracking parameters, AMP, redirects)
+  originalLink: {
+    type: String
+  },
+  // Near-duplicate detection, see services/storyService.js
+  simhash: {
+    type: String
+  },
+  // _id of the primary (first stored) article of the story this article belongs to
+  storyId: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  // Earlier versions of an article its source updated in place, oldest first (last 20)
+  revisions: [{
+    title: String,
+    content: String,
+    replacedAt: Date,
+    material: Boolean,       // the change that replaced this version re-ran alert matching
+    changedWords: Number,
+    _id: false
+  }],
+  revisionCount: {
+    type: Number,
+    default: 0
+  },
+  revisedAt: {
+    type: Date
+  },
+  // Detected language (ISO 639-1, 'und' if unknown). Not "language": the text
+  // index reads that field as the language of the document.
+  lang: {
+    type: String,
+    index: true
+  },
+  // Translation of articles not in TRANSLATION_TARGET_LANGUAGE, see services/translationService.js
+  translation: {
+    title: String,
+    content: String,
+    fullText: String,
+    lang: String,            // language translated into
+    provider: String,
+    translatedAt: Date
+  },
+  translationError: {
+    message: String,
+    timestamp: Date
+  },
   spam: {
     type: Number,
     enum: [0, 1],
@@ -77,24 +148,6 @@ const articleSchema = new mongoose.Schema({
     enum: [0, 1],
     default: 0
   },
-  // Read status
-  read: {
-    type: Boolean,
-    default: false
-  },
-  readAt: {
-    type: Date,
-    default: null
-  },
-  // Saved status
-  saved: {
-    type: Boolean,
-    default: false
-  },
-  savedAt: {
-    type: Date,
-    default: null
-  },
   // Alert matches from the alert processing system
   alertMatches: {
     type: [String],
@@ -104,6 +157,15 @@ const articleSchema = new mongoose.Schema({
     type: Date,
     default: null
   },
+  // Alert processing runs without a valid GPT result; retried up to ALERT_MAX_ATTEMPTS
+  alertAttempts: {
+    type: Number,
+    default: 0
+  },
+  alertError: {
+    message: String,
+    timestamp: Date
+  },
   // Custom alert categories (dynamic based on alerts configuration)
   alerts: {
     type: Map,
@@ -132,11 +194,11 @@ articleSchema.index({ isoDate: -1 });
 // Index for source-based queries
 articleSchema.index({ source: 1, isoDate: -1 });
 
-// Index for read status
-articleSchema.index({ read: 1 });
+// Posts of a thread in order
+articleSchema.index({ threadKey: 1, isoDate: 1 });
 
-// Index for saved status
-articleSchema.index({ saved: 1 });
+// Story members
+articleSchema.index({ storyId: 1 });
 
 // Index for alert flags
 articleSchema.index({ adyen: 1 });
@@ -144,6 +206,9 @@ articleSchema.index({ automotive: 1 });
 articleSchema.index({ samsung_sdi: 1 });
 
 // Text index for search
-articleSchema.index({ title: 'text', content: 'text' });
+articleSchema.index(
+  { title: 'text', content: 'text', 'translation.title': 'text', 'translation.content': 'text' },
+  { name: 'article_text' }
+);
 
 module.exports = mongoose.model('Article', articleSchema);
@@ -14,6 +14,58 @@ const feedSchema = new mongoose.Schema({
   description: {
     type: String
   },
+  // 'scraper' sources have no feed; items are extracted from the list page at `url`.
+  // 'json' sources map the items of a JSON API response at `url`
+  sourceType: {
+    type: String,
+    enum: ['rss', 'scraper', 'json'],
+    default: 'rss'
+  },
+  // CSS selectors for scraper sources; see services/scraperService.js
+  scraper: {
+    itemSelector: String,
+    titleSelector: String,
+    linkSelector: String,
+    dateSelector: String,
+    bodySelector: String,
+    nextPageSelector: String,
+    maxPages: {
+      type: Number,
+      default: 1
+    }
+  },
+  // JSONPath field mapping for JSON API sources; see services/jsonSourceService.js
+  jsonApi: {
+    itemsPath: String,
+    titlePath: String,
+    linkPath: String,
+    datePath: String,
+    contentPath: String,
+    idPath: String,
+    // Link for items without one, e.g. https://nvd.nist.gov/vuln/detail/{id}
+    linkTemplate: String,
+    maxPages: {
+      type: Number,
+      default: 1
+    },
+    pagination: {
+      type: {
+        type: String,
+        enum: ['none', 'page', 'offset', 'cursor', 'nextUrl', 'linkHeader'],
+        default: 'none'
+      },
+      // Query parameter for page, offset and cursor pagination
+      param: String,
+      start: Number,
+      // JSONPath of the next cursor or next page URL
+      path: String
+    },
+    // Sent with every request; the value is never returned by the API
+    authHeader: {
+      name: String,
+      value: String
+    }
+  },
   // Latest article date processed from this feed
   isoDate: {
     type: Date,
@@ -25,6 +77,58 @@ const feedSchema = new mongoose.Schema({
     message: String,
     timestamp: Date
   },
+  // Download each article page and extract its main text (for snippet-only feeds)
+  fetchFullText: {
+    type: Boolean,
+    default: false
+  },
+  // Conditional GET state from the last processed fetch
+  etag: {
+    type: String
+  },
+  lastModified: {
+    type: String
+  },
+  contentHash: {
+    type: String
+  },
+  contentLength: {
+    type: Number
+  },
+  // Scheduling (minutes); see utils/feedSchedule.js
+  fetchInterval: {
+    type: Number,
+    default: 60
+  },
+  adaptivePolling: {
+    type: Boolean,
+    default: true
+  },
+  pollInterval: {
+    type: Number
+  },
+  nextFetchAt: {
+    type: Date,
+    index: true
+  },
+  lastSuccessAt: {
+    type: Date
+  },
+  consecutiveFailures: {
+    type: Number,
+    default: 0
+  },
+  // Set when the feed is auto-disabled after too many failures
+  disabledReason: {
+    type: String
+  },
+  disabledAt: {
+    type: Date
+  },
+  // Time taken by the last scheduled fetch and processing, in ms
+  lastFetchDuration: {
+    type: Number
+  },
   // Status tracking
   isActive: {
     type: Boolean,
@@ -0,0 +1,54 @@
+const mongoose = require('mongoose');
+
+// A thread of a forum source, built from its posts as they are ingested
+const forumThreadSchema = new mongoose.Schema({
+  // Forum host and thread ID, or feed URL and title for unrecognized forums
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  url: {
+    type: String
+  },
+  source: {
+    type: String,
+    required: true,
+    index: true
+  },
+  feedUrl: {
+    type: String,
+    required: true
+  },
+  firstPostAt: {
+    type: Date
+  },
+  lastPostAt: {
+    type: Date,
+    index: true
+  },
+  postCount: {
+    type: Number,
+    default: 0
+  },
+  replyCount: {
+    type: Number,
+    default: 0
+  },
+  // Replies added to the thread by the last fetch that found any, after the thread was first seen
+  newReplyCount: {
+    type: Number,
+    default: 0
+  },
+  lastNewReplyAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('ForumThread', forumThreadSchema);
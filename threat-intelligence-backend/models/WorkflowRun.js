@@ -0,0 +1,126 @@
+const mongoose = require('mongoose');
+
+// Outcome of one feed within a run; times in ms
+const feedResultSchema = new mongoose.Schema({
+  feedId: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  feedName: String,
+  feedUrl: String,
+  host: String,
+  status: {
+    type: String,
+    enum: ['modified', 'not_modified', 'unchanged', 'failed', 'skipped']
+  },
+  itemsFetched: {
+    type: Number,
+    default: 0
+  },
+  newArticles: {
+    type: Number,
+    default: 0
+  },
+  duplicates: {
+    type: Number,
+    default: 0
+  },
+  // Forum feeds: new posts on threads that were already known
+  newReplies: {
+    type: Number,
+    default: 0
+  },
+  // Stored articles their source republished with new content
+  updatedArticles: {
+    type: Number,
+    default: 0
+  },
+  bytesDownloaded: Number,
+  bytesSaved: Number,
+  fetchTime: Number,
+  processingTime: Number,
+  duration: Number,
+  error: String
+}, { _id: false });
+
+// One GPT alert processing batch
+// Schema check of the LLM results of a batch, see utils/alertResultSchema.js
+const gptValidationSchema = new mongoose.Schema({
+  structuredOutput: Boolean,
+  parsed: Number,
+  valid: Number,
+  repaired: Number,
+  invalid: Number,
+  droppedKeywordIds: [String],
+  repairRequested: Boolean,
+  errors: [String]
+}, { _id: false });
+
+const gptBatchSchema = new mongoose.Schema({
+  batch: Number,
+  articles: Number,
+  updated: Number,
+  withAlerts: Number,
+  // LLM that analyzed the batch, see services/llmService.js
+  provider: String,
+  model: String,
+  promptTokens: Number,
+  completionTokens: Number,
+  totalTokens: Number,
+  duration: Number,
+  validation: gptValidationSchema,
+  error: String
+}, { _id: false });
+
+const workflowRunSchema = new mongoose.Schema({
+  trigger: {
+    type: String,
+    enum: ['cron', 'manual', 'startup', 'single_source'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['running', 'completed', 'completed_with_errors', 'failed', 'cancelled'],
+    default: 'running'
+  },
+  startTime: {
+    type: Date,
+    required: true
+  },
+  endTime: {
+    type: Date
+  },
+  processingTime: {
+    type: Number
+  },
+  // Feed totals
+  totalFeeds: Number,
+  successfulFeeds: Number,
+  failedFeeds: Number,
+  skippedFeeds: Number,
+  notModifiedFeeds: Number,
+  totalArticlesFetched: Number,
+  newArticles: Number,
+  duplicates: Number,
+  newReplies: Number,
+  updatedArticles: Number,
+  bytesDownloaded: Number,
+  bytesSaved: Number,
+  feedResults: [feedResultSchema],
+  // GPT alert processing
+  gptBatches: [gptBatchSchema],
+  articlesWithAlerts: Number,
+  tokensUsed: Number,
+  error: {
+    type: String,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+workflowRunSchema.index({ createdAt: -1 });
+workflowRunSchema.index({ status: 1 });
+
+module.exports = mongoose.model('WorkflowRun', workflowRunSchema, 'WorkflowRuns');
@@ -4,72 +4,96 @@ const logger = require('../utils/logger');
 const threatly2DatabaseService = require('../services/threatly2DatabaseService');
 const { authenticate, requirePremium, requireAdmin } = require('../middleware/auth');
 const { ObjectId } = require('mongodb');
+const { buildArticleFilter, buildUserStateStages, getArticleFacets, buildSortValueStage, buildSort, buildCursorFilter, encodeCursor } = require('../utils/articleQuery');
+const { SEARCH_FIELDS, compileSearchQuery, suggestFieldValues } = require('../utils/searchQuery');
+const savedSearchService = require('../services/savedSearchService');
+const articleRevisionService = require('../services/articleRevisionService');
+
+// Largest page GET /api/articles returns
+const MAX_PAGE_SIZE = 1000;
+
+// Alerts of a user: articles matching their keywords (any keyword for admins)
+// or their subscribed saved searches, without spam
+async function buildAlertFilter(user, savedSearchArticleIds) {
+  let keywordCondition = { alertMatches: { $exists: true, $ne: [] } };
+  if (user.role !== 'admin') {
+    const db = await threatly2DatabaseService.connect();
+    const userKeywords = await db.collection('Keywords').find({
+      userId: new ObjectId(user._id)
+    }).project({ _id: 1 }).toArray();
+    keywordCondition = { alertMatches: { $in: userKeywords.map(keyword => keyword._id) } };
+  }
+
+  return {
+    $or: [
+      keywordCondition,
+      { _id: { $in: savedSearchArticleIds } }
+    ],
+    isSpam: { $ne: true }
+  };
+}
 
 /**
  * GET /api/articles
- * Get all articles with optional filtering
+ * Get articles with server-side filtering, sorting and pagination.
+ * Pass the returned nextCursor as `cursor` to fetch the following page.
  */
 router.get('/', authenticate, async (req, res) => {
   try {
     const { 
       page = 1, 
       limit = 50, 
-      search = '', 
-      source = '', 
-      industry = '', 
-      type = '',
-      read = '',
-      saved = '',
-      spam = ''
+      sortBy = 'newest',
+      cursor = ''
     } = req.query;
 
-    const skip = (parseInt(page) - 1) * parseInt(limit);
-    
-    // Build filter object
-    const filter = {};
-    
-    if (search) {
-      filter.$or = [
-        { title: { $regex: search, $options: 'i' } },
-        { content: { $regex: search, $options: 'i' } }
-      ];
-    }
-    
-    if (source && source !== '') {
-      filter.source = source;
-    }
-    
-    if (industry && industry !== 'all') {
-      filter.industries = { $in: [industry] };
-    }
-    
-    if (read !== '') {
-      filter.read = read === 'true';
-    }
-    
-    if (saved !== '') {
-      filter.saved = saved === 'true';
-    }
-    
-    if (spam !== '') {
-      filter.isSpam = spam === 'true';
+    const pageSize = Math.min(Math.max(parseInt(limit) || 50, 1), MAX_PAGE_SIZE);
+    const filter = await buildArticleFilter(req.query);
+    const userStateStages = buildUserStateStages(req.query, req.user._id);
+    const pipeline = [
+      { $match: filter },
+      // Revision history is only needed by GET /api/articles/:id/revisions
+      { $project: { revisions: 0 } },
+      buildSortValueStage(sortBy)
+    ];
+    let skip = 0;
+
+    if (cursor) {
+      const cursorFilter = buildCursorFilter(cursor, sortBy);
+      if (!cursorFilter) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid cursor'
+        });
+      }
+      pipeline.push({ $match: cursorFilter });
     } else {
-      // By default, exclude spam articles from the main articles list
-      filter.isSpam = { $ne: true };
+      skip = (Math.max(parseInt(page) || 1, 1) - 1) * pageSize;
     }
 
-    // SIMPLIFIED: Just get articles directly without complex type filtering
-    const articles = await threatly2DatabaseService.getArticles(filter, { isoDate: -1 }, parseInt(limit), skip);
-    const total = await threatly2DatabaseService.getArticlesCount(filter);
+    // The user state is joined after sorting, so only the articles up to the page end are looked up
+    pipeline.push({ $sort: buildSort(sortBy) }, ...userStateStages);
+    if (skip > 0) {
+      pipeline.push({ $skip: skip });
+    }
+    // Fetch one extra article to know whether another page exists
+    pipeline.push({ $limit: pageSize + 1 }, { $project: { sortValue: 0 } });
+
+    const results = await threatly2DatabaseService.aggregateArticles(pipeline);
+    const hasMore = results.length > pageSize;
+    const articles = hasMore ? results.slice(0, pageSize) : results;
+    const total = await threatly2DatabaseService.getAggregatedArticlesCount([{ $match: filter }, ...userStateStages]);
 
     res.json({
       success: true,
-      data: articles,
+      data: await threatly2DatabaseService.withUserState(req.user._id, articles),
       pagination: {
-        page: parseInt(page),
-        limit: parseInt(limit),
+        page: parseInt(page) || 1,
+        limit: pageSize,
         total,
-        pages: Math.ceil(total / parseInt(limit))
+        pages: Math.ceil(total / pageSize),
+        hasMore,
+        nextCursor: hasMore ? encodeCursor(articles[articles.length - 1], sortBy) : null
       }
     });
 
@@ -82,6 +106,34 @@ router.get('/', authenticate, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/articles/facets
+ * Get value counts for each FilterBar dropdown, using the same query params as GET /api/articles.
+ * alerts=true limits the counts to the user's alerts, as listed by GET /api/articles/alerts.
+ */
+router.get('/facets', authenticate, async (req, res) => {
+  try {
+    let scope = null;
+    if (req.query.alerts === 'true') {
+      const savedSearchMatches = await savedSearchService.getUserMatches(req.user._id);
+      scope = await buildAlertFilter(req.user, Object.keys(savedSearchMatches).map(id => new ObjectId(id)));
+    }
+    const facets = await getArticleFacets(req.query, req.user._id, scope);
+
+    res.json({
+      success: true,
+      data: facets
+    });
+
+  } catch (error) {
+    logger.error('Error fetching article facets:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch article facets'
+    });
+  }
+});
+
 /**
  * GET /api/articles/types
  * Get available article types from Feeds collection
@@ -132,7 +184,7 @@ router.get('/sources', async (req, res) => {
  * GET /api/articles/stats/summary
  * Get summary statistics for dashboard
  */
-router.get('/stats/summary', async (req, res) => {
+router.get('/stats/summary', authenticate, async (req, res) => {
   try {
     logger.info('Dashboard requesting summary statistics');
     const db = await threatly2DatabaseService.connect();
@@ -144,10 +196,10 @@ router.get('/stats/summary', async (req, res) => {
     const spamArticles = await db.collection('Articles').countDocuments({ isSpam: true });
     logger.info(`Spam articles: ${spamArticles}`);
     
-    const readArticles = await db.collection('Articles').countDocuments({ read: true });
+    const readArticles = await threatly2DatabaseService.getArticleUserStatesCount(req.user._id, 'read');
     logger.info(`Read articles: ${readArticles}`);
     
-    const savedArticles = await db.collection('Articles').countDocuments({ saved: true });
+    const savedArticles = await threatly2DatabaseService.getArticleUserStatesCount(req.user._id, 'saved');
     logger.info(`Saved articles: ${savedArticles}`);
     
     const articlesWithAlerts = await db.collection('Articles').countDocuments({
@@ -201,9 +253,40 @@ router.get('/stats/summary', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/articles/search/suggestions
+ * Autocomplete values for a search field qualifier (e.g. source:, industry:)
+ */
+router.get('/search/suggestions', authenticate, async (req, res) => {
+  try {
+    const { field = '', prefix = '' } = req.query;
+
+    if (!SEARCH_FIELDS.includes(field)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown search field. Expected one of: ${SEARCH_FIELDS.join(', ')}`
+      });
+    }
+
+    const values = await suggestFieldValues(field, prefix);
+
+    res.json({
+      success: true,
+      data: values
+    });
+
+  } catch (error) {
+    logger.error('Error fetching search suggestions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch search suggestions'
+    });
+  }
+});
+
 /**
  * GET /api/articles/search/:query
- * Search articles by title and content
+ * Search articles using the search query language (see utils/searchQuery.js)
  */
 router.get('/search/:query', async (req, res) => {
   try {
@@ -211,7 +294,9 @@ router.get('/search/:query', async (req, res) => {
     const { page = 1, limit = 50 } = req.query;
     const skip = (parseInt(page) - 1) * parseInt(limit);
 
-    if (!query || query.trim() === '') {
+    const queryFilter = await compileSearchQuery(query);
+
+    if (!queryFilter) {
       return res.status(400).json({
         success: false,
         error: 'Search query is required'
@@ -220,16 +305,9 @@ router.get('/search/:query', async (req, res) => {
 
     const db = await threatly2DatabaseService.connect();
     
-    // Create search filter for title and content
     const searchFilter = {
       $and: [
-        {
-          $or: [
-            { title: { $regex: query, $options: 'i' } },
-            { content: { $regex: query, $options: 'i' } },
-            { source: { $regex: query, $options: 'i' } }
-          ]
-        },
+        queryFilter,
         // Exclude spam articles from search results by default
         { isSpam: { $ne: true } }
       ]
@@ -268,22 +346,28 @@ router.get('/search/:query', async (req, res) => {
 
 /**
  * GET /api/articles/stats/unread-count
- * Get unread articles count
+ * Get unread and read article counts for the current user
  */
-router.get('/stats/unread-count', async (req, res) => {
+router.get('/stats/unread-count', authenticate, async (req, res) => {
   try {
     logger.info('Dashboard requesting unread count');
     const db = await threatly2DatabaseService.connect();
+    const readIds = await threatly2DatabaseService.getUserArticleIds(req.user._id, 'read');
     const unreadCount = await db.collection('Articles').countDocuments({ 
-      read: { $ne: true },
+      _id: { $nin: readIds },
       isSpam: { $ne: true } // Exclude spam articles from unread count
     });
+    const readCount = await db.collection('Articles').countDocuments({
+      _id: { $in: readIds },
+      isSpam: { $ne: true }
+    });
     
-    logger.info(`Unread count: ${unreadCount}`);
+    logger.info(`Unread count: ${unreadCount}, read count: ${readCount}`);
     
     res.json({
       success: true,
-      unreadCount
+      unreadCount,
+      readCount
     });
 
   } catch (error) {
@@ -311,7 +395,7 @@ router.get('/spam', authenticate, requireAdmin, async (req, res) => {
 
     res.json({
       success: true,
-      data: articles,
+      data: await threatly2DatabaseService.withUserState(req.user._id, articles),
       pagination: {
         page: parseInt(page),
         limit: parseInt(limit),
@@ -364,10 +448,11 @@ router.get('/alerts', authenticate, requirePremium, async (req, res) => {
     const { page = 1, limit = 50 } = req.query;
     const skip = (parseInt(page) - 1) * parseInt(limit);
     
-    let filter = { 
-      alertMatches: { $exists: true, $ne: [] },
-      isSpam: { $ne: true } // Exclude spam articles from alerts
-    };
+    // Articles matched by the user's subscribed saved searches also count as alerts
+    const savedSearchMatches = await savedSearchService.getUserMatches(req.user._id);
+    const savedSearchArticleIds = Object.keys(savedSearchMatches).map(id => new ObjectId(id));
+    
+    const filter = await buildAlertFilter(req.user, savedSearchArticleIds);
     let articles;
     let total;
     
@@ -416,46 +501,19 @@ router.get('/alerts', authenticate, requirePremium, async (req, res) => {
       });
       
     } else {
-      // Regular users get only articles that match their keywords
-      const db = await threatly2DatabaseService.connect();
-      const keywordsCollection = db.collection('Keywords');
-      
-      // Get all keyword IDs owned by the current user
-      const userKeywords = await keywordsCollection.find({ 
-        userId: new ObjectId(req.user._id) 
-      }).project({ _id: 1 }).toArray();
-      
-      const userKeywordIds = userKeywords.map(k => k._id.toString());
-      
-      if (userKeywordIds.length === 0) {
-        // User has no keywords, return empty result
-        return res.json({
-          success: true,
-          data: [],
-          pagination: {
-            page: parseInt(page),
-            limit: parseInt(limit),
-            total: 0,
-            pages: 0
-          }
-        });
-      }
-      
-      // Filter articles to only include those that match user's keywords
-      filter = {
-        alertMatches: { 
-          $in: userKeywordIds.map(id => new ObjectId(id))
-        },
-        isSpam: { $ne: true } // Exclude spam articles from alerts
-      };
-      
+      // Regular users get only articles that match their keywords or saved searches
       articles = await threatly2DatabaseService.getArticles(filter, { isoDate: -1 }, parseInt(limit), skip);
       total = await threatly2DatabaseService.getArticlesCount(filter);
     }
 
+    articles = articles.map(article => ({
+      ...article,
+      savedSearchMatches: savedSearchMatches[article._id.toString()] || []
+    }));
+
     res.json({
       success: true,
-      data: articles,
+      data: await threatly2DatabaseService.withUserState(req.user._id, articles),
       pagination: {
         page: parseInt(page),
         limit: parseInt(limit),
@@ -475,21 +533,32 @@ router.get('/alerts', authenticate, requirePremium, async (req, res) => {
 
 /**
  * GET /api/articles/saved
- * Get saved articles only
+ * Get the current user's saved articles, most recently saved first
  */
-router.get('/saved', async (req, res) => {
+router.get('/saved', authenticate, async (req, res) => {
   try {
     const { page = 1, limit = 50 } = req.query;
     const skip = (parseInt(page) - 1) * parseInt(limit);
     
-    const filter = { saved: true };
+    const states = await threatly2DatabaseService.getSavedArticleStates(req.user._id, parseInt(limit), skip);
+    const total = await threatly2DatabaseService.getArticleUserStatesCount(req.user._id, 'saved');
     
-    const articles = await threatly2DatabaseService.getArticles(filter, { isoDate: -1 }, parseInt(limit), skip);
-    const total = await threatly2DatabaseService.getArticlesCount(filter);
+    const savedArticles = await threatly2DatabaseService.getArticles(
+      { _id: { $in: states.map(state => state.articleId) } },
+      { isoDate: -1 },
+      states.length
+    );
+    const articleMap = {};
+    savedArticles.forEach(article => {
+      articleMap[article._id.toString()] = article;
+    });
+    const articles = states
+      .map(state => articleMap[state.articleId.toString()])
+      .filter(article => article);
 
     res.json({
       success: true,
-      data: articles,
+      data: await threatly2DatabaseService.withUserState(req.user._id, articles),
       pagination: {
         page: parseInt(page),
         limit: parseInt(limit),
@@ -507,6 +576,247 @@ router.get('/saved', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/articles/user-state
+ * Get the current user's read/saved state for a list of articles
+ */
+router.post('/user-state', authenticate, async (req, res) => {
+  try {
+    const { articleIds = [] } = req.body;
+
+    if (!Array.isArray(articleIds)) {
+      return res.status(400).json({
+        success: false,
+        error: 'articleIds must be an array'
+      });
+    }
+
+    const states = await threatly2DatabaseService.getArticleUserStates(req.user._id, articleIds);
+    const data = {};
+    states.forEach(state => {
+      data[state.articleId.toString()] = {
+        read: state.read || false,
+        readAt: state.readAt || null,
+        saved: state.saved || false,
+        savedAt: state.savedAt || null
+      };
+    });
+
+    res.json({
+      success: true,
+      data
+    });
+
+  } catch (error) {
+    logger.error('Error fetching article user state:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch article user state'
+    });
+  }
+});
+
+/**
+ * PATCH /api/articles/mark-all-read
+ * Mark articles as read for the current user (all non-spam articles if no IDs are given)
+ */
+router.patch('/mark-all-read', authenticate, async (req, res) => {
+  try {
+    let { articleIds } = req.body || {};
+
+    if (!Array.isArray(articleIds)) {
+      const db = await threatly2DatabaseService.connect();
+      articleIds = await db.collection('Articles').distinct('_id', { isSpam: { $ne: true } });
+    }
+
+    const result = await threatly2DatabaseService.setArticleUserStates(req.user._id, articleIds, {
+      read: true,
+      readAt: new Date()
+    });
+    const updatedCount = result.upsertedCount + result.modifiedCount;
+
+    logger.info(`Marked ${updatedCount} articles as read for user: ${req.user.email}`);
+    res.json({
+      success: true,
+      message: 'Articles marked as read',
+      updatedCount
+    });
+
+  } catch (error) {
+    logger.error('Error marking all articles as read:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to mark all articles as read'
+    });
+  }
+});
+
+/**
+ * Resolve the articles targeted by a bulk action. The body either lists
+ * articleIds or carries a `query` (same params as GET /api/articles) to act
+ * on every article matching the current filters.
+ * Returns null if the body names no valid target.
+ */
+async function resolveBulkArticleIds(body = {}, userId) {
+  const { articleIds, query } = body;
+
+  if (Array.isArray(articleIds)) {
+    if (articleIds.length === 0 || !articleIds.every(id => ObjectId.isValid(id))) {
+      return null;
+    }
+    return articleIds.map(id => new ObjectId(id));
+  }
+
+  if (query && typeof query === 'object') {
+    // Query params always arrive as strings on GET; match that here
+    const params = {};
+    Object.entries(query).forEach(([key, value]) => {
+      params[key] = String(value);
+    });
+    const articles = await threatly2DatabaseService.aggregateArticles([
+      { $match: await buildArticleFilter(params) },
+      ...buildUserStateStages(params, userId),
+      { $project: { _id: 1 } }
+    ]);
+    return articles.map(article => article._id);
+  }
+
+  return null;
+}
+
+const invalidBulkTarget = (res) => res.status(400).json({
+  success: false,
+  error: 'Provide a non-empty articleIds array or a query'
+});
+
+/**
+ * PATCH /api/articles/bulk/read
+ * Mark several articles as read or unread for the current user
+ */
+router.patch('/bulk/read', authenticate, async (req, res) => {
+  try {
+    const { read = true } = req.body;
+    const articleIds = await resolveBulkArticleIds(req.body, req.user._id);
+    if (!articleIds) {
+      return invalidBulkTarget(res);
+    }
+
+    const result = await threatly2DatabaseService.setArticleUserStates(req.user._id, articleIds, {
+      read,
+      readAt: read ? new Date() : null
+    });
+
+    logger.info(`Bulk marked ${articleIds.length} articles as ${read ? 'read' : 'unread'} for user: ${req.user.email}`);
+    res.json({
+      success: true,
+      message: `Articles marked as ${read ? 'read' : 'unread'}`,
+      matchedCount: articleIds.length,
+      updatedCount: result.upsertedCount + result.modifiedCount
+    });
+
+  } catch (error) {
+    logger.error('Error bulk updating article read status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update article read status'
+    });
+  }
+});
+
+/**
+ * PATCH /api/articles/bulk/saved
+ * Save or unsave several articles for the current user
+ */
+router.patch('/bulk/saved', authenticate, async (req, res) => {
+  try {
+    const { saved = true } = req.body;
+    const articleIds = await resolveBulkArticleIds(req.body, req.user._id);
+    if (!articleIds) {
+      return invalidBulkTarget(res);
+    }
+
+    const result = await threatly2DatabaseService.setArticleUserStates(req.user._id, articleIds, {
+      saved,
+      savedAt: saved ? new Date() : null
+    });
+
+    logger.info(`Bulk ${saved ? 'saved' : 'unsaved'} ${articleIds.length} articles for user: ${req.user.email}`);
+    res.json({
+      success: true,
+      message: `Articles ${saved ? 'saved' : 'unsaved'}`,
+      matchedCount: articleIds.length,
+      updatedCount: result.upsertedCount + result.modifiedCount
+    });
+
+  } catch (error) {
+    logger.error('Error bulk updating article saved status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update article saved status'
+    });
+  }
+});
+
+/**
+ * PATCH /api/articles/bulk/spam
+ * Mark several articles as spam or not spam (authenticated users only)
+ */
+router.patch('/bulk/spam', authenticate, async (req, res) => {
+  try {
+    const { isSpam = true } = req.body;
+    const articleIds = await resolveBulkArticleIds(req.body, req.user._id);
+    if (!articleIds) {
+      return invalidBulkTarget(res);
+    }
+
+    const result = await threatly2DatabaseService.updateArticles(articleIds, { isSpam });
+
+    logger.info(`Bulk marked ${result.modifiedCount} articles as ${isSpam ? 'spam' : 'not spam'} by: ${req.user.email}`);
+    res.json({
+      success: true,
+      message: `Articles marked as ${isSpam ? 'spam' : 'not spam'}`,
+      matchedCount: result.matchedCount,
+      updatedCount: result.modifiedCount
+    });
+
+  } catch (error) {
+    logger.error('Error bulk updating article spam status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update article spam status'
+    });
+  }
+});
+
+/**
+ * DELETE /api/articles/bulk
+ * Delete several articles (admin only)
+ */
+router.delete('/bulk', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const articleIds = await resolveBulkArticleIds(req.body, req.user._id);
+    if (!articleIds) {
+      return invalidBulkTarget(res);
+    }
+
+    const result = await threatly2DatabaseService.deleteArticles(articleIds);
+
+    logger.info(`Bulk deleted ${result.deletedCount} articles by admin: ${req.user.email}`);
+    res.json({
+      success: true,
+      message: 'Articles deleted successfully',
+      deletedCount: result.deletedCount
+    });
+
+  } catch (error) {
+    logger.error('Error bulk deleting articles:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete articles'
+    });
+  }
+});
+
 /**
  * DELETE /api/articles
  * Delete all articles (admin only)
@@ -562,24 +872,48 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/articles/:id/revisions
+ * Get the versions of an article its source updated in place, oldest first,
+ * each with a word diff from the version before
+ */
+router.get('/:id/revisions', authenticate, async (req, res) => {
+  try {
+    const article = await threatly2DatabaseService.getArticleById(req.params.id);
+
+    if (!article) {
+      return res.status(404).json({
+        success: false,
+        error: 'Article not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: articleRevisionService.getVersions(article)
+    });
+
+  } catch (error) {
+    logger.error('Error fetching article revisions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch article revisions'
+    });
+  }
+});
+
 /**
  * PATCH /api/articles/:id/read
- * Mark article as read
+ * Mark article as read for the current user
  */
-router.patch('/:id/read', async (req, res) => {
+router.patch('/:id/read', authenticate, async (req, res) => {
   try {
     logger.info(`Mark as read/unread request for article: ${req.params.id}`);
     const { read = true } = req.body;
     logger.info(`Read status to set: ${read}`);
     
-    const result = await threatly2DatabaseService.updateArticle(req.params.id, {
-      read,
-      readAt: read ? new Date() : null
-    });
-
-    logger.info(`Update result: ${JSON.stringify(result)}`);
-
-    if (result.matchedCount === 0) {
+    const article = await threatly2DatabaseService.getArticleById(req.params.id);
+    if (!article) {
       logger.warn(`Article not found: ${req.params.id}`);
       return res.status(404).json({
         success: false,
@@ -587,6 +921,13 @@ router.patch('/:id/read', async (req, res) => {
       });
     }
 
+    const result = await threatly2DatabaseService.setArticleUserState(req.user._id, req.params.id, {
+      read,
+      readAt: read ? new Date() : null
+    });
+
+    logger.info(`Update result: ${JSON.stringify(result)}`);
+
     logger.info(`Article ${req.params.id} marked as ${read ? 'read' : 'unread'} successfully`);
     res.json({
       success: true,
@@ -604,22 +945,16 @@ router.patch('/:id/read', async (req, res) => {
 
 /**
  * PATCH /api/articles/:id/saved
- * Mark article as saved
+ * Mark article as saved for the current user
  */
-router.patch('/:id/saved', async (req, res) => {
+router.patch('/:id/saved', authenticate, async (req, res) => {
   try {
     logger.info(`Save/unsave request for article: ${req.params.id}`);
     const { saved = true } = req.body;
     logger.info(`Saved status to set: ${saved}`);
     
-    const result = await threatly2DatabaseService.updateArticle(req.params.id, {
-      saved,
-      savedAt: saved ? new Date() : null
-    });
-
-    logger.info(`Update result: ${JSON.stringify(result)}`);
-
-    if (result.matchedCount === 0) {
+    const article = await threatly2DatabaseService.getArticleById(req.params.id);
+    if (!article) {
       logger.warn(`Article not found: ${req.params.id}`);
       return res.status(404).json({
         success: false,
@@ -627,6 +962,13 @@ router.patch('/:id/saved', async (req, res) => {
       });
     }
 
+    const result = await threatly2DatabaseService.setArticleUserState(req.user._id, req.params.id, {
+      saved,
+      savedAt: saved ? new Date() : null
+    });
+
+    logger.info(`Update result: ${JSON.stringify(result)}`);
+
     logger.info(`Article ${req.params.id} ${saved ? 'saved' : 'unsaved'} successfully`);
     res.json({
       success: true,
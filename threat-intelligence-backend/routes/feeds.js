@@ -2,6 +2,7 @@ const express = require('express');
 const router = express.Router();
 const databaseService = require('../services/databaseService');
 const scheduler = require('../services/scheduler');
+const workflowLockService = require('../services/workflowLockService');
 const logger = require('../utils/logger');
 const Feed = require('../models/Feed');
 const Alert = require('../models/Alert');
@@ -169,8 +170,16 @@ router.get('/scheduler/status', async (req, res) => {
  */
 router.post('/scheduler/run', async (req, res) => {
   try {
+    const scope = workflowLockService.ingestionScope;
+    if (await workflowLockService.isHeld(scope) || await workflowLockService.isBlocked(scope)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Workflow is already running'
+      });
+    }
+
     // Run workflow asynchronously
-    scheduler.runNow().catch(error => {
+    scheduler.runNow('manual').catch(error => {
       logger.error('Error in manual workflow execution:', error);
     });
 
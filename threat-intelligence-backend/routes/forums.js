@@ -0,0 +1,94 @@
+const express = require('express');
+const router = express.Router();
+const logger = require('../utils/logger');
+const threatly2DatabaseService = require('../services/threatly2DatabaseService');
+const { authenticate } = require('../middleware/auth');
+const { escapeRegex } = require('../utils/searchQuery');
+
+/**
+ * GET /api/forums
+ * Get forum threads, most recently active first.
+ * Query: page, limit, source, search (thread title), newReplies=true for threads with new replies
+ */
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const { page = 1, limit = 30, source = '', search = '', newReplies = '' } = req.query;
+    const pageSize = Math.min(Math.max(parseInt(limit) || 30, 1), 100);
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
+
+    const filter = {};
+    if (source) {
+      filter.source = source;
+    }
+    if (search.trim()) {
+      filter.title = { $regex: escapeRegex(search.trim()), $options: 'i' };
+    }
+    if (newReplies === 'true') {
+      filter.lastNewReplyAt = { $ne: null };
+    }
+
+    const db = await threatly2DatabaseService.connect();
+    const collection = db.collection('ForumThreads');
+    const [threads, total, sources] = await Promise.all([
+      collection.find(filter).sort({ lastPostAt: -1 }).skip((pageNumber - 1) * pageSize).limit(pageSize).toArray(),
+      collection.countDocuments(filter),
+      collection.distinct('source')
+    ]);
+
+    res.json({
+      success: true,
+      data: threads,
+      sources: sources.sort(),
+      pagination: {
+        page: pageNumber,
+        limit: pageSize,
+        total,
+        pages: Math.ceil(total / pageSize)
+      }
+    });
+
+  } catch (error) {
+    logger.error('Error fetching forum threads:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch forum threads'
+    });
+  }
+});
+
+/**
+ * GET /api/forums/:id
+ * Get a forum thread with its posts in order
+ */
+router.get('/:id', authenticate, async (req, res) => {
+  try {
+    const db = await threatly2DatabaseService.connect();
+    const thread = await db.collection('ForumThreads').findOne({ _id: threatly2DatabaseService.toObjectId(req.params.id) });
+
+    if (!thread) {
+      return res.status(404).json({
+        success: false,
+        error: 'Thread not found'
+      });
+    }
+
+    const posts = await threatly2DatabaseService.getArticles({ threadKey: thread.key }, { isoDate: 1 }, 500);
+
+    res.json({
+      success: true,
+      data: {
+        ...thread,
+        posts: await threatly2DatabaseService.withUserState(req.user._id, posts)
+      }
+    });
+
+  } catch (error) {
+    logger.error('Error fetching forum thread:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch forum thread'
+    });
+  }
+});
+
+module.exports = router;
@@ -3,6 +3,24 @@ const router = express.Router();
 const logger = require('../utils/logger');
 const { ObjectId } = require('mongodb');
 const threatly2DatabaseService = require('../services/threatly2DatabaseService');
+const llmService = require('../services/llmService');
+const { authenticate, requireAdmin } = require('../middleware/auth');
+
+// Provider and model a prompt runs on; empty values use the LLM_PROVIDER default.
+// Returns { error } for an unknown provider.
+function getLLMSettings({ llmProvider, llmModel }) {
+  const settings = {};
+  if (llmProvider !== undefined) {
+    if (llmProvider && !llmService.hasProvider(llmProvider)) {
+      return { error: `Unknown LLM provider. Expected one of: ${llmService.listProviders().map(provider => provider.name).join(', ')}` };
+    }
+    settings.llmProvider = llmProvider ? llmProvider.toLowerCase() : null;
+  }
+  if (llmModel !== undefined) {
+    settings.llmModel = llmModel ? String(llmModel).trim() : null;
+  }
+  return { settings };
+}
 
 /**
  * GET /api/prompts
@@ -57,6 +75,26 @@ router.get('/active', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/prompts/llm-providers
+ * LLM providers a prompt can run on, with their default models (admin only)
+ */
+router.get('/llm-providers', authenticate, requireAdmin, async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: llmService.listProviders()
+    });
+
+  } catch (error) {
+    logger.error('Error fetching LLM providers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch LLM providers'
+    });
+  }
+});
+
 /**
  * GET /api/prompts/:id
  * Get prompt by ID
@@ -102,11 +140,22 @@ router.post('/', async (req, res) => {
       });
     }
 
+    const { settings, error } = getLLMSettings(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
     const db = await threatly2DatabaseService.connect();
     const prompt = {
       name,
       content,
       description: description || '',
+      llmProvider: null,
+      llmModel: null,
+      ...settings,
       isActive,
       createdAt: new Date(),
       updatedAt: new Date()
@@ -144,11 +193,20 @@ router.put('/:id', async (req, res) => {
       });
     }
 
+    const { settings, error } = getLLMSettings(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
     const db = await threatly2DatabaseService.connect();
     const update = {
       name,
       content,
       description: description || '',
+      ...settings,
       updatedAt: new Date()
     };
 
@@ -0,0 +1,175 @@
+const express = require('express');
+const router = express.Router();
+const logger = require('../utils/logger');
+const threatly2DatabaseService = require('../services/threatly2DatabaseService');
+const savedSearchService = require('../services/savedSearchService');
+const { authenticate } = require('../middleware/auth');
+const { ObjectId } = require('mongodb');
+
+/**
+ * GET /api/saved-searches
+ * Get the current user's saved searches
+ */
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const db = await threatly2DatabaseService.connect();
+    const savedSearches = await db.collection('SavedSearches')
+      .find({ userId: new ObjectId(req.user._id) })
+      .sort({ name: 1 })
+      .toArray();
+
+    res.json({
+      success: true,
+      data: savedSearches
+    });
+
+  } catch (error) {
+    logger.error('Error fetching saved searches:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch saved searches'
+    });
+  }
+});
+
+/**
+ * POST /api/saved-searches
+ * Save a named search (query + filters) for the current user
+ */
+router.post('/', authenticate, async (req, res) => {
+  try {
+    const { name, query = '', filters = {}, subscribed = false } = req.body;
+
+    if (!name || !name.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name is required'
+      });
+    }
+
+    const savedSearch = {
+      userId: new ObjectId(req.user._id),
+      name: name.trim(),
+      query: String(query).trim(),
+      filters: savedSearchService.sanitizeFilters(filters),
+      subscribed: Boolean(subscribed),
+      matchCount: 0,
+      lastMatchedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const db = await threatly2DatabaseService.connect();
+    const existing = await db.collection('SavedSearches').findOne({ userId: savedSearch.userId, name: savedSearch.name });
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        error: 'A saved search with this name already exists'
+      });
+    }
+
+    const result = await db.collection('SavedSearches').insertOne(savedSearch);
+
+    logger.info(`Saved search created: ${savedSearch.name} by ${req.user.email}`);
+    res.status(201).json({
+      success: true,
+      data: { _id: result.insertedId, ...savedSearch }
+    });
+
+  } catch (error) {
+    logger.error('Error creating saved search:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create saved search'
+    });
+  }
+});
+
+/**
+ * PUT /api/saved-searches/:id
+ * Update a saved search (name, query, filters or subscription)
+ */
+router.put('/:id', authenticate, async (req, res) => {
+  try {
+    const { name, query, filters, subscribed } = req.body;
+    const update = { updatedAt: new Date() };
+
+    if (name !== undefined) {
+      if (!name.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Name cannot be empty'
+        });
+      }
+      update.name = name.trim();
+    }
+    if (query !== undefined) update.query = String(query).trim();
+    if (filters !== undefined) update.filters = savedSearchService.sanitizeFilters(filters);
+    if (subscribed !== undefined) update.subscribed = Boolean(subscribed);
+
+    const db = await threatly2DatabaseService.connect();
+    const result = await db.collection('SavedSearches').findOneAndUpdate(
+      { _id: threatly2DatabaseService.toObjectId(req.params.id), userId: new ObjectId(req.user._id) },
+      { $set: update },
+      { returnDocument: 'after' }
+    );
+    const savedSearch = result.value;
+
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: savedSearch
+    });
+
+  } catch (error) {
+    logger.error('Error updating saved search:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update saved search'
+    });
+  }
+});
+
+/**
+ * DELETE /api/saved-searches/:id
+ * Delete a saved search and its alert matches
+ */
+router.delete('/:id', authenticate, async (req, res) => {
+  try {
+    const db = await threatly2DatabaseService.connect();
+    const savedSearchId = threatly2DatabaseService.toObjectId(req.params.id);
+    const result = await db.collection('SavedSearches').deleteOne({
+      _id: savedSearchId,
+      userId: new ObjectId(req.user._id)
+    });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    await db.collection('SavedSearchMatches').deleteMany({ savedSearchId });
+
+    res.json({
+      success: true,
+      message: 'Saved search deleted successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error deleting saved search:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete saved search'
+    });
+  }
+});
+
+module.exports = router;
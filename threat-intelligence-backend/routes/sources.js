@@ -2,7 +2,167 @@ const express = require('express');
 const router = express.Router();
 const logger = require('../utils/logger');
 const threatly2DatabaseService = require('../services/threatly2DatabaseService');
+const feedDiscoveryService = require('../services/feedDiscoveryService');
+const scraperService = require('../services/scraperService');
+const jsonSourceService = require('../services/jsonSourceService');
 const { authenticate, requireAdmin } = require('../middleware/auth');
+const { MIN_FETCH_INTERVAL, getFetchInterval, buildResetSchedule } = require('../utils/feedSchedule');
+const { parseOpml, buildOpml, isRssFeed } = require('../utils/opml');
+
+const FETCH_INTERVAL_ERROR = `fetchInterval must be a number of minutes (at least ${MIN_FETCH_INTERVAL})`;
+const SOURCE_TYPES = ['rss', 'scraper', 'json'];
+
+// Transform a feed document to the format expected by the Sources page
+function toSource(feed) {
+  return {
+    _id: feed._id,
+    name: feed.name,
+    url: feed.url,
+    description: feed.description || '',
+    category: feed.category || 'general',
+    type: feed.type || 'news',
+    status: feed.error ? 'inactive' : 'active',
+    error: feed.error,
+    isActive: feed.isActive,
+    createdAt: feed.createdAt,
+    updatedAt: feed.updatedAt,
+    isodate: feed.isodate,
+    lastFetch: feed.lastFetch,
+    fetchCount: feed.fetchCount || 0,
+    errorCount: feed.errorCount || 0,
+    sourceType: feed.sourceType || 'rss',
+    scraper: feed.scraper || null,
+    jsonApi: jsonSourceService.toPublicConfig(feed.jsonApi),
+    fetchFullText: feed.fetchFullText || false,
+    fetchInterval: getFetchInterval(feed),
+    adaptivePolling: feed.adaptivePolling !== false,
+    pollInterval: feed.pollInterval || null,
+    nextFetchAt: feed.nextFetchAt || null,
+    consecutiveFailures: feed.consecutiveFailures || 0,
+    disabledReason: feed.disabledReason || null,
+    disabledAt: feed.disabledAt || null,
+    lastFetchDuration: feed.lastFetchDuration || null
+  };
+}
+
+// Validate an optional fetch interval in minutes; returns undefined when absent, null when invalid
+function parseFetchInterval(value) {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const interval = parseInt(value, 10);
+  return Number.isNaN(interval) || interval < MIN_FETCH_INTERVAL ? null : interval;
+}
+
+function invalidFetchInterval(res) {
+  return res.status(400).json({
+    success: false,
+    error: FETCH_INTERVAL_ERROR
+  });
+}
+
+function isHttpUrl(value) {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Source type of a request body with the settings that type needs
+ * @param {Object} body - Source fields
+ * @param {Object} existing - Stored feed when updating, for settings that are not sent back
+ * @returns {Object} { sourceType, scraper } / { sourceType, jsonApi } / { sourceType }
+ * @throws {Error} If the settings for the type are invalid
+ */
+function buildSourceSettings(body, existing = null) {
+  const sourceType = SOURCE_TYPES.includes(body.sourceType) ? body.sourceType : 'rss';
+  if (sourceType === 'scraper') {
+    return { sourceType, scraper: scraperService.normalizeConfig(body.scraper) };
+  }
+  if (sourceType === 'json') {
+    return { sourceType, jsonApi: jsonSourceService.normalizeConfig(body.jsonApi, existing && existing.jsonApi) };
+  }
+  return { sourceType };
+}
+
+/**
+ * Dry run of a scraper or JSON API source
+ * @returns {Promise<string|null>} Why the source yields no items, or null if it does
+ */
+async function dryRunSource(feed) {
+  let result;
+  try {
+    result = feed.sourceType === 'scraper'
+      ? await scraperService.scrape(feed.url, feed.scraper)
+      : await jsonSourceService.fetchItems(feed.url, feed.jsonApi);
+  } catch (error) {
+    return error.message;
+  }
+  if (result.items.length > 0) {
+    return null;
+  }
+  return feed.sourceType === 'scraper' ? 'the selectors matched no items' : 'the paths matched no items';
+}
+
+/**
+ * Validate a new source and build its feed document. Shared by POST and OPML
+ * import so both report the same errors.
+ * @param {Object} body - Source fields
+ * @param {Set} existingUrls - URLs that already belong to a feed
+ * @returns {Object} { feed } or { status, error }
+ */
+function buildNewFeed(body, existingUrls) {
+  const { description, category, type, fetchFullText, adaptivePolling } = body;
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  const url = typeof body.url === 'string' ? body.url.trim() : '';
+
+  if (!name || !url) {
+    return { status: 400, error: 'Name and URL are required' };
+  }
+
+  if (!isHttpUrl(url)) {
+    return { status: 400, error: 'URL must be a valid http(s) URL' };
+  }
+
+  if (existingUrls.has(url)) {
+    return { status: 409, error: 'A source with this URL already exists' };
+  }
+
+  const fetchInterval = parseFetchInterval(body.fetchInterval);
+  if (fetchInterval === null) {
+    return { status: 400, error: FETCH_INTERVAL_ERROR };
+  }
+
+  let settings;
+  try {
+    settings = buildSourceSettings(body);
+  } catch (configError) {
+    return { status: 400, error: configError.message };
+  }
+
+  return {
+    feed: {
+      name,
+      url,
+      ...settings,
+      description: description || '',
+      category: category || 'general',
+      type: type || 'news',
+      fetchFullText: Boolean(fetchFullText),
+      fetchInterval,
+      adaptivePolling: adaptivePolling !== false,
+      status: 'active',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      fetchCount: 0,
+      errorCount: 0
+    }
+  };
+}
 
 /**
  * GET /api/sources
@@ -13,23 +173,7 @@ router.get('/', authenticate, requireAdmin, async (req, res) => {
     const feeds = await threatly2DatabaseService.getFeeds();
     
     // Transform feeds to match the expected format
-    const sources = feeds.map(feed => ({
-      _id: feed._id,
-      name: feed.name,
-      url: feed.url,
-      description: feed.description || '',
-      category: feed.category || 'general',
-      type: feed.type || 'news',
-      status: feed.error ? 'inactive' : 'active',
-      error: feed.error,
-      isActive: feed.isActive,
-      createdAt: feed.createdAt,
-      updatedAt: feed.updatedAt,
-      isodate: feed.isodate,
-      lastFetch: feed.lastFetch,
-      fetchCount: feed.fetchCount || 0,
-      errorCount: feed.errorCount || 0
-    }));
+    const sources = feeds.map(toSource);
 
     res.json({
       success: true,
@@ -45,6 +189,300 @@ router.get('/', authenticate, requireAdmin, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/sources/opml/export
+ * Download all sources as an OPML 2.0 file, one folder per category (admin only)
+ */
+router.get('/opml/export', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const feeds = await threatly2DatabaseService.getFeeds({}, { name: 1 });
+
+    // Scraper and JSON API sources have no feed URL to export; the count tells the client they were left out
+    const skipped = feeds.filter(feed => !isRssFeed(feed)).length;
+    if (skipped > 0) {
+      logger.info(`OPML export skipped ${skipped} scraper and JSON API sources`);
+    }
+
+    res.set('Content-Type', 'text/x-opml; charset=utf-8');
+    res.set('X-Skipped-Sources', String(skipped));
+    res.set('Content-Disposition', `attachment; filename="sources-${new Date().toISOString().slice(0, 10)}.opml"`);
+    res.send(buildOpml(feeds));
+
+  } catch (error) {
+    logger.error('Error exporting sources:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export sources'
+    });
+  }
+});
+
+/**
+ * POST /api/sources/opml/preview
+ * Parse an OPML file (sent as the XML request body) and mark which feeds are
+ * new, already added, repeated within the file or invalid (admin only)
+ */
+router.post('/opml/preview', authenticate, requireAdmin, express.text({ type: ['text/xml', 'application/xml', 'text/x-opml'], limit: '5mb' }), async (req, res) => {
+  try {
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'OPML document is required'
+      });
+    }
+
+    let outlines;
+    try {
+      outlines = parseOpml(req.body);
+    } catch (parseError) {
+      return res.status(400).json({
+        success: false,
+        error: parseError.message
+      });
+    }
+
+    const existingUrls = await threatly2DatabaseService.getExistingFeedUrls(outlines.map(outline => outline.url));
+    const seenUrls = new Set();
+    const entries = outlines.map(outline => {
+      if (existingUrls.has(outline.url)) {
+        return { ...outline, status: 'existing', error: null };
+      }
+
+      // Checked against earlier entries of the file, so repeats are reported
+      const { status, error } = buildNewFeed(outline, seenUrls);
+      seenUrls.add(outline.url);
+      if (error) {
+        return { ...outline, status: status === 409 ? 'duplicate' : 'invalid', error };
+      }
+      return { ...outline, status: 'new', error: null };
+    });
+
+    res.json({
+      success: true,
+      data: entries
+    });
+
+  } catch (error) {
+    logger.error('Error previewing OPML import:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview OPML import'
+    });
+  }
+});
+
+/**
+ * POST /api/sources/opml/import
+ * Add the selected OPML entries as sources; each entry is validated like
+ * POST /api/sources and gets its own result (admin only)
+ */
+router.post('/opml/import', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { entries } = req.body;
+
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'entries must be a non-empty array'
+      });
+    }
+
+    const existingUrls = await threatly2DatabaseService.getExistingFeedUrls(
+      entries.map(entry => (typeof entry.url === 'string' ? entry.url.trim() : null)).filter(Boolean)
+    );
+
+    const results = [];
+    for (const entry of entries) {
+      const { feed, error } = buildNewFeed(entry, existingUrls);
+      if (error) {
+        results.push({ name: entry.name, url: entry.url, success: false, error });
+        continue;
+      }
+
+      try {
+        const result = await threatly2DatabaseService.insertFeed(feed);
+        existingUrls.add(feed.url);
+        results.push({ name: feed.name, url: feed.url, success: true, _id: result.insertedId, error: null });
+      } catch (insertError) {
+        logger.error(`Error importing source ${feed.url}:`, insertError.message);
+        results.push({ name: feed.name, url: feed.url, success: false, error: 'Failed to add source' });
+      }
+    }
+
+    const imported = results.filter(result => result.success).length;
+    logger.info(`Imported ${imported}/${entries.length} sources from OPML`);
+
+    res.json({
+      success: true,
+      data: {
+        imported,
+        failed: entries.length - imported,
+        results
+      }
+    });
+
+  } catch (error) {
+    logger.error('Error importing OPML:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to import sources'
+    });
+  }
+});
+
+/**
+ * POST /api/sources/validate
+ * Dry-run a URL before adding it: parse it as a feed, or discover the feeds a
+ * web page links to and parse the first one. Nothing is stored (admin only)
+ */
+router.post('/validate', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const url = typeof req.body.url === 'string' ? req.body.url.trim() : '';
+
+    if (!isHttpUrl(url)) {
+      return res.status(400).json({
+        success: false,
+        error: 'URL must be a valid http(s) URL'
+      });
+    }
+
+    const validation = await feedDiscoveryService.validate(url);
+    const existingUrls = await threatly2DatabaseService.getExistingFeedUrls([validation.feedUrl]);
+
+    res.json({
+      success: true,
+      data: { ...validation, alreadyAdded: existingUrls.has(validation.feedUrl) }
+    });
+
+  } catch (error) {
+    logger.error('Error validating source:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to validate source'
+    });
+  }
+});
+
+/**
+ * POST /api/sources/scraper/test
+ * Run scraper selectors against a list page and return the extracted items
+ * without storing anything (admin only)
+ */
+router.post('/scraper/test', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const url = typeof req.body.url === 'string' ? req.body.url.trim() : '';
+
+    if (!isHttpUrl(url)) {
+      return res.status(400).json({
+        success: false,
+        error: 'URL must be a valid http(s) URL'
+      });
+    }
+
+    let config;
+    try {
+      config = scraperService.normalizeConfig(req.body.scraper);
+    } catch (configError) {
+      return res.status(400).json({
+        success: false,
+        error: configError.message
+      });
+    }
+
+    let result;
+    try {
+      result = await scraperService.scrape(url, config);
+    } catch (scrapeError) {
+      return res.status(422).json({
+        success: false,
+        error: `Failed to scrape ${url}: ${scrapeError.message}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        itemCount: result.items.length,
+        pages: result.pages,
+        items: result.items.map(item => ({
+          title: item.title,
+          link: item.link,
+          isoDate: item.isoDate || null,
+          snippet: item.contentSnippet ? item.contentSnippet.slice(0, 300) : null
+        }))
+      }
+    });
+
+  } catch (error) {
+    logger.error('Error testing scraper:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to test scraper'
+    });
+  }
+});
+
+/**
+ * POST /api/sources/json/test
+ * Fetch a JSON API with the given field mapping and return the mapped items
+ * without storing anything (admin only). Pass sourceId to use the stored auth
+ * header value of an existing source.
+ */
+router.post('/json/test', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const url = typeof req.body.url === 'string' ? req.body.url.trim() : '';
+
+    if (!isHttpUrl(url)) {
+      return res.status(400).json({
+        success: false,
+        error: 'URL must be a valid http(s) URL'
+      });
+    }
+
+    const existing = req.body.sourceId ? await threatly2DatabaseService.getFeedById(req.body.sourceId) : null;
+    let config;
+    try {
+      config = jsonSourceService.normalizeConfig(req.body.jsonApi, existing && existing.jsonApi);
+    } catch (configError) {
+      return res.status(400).json({
+        success: false,
+        error: configError.message
+      });
+    }
+
+    let result;
+    try {
+      result = await jsonSourceService.fetchItems(url, config);
+    } catch (fetchError) {
+      return res.status(422).json({
+        success: false,
+        error: `Failed to fetch ${url}: ${fetchError.message}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        itemCount: result.items.length,
+        pages: result.pages,
+        items: result.items.map(item => ({
+          title: item.title,
+          link: item.link,
+          isoDate: item.isoDate || null,
+          snippet: item.contentSnippet ? item.contentSnippet.slice(0, 300) : null
+        }))
+      }
+    });
+
+  } catch (error) {
+    logger.error('Error testing JSON API source:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to test JSON API source'
+    });
+  }
+});
+
 /**
  * GET /api/sources/:id
  * Get source by ID (admin only)
@@ -60,23 +498,7 @@ router.get('/:id', authenticate, requireAdmin, async (req, res) => {
       });
     }
 
-    const source = {
-      _id: feed._id,
-      name: feed.name,
-      url: feed.url,
-      description: feed.description || '',
-      category: feed.category || 'general',
-      type: feed.type || 'news',
-      status: feed.error ? 'inactive' : 'active',
-      error: feed.error,
-      isActive: feed.isActive,
-      createdAt: feed.createdAt,
-      updatedAt: feed.updatedAt,
-      isodate: feed.isodate,
-      lastFetch: feed.lastFetch,
-      fetchCount: feed.fetchCount || 0,
-      errorCount: feed.errorCount || 0
-    };
+    const source = toSource(feed);
 
     res.json({
       success: true,
@@ -98,31 +520,43 @@ router.get('/:id', authenticate, requireAdmin, async (req, res) => {
  */
 router.post('/', authenticate, requireAdmin, async (req, res) => {
   try {
-    const { name, url, description, category, type } = req.body;
+    const url = typeof req.body.url === 'string' ? req.body.url.trim() : '';
+    const existingUrls = url ? await threatly2DatabaseService.getExistingFeedUrls([url]) : new Set();
 
-    if (!name || !url) {
-      return res.status(400).json({
+    const { feed, status, error } = buildNewFeed(req.body, existingUrls);
+    if (error) {
+      return res.status(status).json({
         success: false,
-        error: 'Name and URL are required'
+        error
       });
     }
 
-    const feed = {
-      name,
-      url,
-      description: description || '',
-      category: category || 'general',
-      type: type || 'news',
-      status: 'active',
-      isActive: true,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      fetchCount: 0,
-      errorCount: 0
-    };
+    // Same dry run as /validate, /scraper/test or /json/test, unless the admin chose to save anyway
+    if (!req.body.skipValidation && feed.sourceType !== 'rss') {
+      const dryRunError = await dryRunSource(feed);
+      if (dryRunError) {
+        return res.status(422).json({
+          success: false,
+          error: `${feed.sourceType === 'scraper' ? 'Scraper' : 'JSON API'} validation failed: ${dryRunError}`
+        });
+      }
+    } else if (!req.body.skipValidation) {
+      const validation = await feedDiscoveryService.validate(feed.url);
+      if (!validation.valid || validation.feedUrl !== feed.url) {
+        return res.status(422).json({
+          success: false,
+          error: validation.valid
+            ? `This is a web page, not a feed; use ${validation.feedUrl} instead`
+            : `Feed validation failed: ${validation.error}`
+        });
+      }
+    }
 
     const result = await threatly2DatabaseService.insertFeed(feed);
     const newFeed = { ...feed, _id: result.insertedId };
+    if (newFeed.jsonApi) {
+      newFeed.jsonApi = jsonSourceService.toPublicConfig(newFeed.jsonApi);
+    }
 
     res.status(201).json({
       success: true,
@@ -144,9 +578,9 @@ router.post('/', authenticate, requireAdmin, async (req, res) => {
  */
 router.put('/:id', authenticate, requireAdmin, async (req, res) => {
   try {
-    const { name, url, description, category, type, isActive } = req.body;
+    const { name, url, description, category, type, isActive, fetchFullText, adaptivePolling } = req.body;
     
-    logger.info(`Updating source ${req.params.id} with data:`, { name, url, category, type, isActive });
+    logger.info(`Updating source ${req.params.id} with data:`, { name, url, category, type, isActive, fetchFullText });
 
     if (!name || !url) {
       return res.status(400).json({
@@ -155,6 +589,11 @@ router.put('/:id', authenticate, requireAdmin, async (req, res) => {
       });
     }
 
+    const fetchInterval = parseFetchInterval(req.body.fetchInterval);
+    if (fetchInterval === null) {
+      return invalidFetchInterval(res);
+    }
+
     const update = {
       name,
       url,
@@ -164,8 +603,25 @@ router.put('/:id', authenticate, requireAdmin, async (req, res) => {
       isActive: isActive !== undefined ? isActive : true,
       updatedAt: new Date()
     };
+    if (req.body.sourceType !== undefined) {
+      // The stored JSON API auth header is kept unless a new value is sent
+      const existing = req.body.sourceType === 'json' ? await threatly2DatabaseService.getFeedById(req.params.id) : null;
+      try {
+        Object.assign(update, buildSourceSettings(req.body, existing));
+      } catch (configError) {
+        return res.status(400).json({
+          success: false,
+          error: configError.message
+        });
+      }
+    }
+    if (fetchFullText !== undefined) update.fetchFullText = Boolean(fetchFullText);
+    if (fetchInterval !== undefined) update.fetchInterval = fetchInterval;
+    if (adaptivePolling !== undefined) update.adaptivePolling = Boolean(adaptivePolling);
+    // Saving an active source clears any backoff or auto-disable and fetches it on the next tick
+    if (update.isActive) Object.assign(update, buildResetSchedule());
 
-    logger.info('Update object:', update);
+    logger.info('Update object:', { ...update, ...(update.jsonApi && { jsonApi: jsonSourceService.toPublicConfig(update.jsonApi) }) });
 
     const result = await threatly2DatabaseService.updateFeed(req.params.id, update);
     
@@ -347,6 +803,13 @@ router.post('/:id/run', async (req, res) => {
     
     logger.info('Single source run result:', result);
 
+    if (result.busy) {
+      return res.status(409).json({
+        success: false,
+        error: result.error
+      });
+    }
+
     res.json({
       success: result.success,
       data: result,
@@ -3,6 +3,7 @@ const router = express.Router();
 const logger = require('../utils/logger');
 const threatly2DatabaseService = require('../services/threatly2DatabaseService');
 const classificationService = require('../services/classificationService');
+const workflowLockService = require('../services/workflowLockService');
 const axios = require('axios');
 const { authenticate, requireAdmin } = require('../middleware/auth');
 
@@ -79,12 +80,20 @@ router.get('/detailed', authenticate, requireAdmin, async (req, res) => {
 
     // Get source statistics
     const sourceStats = await db.collection('Articles').aggregate([
+      {
+        $lookup: {
+          from: 'ArticleUserStates',
+          localField: '_id',
+          foreignField: 'articleId',
+          as: 'userStates'
+        }
+      },
       {
         $group: {
           _id: '$source',
           count: { $sum: 1 },
-          readCount: { $sum: { $cond: ['$read', 1, 0] } },
-          savedCount: { $sum: { $cond: ['$saved', 1, 0] } },
+          readCount: { $sum: { $cond: [{ $in: [true, '$userStates.read'] }, 1, 0] } },
+          savedCount: { $sum: { $cond: [{ $in: [true, '$userStates.saved'] }, 1, 0] } },
           spamCount: { $sum: { $cond: ['$isSpam', 1, 0] } },
           alertCount: { $sum: { $cond: [{ $gt: [{ $size: '$alertMatches' }, 0] }, 1, 0] } }
         }
@@ -96,12 +105,20 @@ router.get('/detailed', authenticate, requireAdmin, async (req, res) => {
     // Get industry statistics
     const industryStats = await db.collection('Articles').aggregate([
       { $unwind: '$industries' },
+      {
+        $lookup: {
+          from: 'ArticleUserStates',
+          localField: '_id',
+          foreignField: 'articleId',
+          as: 'userStates'
+        }
+      },
       {
         $group: {
           _id: '$industries',
           count: { $sum: 1 },
-          readCount: { $sum: { $cond: ['$read', 1, 0] } },
-          savedCount: { $sum: { $cond: ['$saved', 1, 0] } },
+          readCount: { $sum: { $cond: [{ $in: [true, '$userStates.read'] }, 1, 0] } },
+          savedCount: { $sum: { $cond: [{ $in: [true, '$userStates.saved'] }, 1, 0] } },
           spamCount: { $sum: { $cond: ['$isSpam', 1, 0] } },
           alertCount: { $sum: { $cond: [{ $gt: [{ $size: '$alertMatches' }, 0] }, 1, 0] } }
         }
@@ -129,7 +146,7 @@ router.get('/detailed', authenticate, requireAdmin, async (req, res) => {
 
 /**
  * GET /api/statistics/workflow-runs
- * Get workflow run history
+ * Get workflow run history (per-feed and GPT batch details are only returned by /workflow-runs/:id)
  */
 router.get('/workflow-runs', authenticate, requireAdmin, async (req, res) => {
   try {
@@ -137,7 +154,7 @@ router.get('/workflow-runs', authenticate, requireAdmin, async (req, res) => {
     const skip = (parseInt(page) - 1) * parseInt(limit);
 
     const [runs, total] = await Promise.all([
-      threatly2DatabaseService.getWorkflowRuns({}, { createdAt: -1 }, parseInt(limit), skip),
+      threatly2DatabaseService.getWorkflowRuns({}, { createdAt: -1 }, parseInt(limit), skip, { feedResults: 0, gptBatches: 0 }),
       threatly2DatabaseService.getWorkflowRunsCount({})
     ]);
 
@@ -163,6 +180,68 @@ router.get('/workflow-runs', authenticate, requireAdmin, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/statistics/workflow-runs/current
+ * Get the workflow runs in progress on any server instance
+ */
+router.get('/workflow-runs/current', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const locks = await workflowLockService.getActiveLocks();
+    const runIds = locks.map(lock => lock.runId).filter(Boolean);
+    const runs = runIds.length > 0
+      ? await threatly2DatabaseService.getWorkflowRuns({ _id: { $in: runIds } }, { startTime: -1 }, runIds.length, 0, { feedResults: 0, gptBatches: 0 })
+      : [];
+
+    res.json({
+      success: true,
+      data: runs.map(run => {
+        const lock = locks.find(l => l.runId && l.runId.equals(run._id));
+        return { ...run, scope: lock.scope, cancelRequested: lock.cancelRequested };
+      })
+    });
+
+  } catch (error) {
+    logger.error('Error fetching current workflow runs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch current workflow runs'
+    });
+  }
+});
+
+/**
+ * POST /api/statistics/workflow-runs/:id/cancel
+ * Stop a workflow run in progress at the next feed or GPT batch
+ */
+router.post('/workflow-runs/:id/cancel', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { ObjectId } = require('mongodb');
+    const cancelled = ObjectId.isValid(req.params.id)
+      ? await workflowLockService.requestCancel(new ObjectId(req.params.id))
+      : false;
+
+    if (!cancelled) {
+      return res.status(404).json({
+        success: false,
+        error: 'No workflow run in progress with this ID'
+      });
+    }
+
+    logger.info(`Cancellation requested for workflow run ${req.params.id} by ${req.user.email}`);
+    res.json({
+      success: true,
+      message: 'Cancellation requested'
+    });
+
+  } catch (error) {
+    logger.error('Error cancelling workflow run:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel workflow run'
+    });
+  }
+});
+
 /**
  * GET /api/statistics/workflow-runs/:id
  * Get specific workflow run details
@@ -170,8 +249,9 @@ router.get('/workflow-runs', authenticate, requireAdmin, async (req, res) => {
 router.get('/workflow-runs/:id', authenticate, requireAdmin, async (req, res) => {
   try {
     const { ObjectId } = require('mongodb');
-    const db = await threatly2DatabaseService.connect();
-    const run = await db.collection('WorkflowRuns').findOne({ _id: new ObjectId(req.params.id) });
+    const run = ObjectId.isValid(req.params.id)
+      ? await threatly2DatabaseService.getWorkflowRunById(req.params.id)
+      : null;
     
     if (!run) {
       return res.status(404).json({
@@ -311,6 +391,8 @@ router.post('/test-run', async (req, res) => {
           isoDate: article.isoDate
         },
         gptOutput: classificationResult.gptOutput,
+        provider: classificationResult.provider,
+        model: classificationResult.model,
         matchedKeywords: classificationResult.matchedKeywords,
         industries: classificationResult.industries
       }
@@ -14,6 +14,8 @@ const statisticsRoutes = require('./routes/statistics');
 const promptsRoutes = require('./routes/prompts');
 const authRoutes = require('./routes/auth');
 const adminRoutes = require('./routes/admin');
+const savedSearchRoutes = require('./routes/savedSearches');
+const forumRoutes = require('./routes/forums');
 const scheduler = require('./services/scheduler');
 
 const app = express();
@@ -44,6 +46,8 @@ app.use('/api/keywords', keywordRoutes);
 app.use('/api/sources', sourceRoutes);
 app.use('/api/statistics', statisticsRoutes);
 app.use('/api/prompts', promptsRoutes);
+app.use('/api/saved-searches', savedSearchRoutes);
+app.use('/api/forums', forumRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -81,7 +85,7 @@ async function startServer() {
 
     // Run initial RSS workflow on startup
     logger.info('Running initial RSS workflow on startup...');
-    scheduler.runNow().catch(error => {
+    scheduler.runNow('startup').catch(error => {
       logger.error('Error in initial workflow execution:', error);
     });
 
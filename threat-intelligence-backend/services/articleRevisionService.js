@@ -0,0 +1,104 @@
+const logger = require('../utils/logger');
+const threatly2DatabaseService = require('./threatly2DatabaseService');
+const { toPlainText, diffWords } = require('../utils/textDiff');
+
+/**
+ * Keeps a revision history for articles their source updates in place
+ * (same link, new content), e.g. vendor advisories.
+ */
+class ArticleRevisionService {
+  constructor() {
+    // Content changes of at least this many words (added plus removed) are
+    // material and send the article through alert matching again; a title
+    // change always is
+    this.materialChangeWords = parseInt(process.env.ARTICLE_MATERIAL_CHANGE_WORDS, 10) || 2;
+    // Older revisions are dropped
+    this.maxRevisions = 20;
+  }
+
+  /**
+   * Compare a stored article with the version just fetched
+   * @param {Object} stored - Stored article with title and content
+   * @param {Object} article - Fetched version with title and content
+   * @returns {Object|null} { material, changedWords }, or null if only markup or whitespace changed
+   */
+  detectChange(stored, article) {
+    const titleChanged = toPlainText(stored.title) !== toPlainText(article.title);
+    const { added, removed } = diffWords(stored.content, article.content);
+    const changedWords = added + removed;
+
+    if (!titleChanged && changedWords === 0) {
+      return null;
+    }
+    return { material: titleChanged || changedWords >= this.materialChangeWords, changedWords };
+  }
+
+  /**
+   * Store the fetched version and keep the replaced one as a revision.
+   * A material change clears the alert matches, so the next GPT run
+   * processes the article again, and marks it for saved search evaluation.
+   * @param {Object} stored - Stored article
+   * @param {Object} update - Fields of the fetched version (title, content, full text fields)
+   * @param {Object} change - Result of detectChange
+   */
+  async recordRevision(stored, update, change) {
+    const now = new Date();
+    const set = { ...update, revisedAt: now, lastUpdated: now };
+    if (change.material) {
+      Object.assign(set, { alertMatches: [], processedAt: now });
+    }
+
+    const db = await threatly2DatabaseService.connect();
+    await db.collection('Articles').updateOne({ _id: stored._id }, {
+      $set: set,
+      $inc: { revisionCount: 1 },
+      $push: {
+        revisions: {
+          $each: [{
+            title: stored.title,
+            content: stored.content,
+            replacedAt: now,
+            material: change.material,
+            changedWords: change.changedWords
+          }],
+          $slice: -this.maxRevisions
+        }
+      }
+    });
+
+    logger.info(`Article updated by its source (${change.material ? 'material' : 'minor'} change, ${change.changedWords} words): ${update.title}`);
+  }
+
+  /**
+   * Versions of an article, oldest first. Each later version has the change
+   * from the version before it, with word diffs of title and content.
+   * @param {Object} article - Article with revisions
+   * @returns {Array} [{ title, content, since, change: { material, changedWords, title, content } | null }]
+   */
+  getVersions(article) {
+    const versions = [
+      ...(article.revisions || []),
+      { title: article.title, content: article.content }
+    ];
+
+    return versions.map((version, index) => {
+      const previous = versions[index - 1];
+      return {
+        title: version.title,
+        content: version.content,
+        // The first version dates from publication, later ones from the update that stored them
+        since: previous ? previous.replacedAt : article.isoDate,
+        change: previous
+          ? {
+            material: previous.material,
+            changedWords: previous.changedWords,
+            title: diffWords(previous.title, version.title).parts,
+            content: diffWords(previous.content, version.content).parts
+          }
+          : null
+      };
+    });
+  }
+}
+
+module.exports = new ArticleRevisionService();
@@ -1,12 +1,9 @@
-const OpenAI = require('openai');
 const logger = require('../utils/logger');
 const threatly2DatabaseService = require('./threatly2DatabaseService');
+const llmService = require('./llmService');
 
 class ClassificationService {
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
     this.batchSize = parseInt(process.env.BATCH_SIZE) || 5;
     this.batchDelay = parseInt(process.env.BATCH_DELAY_MS) || 2000;
   }
@@ -56,9 +53,11 @@ class ClassificationService {
 
     try {
       const prompt = this.buildClassificationPrompt(content, keywords);
+      // Same provider and model as the GPT alert processing
+      const activePrompt = await this.getActivePrompt();
       
-      const response = await this.openai.chat.completions.create({
-        model: process.env.OPENAI_MODEL || 'gpt-4.1-nano',
+      const response = await llmService.complete({
+        prompt: activePrompt,
         messages: [
           {
             role: 'system',
@@ -69,15 +68,14 @@ class ClassificationService {
             content: prompt
           }
         ],
-        max_tokens: parseInt(process.env.OPENAI_MAX_TOKENS) || 500,
+        maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS) || 500,
         temperature: parseFloat(process.env.OPENAI_TEMPERATURE) || 0.1
       });
 
-      const result = response.choices[0].message.content;
-      return this.parseClassificationResult(result, keywords);
+      return this.parseClassificationResult(response.content, keywords);
 
     } catch (error) {
-      logger.error('OpenAI API error:', error);
+      logger.error('LLM API error:', error);
       return {
         industries: ['Other'],
         matchedKeywords: []
@@ -119,25 +117,27 @@ Link: ${article.link || ''}
         .replace('{alerts}', alertsText)
         .replace('{articles}', articlesText);
 
-      const response = await this.openai.chat.completions.create({
-        model: process.env.OPENAI_MODEL || 'gpt-4.1-nano',
+      const response = await llmService.complete({
+        prompt: activePrompt,
         messages: [
           {
             role: 'user',
             content: promptContent
           }
         ],
-        max_tokens: parseInt(process.env.OPENAI_MAX_TOKENS) || 2000,
+        maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS) || 2000,
         temperature: parseFloat(process.env.OPENAI_TEMPERATURE) || 0.1
       });
 
-      const gptOutput = response.choices[0].message.content;
+      const gptOutput = response.content;
       
       // Parse the GPT output to extract matched keywords
       const matchedKeywords = this.extractMatchedKeywords(gptOutput, keywords);
       
       return {
         gptOutput,
+        provider: response.provider,
+        model: response.model,
         matchedKeywords,
         industries: ['Other'] // Default, can be enhanced later
       };
@@ -174,7 +174,7 @@ Link: ${article.link || ''}
   }
 
   /**
-   * Build the classification prompt for OpenAI
+   * Build the classification prompt for the LLM
    * @param {string} content - Content to classify
    * @param {Array} keywords - Keywords to match against
    * @returns {string} Classification prompt
@@ -214,8 +214,8 @@ Example response:
   }
 
   /**
-   * Parse the classification result from OpenAI
-   * @param {string} result - Raw result from OpenAI
+   * Parse the classification result from the LLM
+   * @param {string} result - Raw result from the LLM
    * @param {Array} keywords - Keywords used for classification
    * @returns {Object} Parsed classification result
    */
@@ -263,7 +263,7 @@ Example response:
   }
 
   /**
-   * Classify a batch of articles using OpenAI
+   * Classify a batch of articles using the LLM
    * @param {Array} articles - Array of articles to classify
    * @returns {Promise<Array>} Array of classified articles
    */
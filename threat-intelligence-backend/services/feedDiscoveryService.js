@@ -0,0 +1,148 @@
+const axios = require('axios');
+const { JSDOM, VirtualConsole } = require('jsdom');
+const logger = require('../utils/logger');
+const feedFetchService = require('./feedFetchService');
+
+// <link rel="alternate"> types that point to a feed
+const FEED_LINK_TYPES = ['application/rss+xml', 'application/atom+xml', 'application/rdf+xml', 'application/xml', 'text/xml'];
+
+class FeedDiscoveryService {
+  constructor() {
+    this.timeout = 15000;
+    this.maxContentLength = 5 * 1024 * 1024;
+    // Items with at least this much text are treated as carrying the full article
+    this.fullContentLength = 500;
+    this.sampleSize = 3;
+  }
+
+  /**
+   * Check a URL entered for a new source. A feed URL is fetched and parsed
+   * directly; for a web page, the feeds it advertises are discovered and the
+   * first one is checked. Nothing is stored.
+   * @param {string} url - Feed or website URL
+   * @returns {Promise<Object>} { valid, feedUrl, discoveredFeeds, preview, error }
+   */
+  async validate(url) {
+    const result = { valid: false, feedUrl: url, discoveredFeeds: [], preview: null, error: null };
+
+    try {
+      const response = await axios.get(url, {
+        timeout: this.timeout,
+        maxContentLength: this.maxContentLength,
+        responseType: 'text',
+        transformResponse: [data => data],
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+          'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9, text/html;q=0.8, */*;q=0.5'
+        }
+      });
+
+      const body = typeof response.data === 'string' ? response.data : String(response.data || '');
+      const contentType = response.headers['content-type'] || '';
+
+      if (!this.isFeedResponse(contentType, body)) {
+        // Resolve relative links against the final URL after redirects
+        const pageUrl = (response.request && response.request.res && response.request.res.responseUrl) || url;
+        result.discoveredFeeds = this.findFeedLinks(body, pageUrl);
+        if (result.discoveredFeeds.length === 0) {
+          result.error = 'No feed found at this URL or linked from the page';
+          return result;
+        }
+        result.feedUrl = result.discoveredFeeds[0].url;
+        result.preview = await this.dryRun(result.feedUrl);
+      } else {
+        result.preview = this.summarize(await feedFetchService.parser.parseString(body));
+      }
+    } catch (error) {
+      logger.warn(`Feed validation failed for ${url}:`, error.message);
+      result.error = error.message;
+      return result;
+    }
+
+    if (result.preview.itemCount === 0) {
+      result.error = 'The feed has no items';
+      return result;
+    }
+
+    result.valid = true;
+    return result;
+  }
+
+  /**
+   * Fetch and parse a feed without storing anything
+   * @param {string} feedUrl - Feed URL
+   * @returns {Promise<Object>} Summary, see summarize()
+   * @throws {Error} If the feed cannot be fetched or parsed
+   */
+  async dryRun(feedUrl) {
+    const { rssData } = await feedFetchService.fetch({ url: feedUrl }, { timeout: this.timeout });
+    return this.summarize(rssData);
+  }
+
+  isFeedResponse(contentType, body) {
+    if (/rss|atom|xml/i.test(contentType) && !/html/i.test(contentType)) {
+      return true;
+    }
+    return /^\s*(<\?xml[^>]*>\s*)?<(rss|feed|rdf:RDF)[\s>]/i.test(body);
+  }
+
+  /**
+   * Feeds advertised by an HTML page with <link rel="alternate">
+   * @returns {Array} { url, title, type }, without duplicates
+   */
+  findFeedLinks(html, pageUrl) {
+    const { document } = new JSDOM(html, { url: pageUrl, virtualConsole: new VirtualConsole() }).window;
+    const feeds = [];
+
+    document.querySelectorAll('link[rel~="alternate"][href]').forEach(link => {
+      const type = (link.getAttribute('type') || '').toLowerCase().split(';')[0].trim();
+      if (!FEED_LINK_TYPES.includes(type)) {
+        return;
+      }
+
+      let url;
+      try {
+        url = new URL(link.getAttribute('href'), pageUrl).href;
+      } catch (error) {
+        return;
+      }
+
+      if (!feeds.some(feed => feed.url === url)) {
+        feeds.push({ url, title: link.getAttribute('title') || document.title || url, type });
+      }
+    });
+
+    return feeds;
+  }
+
+  /**
+   * What a parsed feed would give us: title, item count, newest item and
+   * whether items carry the full article or only a snippet
+   */
+  summarize(rssData) {
+    const items = (rssData && rssData.items) || [];
+
+    const newestItemDate = items.reduce((newest, item) => {
+      const date = item.isoDate ? new Date(item.isoDate) : null;
+      return date && !Number.isNaN(date.getTime()) && (!newest || date > newest) ? date : newest;
+    }, null);
+
+    const fullContentItems = items.filter(item => (item.contentSnippet || '').length >= this.fullContentLength).length;
+
+    return {
+      title: (rssData && rssData.title) || null,
+      description: (rssData && rssData.description) || null,
+      itemCount: items.length,
+      newestItemDate,
+      fullContentItems,
+      hasFullContent: items.length > 0 && fullContentItems >= items.length / 2,
+      sampleItems: items.slice(0, this.sampleSize).map(item => ({
+        title: item.title || 'No Title',
+        link: item.link || null,
+        isoDate: item.isoDate || null
+      }))
+    };
+  }
+}
+
+module.exports = new FeedDiscoveryService();
@@ -0,0 +1,162 @@
+const logger = require('../utils/logger');
+const threatly2DatabaseService = require('./threatly2DatabaseService');
+const { getThreadInfo } = require('../utils/forumThreads');
+
+class ForumThreadService {
+  constructor() {
+    // Earlier posts of a thread sent to GPT along with a new post
+    this.contextPosts = parseInt(process.env.ALERT_THREAD_CONTEXT_POSTS, 10) || 3;
+    this.contextChars = 500;
+  }
+
+  async getCollection() {
+    const db = await threatly2DatabaseService.connect();
+    return db.collection('ForumThreads');
+  }
+
+  /**
+   * Add the thread fields to an article built from a forum feed item.
+   * Articles of other feed types are left as they are.
+   * @param {Object} article - Article document
+   * @param {Object} item - Parsed feed item
+   * @param {Object} feed - Feed document
+   * @returns {Object} The article
+   */
+  annotateArticle(article, item, feed) {
+    if (feed.type !== 'forum') {
+      return article;
+    }
+
+    const thread = getThreadInfo(item, feed);
+    if (thread) {
+      article.threadKey = thread.key;
+      article.threadTitle = thread.title;
+      article.threadUrl = thread.url;
+      article.isReply = thread.isReply;
+    }
+    return article;
+  }
+
+  /**
+   * Add newly stored forum posts to their threads. Replies to a thread that
+   * was already known before these posts are counted as new replies and
+   * flagged on the thread.
+   * @param {Array} articles - Articles that were just inserted
+   * @returns {Promise<Object>} { newThreads, newReplies }
+   */
+  async recordPosts(articles) {
+    const byThread = new Map();
+    articles.filter(article => article.threadKey).forEach(article => {
+      if (!byThread.has(article.threadKey)) {
+        byThread.set(article.threadKey, []);
+      }
+      byThread.get(article.threadKey).push(article);
+    });
+
+    if (byThread.size === 0) {
+      return { newThreads: 0, newReplies: 0 };
+    }
+
+    const collection = await this.getCollection();
+    const existingKeys = new Set(await collection.distinct('key', { key: { $in: Array.from(byThread.keys()) } }));
+    const now = new Date();
+    let newReplies = 0;
+
+    const operations = Array.from(byThread.entries()).map(([key, posts]) => {
+      const replies = posts.filter(post => post.isReply);
+      const times = posts.map(post => new Date(post.isoDate).getTime());
+      const openingPost = posts.find(post => !post.isReply);
+
+      const update = {
+        $setOnInsert: { key, source: posts[0].source, feedUrl: posts[0].feedUrl, createdAt: now },
+        $set: { updatedAt: now },
+        $min: { firstPostAt: new Date(Math.min(...times)) },
+        $max: { lastPostAt: new Date(Math.max(...times)) },
+        $inc: { postCount: posts.length, replyCount: replies.length }
+      };
+
+      // The opening post carries the thread's own title and URL; replies only a derived one
+      if (openingPost) {
+        update.$set.title = openingPost.threadTitle;
+        update.$set.url = openingPost.threadUrl || openingPost.link;
+      } else {
+        update.$setOnInsert.title = posts[0].threadTitle;
+        update.$setOnInsert.url = posts[0].threadUrl;
+      }
+
+      if (existingKeys.has(key) && replies.length > 0) {
+        newReplies += replies.length;
+        update.$set.newReplyCount = replies.length;
+        update.$set.lastNewReplyAt = now;
+      }
+
+      return { updateOne: { filter: { key }, update, upsert: true } };
+    });
+
+    try {
+      await collection.bulkWrite(operations, { ordered: false });
+    } catch (error) {
+      // Two feeds of the same forum can create a thread at once; retry those against the stored thread
+      const writeErrors = error.writeErrors || [];
+      if (writeErrors.length === 0 || writeErrors.some(writeError => writeError.code !== 11000)) {
+        throw error;
+      }
+      await collection.bulkWrite(writeErrors.map(writeError => operations[writeError.index]), { ordered: false });
+    }
+
+    if (newReplies > 0) {
+      logger.info(`${newReplies} new replies on existing forum threads`);
+    }
+    return { newThreads: byThread.size - existingKeys.size, newReplies };
+  }
+
+  /**
+   * Thread context for forum posts sent to GPT: the opening post and the
+   * posts right before each one
+   * @param {Array} articles - Articles of a GPT batch
+   * @returns {Promise<Map>} Article ID -> context text, for forum posts with earlier posts only
+   */
+  async getThreadContexts(articles) {
+    const contexts = new Map();
+    const posts = articles.filter(article => article.threadKey);
+    if (posts.length === 0) {
+      return contexts;
+    }
+
+    const db = await threatly2DatabaseService.connect();
+    const projection = { title: 1, content: 1, creator: 1, author: 1, isReply: 1, isoDate: 1 };
+
+    for (const post of posts) {
+      const earlierPosts = await db.collection('Articles')
+        .find({ threadKey: post.threadKey, isoDate: { $lte: post.isoDate }, _id: { $ne: post._id } }, { projection })
+        .sort({ isoDate: -1 })
+        .limit(this.contextPosts)
+        .toArray();
+
+      if (post.isReply && !earlierPosts.some(earlier => !earlier.isReply)) {
+        const openingPost = await db.collection('Articles')
+          .findOne({ threadKey: post.threadKey, isReply: false }, { projection, sort: { isoDate: 1 } });
+        if (openingPost) {
+          earlierPosts.push(openingPost);
+        }
+      }
+
+      if (earlierPosts.length > 0) {
+        contexts.set(post._id.toString(), this.formatContext(earlierPosts.reverse()));
+      }
+    }
+
+    return contexts;
+  }
+
+  formatContext(posts) {
+    return posts.map(post => {
+      const text = post.content || '';
+      const excerpt = text.length > this.contextChars ? `${text.substring(0, this.contextChars)}...` : text;
+      const author = post.creator || post.author;
+      return `- ${post.isReply ? 'Reply' : 'Opening post'}${author ? ` by ${author}` : ''}: ${post.title || ''}\n  ${excerpt}`;
+    }).join('\n');
+  }
+}
+
+module.exports = new ForumThreadService();
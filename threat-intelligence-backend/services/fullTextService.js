@@ -0,0 +1,107 @@
+const axios = require('axios');
+const { JSDOM, VirtualConsole } = require('jsdom');
+const { Readability } = require('@mozilla/readability');
+const logger = require('../utils/logger');
+
+// Block-level elements that start a new paragraph in the extracted text
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, pre, blockquote, td, th, figcaption';
+
+class FullTextService {
+  constructor() {
+    this.timeout = 15000;
+    this.maxContentLength = 5 * 1024 * 1024;
+    // Page text shorter than this is treated as a failed extraction (paywall, cookie wall, ...)
+    this.minTextLength = 200;
+  }
+
+  /**
+   * Download an article page and extract its main content
+   * @param {string} url - Article URL
+   * @returns {Promise<Object>} { title, text, length }
+   * @throws {Error} If the page cannot be fetched or has no readable content
+   */
+  async extract(url) {
+    const response = await axios.get(url, {
+      timeout: this.timeout,
+      maxContentLength: this.maxContentLength,
+      responseType: 'text',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Accept': 'text/html,application/xhtml+xml'
+      }
+    });
+
+    const contentType = response.headers['content-type'] || '';
+    if (contentType && !contentType.includes('html')) {
+      throw new Error(`Unsupported content type: ${contentType}`);
+    }
+
+    // Silence CSS and script errors from the page; scripts are never run
+    const dom = new JSDOM(response.data, { url, virtualConsole: new VirtualConsole() });
+    try {
+      const parsed = new Readability(dom.window.document).parse();
+      if (!parsed || !parsed.content) {
+        throw new Error('No readable content found');
+      }
+
+      const text = this.toText(parsed.content, url);
+      if (text.length < this.minTextLength) {
+        throw new Error(`Extracted text too short (${text.length} characters)`);
+      }
+
+      return { title: parsed.title || '', text, length: text.length };
+    } finally {
+      dom.window.close();
+    }
+  }
+
+  /**
+   * Convert extracted HTML to plain text, keeping one paragraph per block
+   */
+  toText(html, url) {
+    const dom = new JSDOM(html, { url });
+    try {
+      const blocks = [...dom.window.document.querySelectorAll(BLOCK_SELECTOR)]
+        // Nested blocks (e.g. p inside li) are covered by their parent
+        .filter(element => !element.parentElement.closest(BLOCK_SELECTOR))
+        .map(element => element.textContent.replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+
+      const text = blocks.length > 0
+        ? blocks.join('\n\n')
+        : dom.window.document.body.textContent.replace(/\s+/g, ' ').trim();
+      return text;
+    } finally {
+      dom.window.close();
+    }
+  }
+
+  /**
+   * Fetch the full text for a new article of a feed with fetchFullText enabled.
+   * Never throws; failures are recorded on the article instead.
+   * @param {Object} article - Article about to be inserted
+   * @returns {Promise<Object>} Fields to merge into the article
+   */
+  async getArticleFields(article) {
+    try {
+      const { text } = await this.extract(article.link);
+      logger.info(`Extracted full text for ${article.link} (${text.length} characters)`);
+      return {
+        fullText: text,
+        fullTextFetchedAt: new Date(),
+        fullTextError: null
+      };
+    } catch (error) {
+      const message = error.response ? `HTTP ${error.response.status}` : error.message;
+      logger.warn(`Full text extraction failed for ${article.link}: ${message}`);
+      return {
+        fullTextError: {
+          message,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+}
+
+module.exports = new FullTextService();
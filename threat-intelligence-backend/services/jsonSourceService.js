@@ -0,0 +1,297 @@
+const crypto = require('crypto');
+const axios = require('axios');
+const { JSONPath } = require('jsonpath-plus');
+const logger = require('../utils/logger');
+
+const PAGINATION_TYPES = ['none', 'page', 'offset', 'cursor', 'nextUrl', 'linkHeader'];
+// Query parameter each pagination type sets by default
+const DEFAULT_PAGE_PARAMS = { page: 'page', offset: 'offset', cursor: 'cursor' };
+
+class JsonSourceService {
+  constructor() {
+    this.timeout = 15000;
+    this.maxContentLength = 10 * 1024 * 1024;
+    this.snippetLength = 1000;
+    // Upper bound for jsonApi.maxPages
+    this.maxPages = 20;
+  }
+
+  /**
+   * Check and clean up a JSON API source config from the API
+   * @param {Object} config - { itemsPath, titlePath, linkPath, datePath, contentPath, idPath, linkTemplate, maxPages, pagination, authHeader }
+   * @param {Object} existing - Stored config; its auth header value is kept when none is sent
+   * @returns {Object} Normalized config
+   * @throws {Error} If a required path is missing or a setting is invalid
+   */
+  normalizeConfig(config, existing = null) {
+    if (!config || typeof config !== 'object') {
+      throw new Error('JSON API settings are required');
+    }
+
+    const normalized = { maxPages: Math.min(Math.max(parseInt(config.maxPages, 10) || 1, 1), this.maxPages) };
+    for (const key of ['itemsPath', 'titlePath', 'linkPath', 'datePath', 'contentPath', 'idPath', 'linkTemplate']) {
+      normalized[key] = typeof config[key] === 'string' ? config[key].trim() : '';
+    }
+
+    if (!normalized.itemsPath || !normalized.titlePath) {
+      throw new Error('Items and title paths are required');
+    }
+    if (!normalized.linkPath && !normalized.idPath) {
+      throw new Error('A link path or an ID path is required');
+    }
+    if (normalized.linkTemplate && !normalized.linkTemplate.includes('{id}')) {
+      throw new Error('The link template must contain {id}');
+    }
+
+    const pagination = config.pagination || {};
+    const type = pagination.type || 'none';
+    if (!PAGINATION_TYPES.includes(type)) {
+      throw new Error(`Pagination type must be one of: ${PAGINATION_TYPES.join(', ')}`);
+    }
+    normalized.pagination = { type };
+    if (DEFAULT_PAGE_PARAMS[type]) {
+      normalized.pagination.param = (typeof pagination.param === 'string' && pagination.param.trim()) || DEFAULT_PAGE_PARAMS[type];
+    }
+    if (type === 'page') {
+      normalized.pagination.start = parseInt(pagination.start, 10) || 1;
+    }
+    if (type === 'cursor' || type === 'nextUrl') {
+      const path = typeof pagination.path === 'string' ? pagination.path.trim() : '';
+      if (!path) {
+        throw new Error(`Pagination type ${type} needs the path of the ${type === 'cursor' ? 'next cursor' : 'next page URL'}`);
+      }
+      normalized.pagination.path = path;
+    }
+
+    const authHeader = config.authHeader || {};
+    const headerName = typeof authHeader.name === 'string' ? authHeader.name.trim() : '';
+    if (headerName) {
+      if (!/^[A-Za-z0-9-]+$/.test(headerName)) {
+        throw new Error('Invalid auth header name');
+      }
+      let value = typeof authHeader.value === 'string' ? authHeader.value : '';
+      // The API never returns the stored value, so an empty value means "unchanged"
+      if (!value && existing && existing.authHeader && existing.authHeader.name === headerName) {
+        value = existing.authHeader.value;
+      }
+      if (!value) {
+        throw new Error('The auth header needs a value');
+      }
+      normalized.authHeader = { name: headerName, value };
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Config as returned by the API, without the auth header value
+   */
+  toPublicConfig(config) {
+    if (!config) {
+      return null;
+    }
+    const { authHeader, ...rest } = config;
+    return {
+      ...rest,
+      authHeader: authHeader ? { name: authHeader.name, hasValue: Boolean(authHeader.value) } : null
+    };
+  }
+
+  /**
+   * Fetch a JSON API source and return the result in the shape of
+   * feedFetchService.fetch, with items in the format rss-parser produces.
+   * A hash of the mapped items marks unchanged responses.
+   * @param {Object} feed - Feed document with url and jsonApi config
+   * @param {Object} options - { timeout (ms), signal (AbortSignal) }
+   * @returns {Promise<Object>} { status, bytesDownloaded, bytesSaved, fetchState, rssData }
+   * @throws {Error} If a page cannot be fetched or is not JSON
+   */
+  async fetch(feed, { timeout = this.timeout, signal } = {}) {
+    const { items, bytesDownloaded } = await this.fetchItems(feed.url, feed.jsonApi, { timeout, signal });
+
+    const fetchState = {
+      etag: null,
+      lastModified: null,
+      contentHash: crypto.createHash('sha256').update(JSON.stringify(items)).digest('hex'),
+      contentLength: bytesDownloaded
+    };
+
+    if (feed.contentHash && feed.contentHash === fetchState.contentHash) {
+      logger.info(`JSON API content unchanged: ${feed.url}`);
+      return { status: 'unchanged', bytesDownloaded, bytesSaved: 0, fetchState };
+    }
+
+    return {
+      status: 'modified',
+      bytesDownloaded,
+      bytesSaved: 0,
+      fetchState,
+      rssData: { title: feed.name, items }
+    };
+  }
+
+  /**
+   * Fetch the document (and following pages) and map its items
+   * @param {string} url - API URL of the first page
+   * @param {Object} config - Normalized config
+   * @returns {Promise<Object>} { items, pages: [{ url, itemCount }], bytesDownloaded }
+   */
+  async fetchItems(url, config, { timeout = this.timeout, signal } = {}) {
+    const pagination = config.pagination || { type: 'none' };
+    const maxPages = pagination.type === 'none' ? 1 : Math.min(Math.max(parseInt(config.maxPages, 10) || 1, 1), this.maxPages);
+    const headers = { 'Accept': 'application/json' };
+    if (config.authHeader && config.authHeader.name) {
+      headers[config.authHeader.name] = config.authHeader.value;
+    }
+
+    const items = [];
+    const pages = [];
+    const seenLinks = new Set();
+    let bytesDownloaded = 0;
+    let pageUrl = pagination.type === 'page' ? this.withParam(url, pagination.param, pagination.start) : url;
+    let offset = 0;
+
+    while (pageUrl && pages.length < maxPages) {
+      const response = await axios.get(pageUrl, {
+        timeout,
+        signal,
+        maxContentLength: this.maxContentLength,
+        responseType: 'text',
+        transformResponse: [data => data],
+        headers
+      });
+      const body = typeof response.data === 'string' ? response.data : String(response.data || '');
+      bytesDownloaded += Buffer.byteLength(body);
+
+      let document;
+      try {
+        document = JSON.parse(body);
+      } catch (error) {
+        throw new Error(`Response from ${pageUrl} is not valid JSON`);
+      }
+
+      const rawItems = this.query(config.itemsPath, document);
+      const pageItems = rawItems.map(raw => this.mapItem(raw, config, url)).filter(item => {
+        if (!item || seenLinks.has(item.link)) {
+          return false;
+        }
+        seenLinks.add(item.link);
+        return true;
+      });
+
+      items.push(...pageItems);
+      pages.push({ url: pageUrl, itemCount: pageItems.length });
+
+      if (rawItems.length === 0) {
+        break;
+      }
+      offset += rawItems.length;
+      pageUrl = this.getNextPageUrl(pageUrl, pagination, { document, headers: response.headers, page: pages.length, offset });
+      if (pageUrl && pages.some(page => page.url === pageUrl)) {
+        break;
+      }
+    }
+
+    return { items, pages, bytesDownloaded };
+  }
+
+  getNextPageUrl(pageUrl, pagination, { document, headers, page, offset }) {
+    switch (pagination.type) {
+      case 'page':
+        return this.withParam(pageUrl, pagination.param, pagination.start + page);
+      case 'offset':
+        return this.withParam(pageUrl, pagination.param, offset);
+      case 'cursor': {
+        const cursor = this.queryValue(pagination.path, document);
+        return cursor === null || cursor === '' ? null : this.withParam(pageUrl, pagination.param, cursor);
+      }
+      case 'nextUrl': {
+        const next = this.queryValue(pagination.path, document);
+        return typeof next === 'string' && next ? new URL(next, pageUrl).href : null;
+      }
+      case 'linkHeader': {
+        // Link: <https://api.example.com/items?page=2>; rel="next"
+        const match = (headers.link || '').match(/<([^>]+)>\s*;\s*rel="?next"?/);
+        return match ? new URL(match[1], pageUrl).href : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Map one API item to a feed item, or null without a title or link.
+   * Paths are evaluated relative to the item.
+   */
+  mapItem(raw, config, sourceUrl) {
+    const title = this.toText(this.queryValue(config.titlePath, raw));
+    const id = config.idPath ? this.toText(this.queryValue(config.idPath, raw)) : '';
+
+    let link = config.linkPath ? this.toText(this.queryValue(config.linkPath, raw)) : '';
+    if (!link && id) {
+      // Items without a URL of their own, e.g. CISA KEV entries keyed by CVE ID
+      link = config.linkTemplate ? config.linkTemplate.replace(/\{id\}/g, encodeURIComponent(id)) : `${sourceUrl}#${encodeURIComponent(id)}`;
+    }
+
+    if (!title || !link) {
+      return null;
+    }
+
+    const item = { title, link, guid: id || link };
+
+    const date = config.datePath ? this.toDate(this.queryValue(config.datePath, raw)) : null;
+    if (date) {
+      item.isoDate = date.toISOString();
+      item.pubDate = date.toUTCString();
+    }
+
+    const content = config.contentPath ? this.toText(this.queryValue(config.contentPath, raw)) : '';
+    if (content) {
+      item.content = content;
+      item.contentSnippet = content.slice(0, this.snippetLength);
+    }
+
+    return item;
+  }
+
+  query(path, json) {
+    const result = JSONPath({ path, json, wrap: true });
+    // A path to an array returns the array itself as the single result
+    return result.length === 1 && Array.isArray(result[0]) ? result[0] : result;
+  }
+
+  queryValue(path, json) {
+    const result = JSONPath({ path, json, wrap: true });
+    return result.length > 0 && result[0] !== undefined ? result[0] : null;
+  }
+
+  toText(value) {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (Array.isArray(value)) {
+      return value.map(entry => this.toText(entry)).filter(Boolean).join(', ');
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value).trim();
+  }
+
+  toDate(value) {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+    // Epoch timestamps in seconds or milliseconds
+    const date = typeof value === 'number' ? new Date(value < 1e12 ? value * 1000 : value) : new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  withParam(url, name, value) {
+    const next = new URL(url);
+    next.searchParams.set(name, String(value));
+    return next.href;
+  }
+}
+
+module.exports = new JsonSourceService();
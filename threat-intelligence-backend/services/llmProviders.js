@@ -0,0 +1,163 @@
+const axios = require('axios');
+const OpenAI = require('openai');
+
+/**
+ * LLM providers behind llmService. A provider completes a chat:
+ *   complete({ model, messages, temperature, maxTokens, responseFormat })
+ *     => Promise<{ content, usage: { prompt_tokens, completion_tokens, total_tokens } }>
+ * messages use the OpenAI roles (system, user, assistant). Usage keeps the
+ * OpenAI field names, which the workflow run records already use.
+ * Providers with supportsStructuredOutput() take responseFormat, a
+ * { name, schema } JSON schema the answer must follow; content is then that
+ * JSON as text.
+ */
+
+// Chat completion against the OpenAI API or a server that implements it
+async function completeOpenAIChat(client, { model, messages, temperature, maxTokens, responseFormat }) {
+  const response = await client.chat.completions.create({
+    model,
+    messages,
+    temperature,
+    max_tokens: maxTokens,
+    ...(responseFormat
+      ? { response_format: { type: 'json_schema', json_schema: { name: responseFormat.name, schema: responseFormat.schema, strict: true } } }
+      : {})
+  });
+
+  return {
+    content: response.choices[0].message.content || '',
+    usage: response.usage || null
+  };
+}
+
+// Clients are created on first use, so a missing key only fails the provider that needs it
+let openAIClient = null;
+let localClient = null;
+
+const openAIProvider = {
+  label: 'OpenAI',
+  defaultModel: () => process.env.OPENAI_MODEL || 'gpt-4.1-nano',
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  supportsStructuredOutput: () => true,
+  async complete(request) {
+    if (!openAIClient) {
+      openAIClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return completeOpenAIChat(openAIClient, request);
+  }
+};
+
+const anthropicProvider = {
+  label: 'Anthropic',
+  defaultModel: () => process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest',
+  isConfigured: () => Boolean(process.env.ANTHROPIC_API_KEY),
+  supportsStructuredOutput: () => true,
+  async complete({ model, messages, temperature, maxTokens, responseFormat }) {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error('ANTHROPIC_API_KEY is not set');
+    }
+
+    // The Messages API takes the system prompt separately
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    const response = await axios.post('https://api.anthropic.com/v1/messages', {
+      model,
+      max_tokens: maxTokens,
+      temperature,
+      ...(system ? { system } : {}),
+      messages: messages.filter(message => message.role !== 'system'),
+      // Structured output is a tool the model is made to call with the answer
+      ...(responseFormat
+        ? {
+          tools: [{ name: responseFormat.name, description: 'Record the answer', input_schema: responseFormat.schema }],
+          tool_choice: { type: 'tool', name: responseFormat.name }
+        }
+        : {})
+    }, {
+      headers: {
+        'x-api-key': process.env.ANTHROPIC_API_KEY,
+        'anthropic-version': '2023-06-01'
+      },
+      timeout: 120000
+    });
+
+    const { content = [], usage } = response.data;
+    const toolUse = responseFormat && content.find(block => block.type === 'tool_use');
+    return {
+      content: toolUse
+        ? JSON.stringify(toolUse.input)
+        : content.filter(block => block.type === 'text').map(block => block.text).join(''),
+      usage: usage
+        ? {
+          prompt_tokens: usage.input_tokens || 0,
+          completion_tokens: usage.output_tokens || 0,
+          total_tokens: (usage.input_tokens || 0) + (usage.output_tokens || 0)
+        }
+        : null
+    };
+  }
+};
+
+// OpenAI-compatible server on the local network: Ollama, llama.cpp, vLLM, LM Studio
+const localProvider = {
+  label: 'Local (OpenAI-compatible)',
+  defaultModel: () => process.env.LLM_LOCAL_MODEL || 'llama3.1',
+  // Defaults to Ollama on this host
+  isConfigured: () => true,
+  // Ollama, vLLM and llama.cpp accept json_schema; servers that do not can turn it off
+  supportsStructuredOutput: () => process.env.LLM_LOCAL_STRUCTURED_OUTPUT !== 'false',
+  async complete(request) {
+    if (!localClient) {
+      localClient = new OpenAI({
+        baseURL: process.env.LLM_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+        // Most local servers ignore the key, but the client requires one
+        apiKey: process.env.LLM_LOCAL_API_KEY || 'local'
+      });
+    }
+    return completeOpenAIChat(localClient, request);
+  }
+};
+
+// Deterministic provider for tests and development without an API. Answers
+// the alert prompt with a neutral result for every "Article ID:" line
+// (wrapped in { results } when a responseFormat asks for it) and any other
+// prompt with an empty keyword classification, unless a test sets
+// respond(request) => content. Requests are kept in calls.
+const fakeProvider = {
+  label: 'Fake (tests)',
+  defaultModel: () => 'fake',
+  isConfigured: () => true,
+  supportsStructuredOutput: () => true,
+  calls: [],
+  respond: null,
+  async complete(request) {
+    this.calls.push(request);
+    const prompt = request.messages.map(message => message.content).join('\n');
+    let content;
+    if (this.respond) {
+      content = await this.respond(request);
+    } else {
+      const ids = [...prompt.matchAll(/^Article ID: (\S+)/gm)].map(match => match[1]);
+      if (ids.length > 0) {
+        const results = ids.map(id => ({ id, threatLevel: 'NONE', threatType: 'other', industries: [], alertMatches: [], isSpam: false }));
+        content = JSON.stringify(request.responseFormat ? { results } : results);
+      } else {
+        content = JSON.stringify({ industries: ['Other'], matchedKeywords: [] });
+      }
+    }
+
+    // Roughly four characters per token
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return {
+      content,
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+    };
+  }
+};
+
+module.exports = {
+  openai: openAIProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+  fake: fakeProvider
+};
@@ -0,0 +1,80 @@
+const logger = require('../utils/logger');
+const builtInProviders = require('./llmProviders');
+
+/**
+ * Single entry point for LLM calls. The provider and model come from the
+ * active prompt (llmProvider, llmModel) when it sets them, otherwise from
+ * LLM_PROVIDER and the provider's default model.
+ */
+class LLMService {
+  constructor() {
+    this.providers = new Map(Object.entries(builtInProviders));
+    this.defaultProvider = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+  }
+
+  /**
+   * Add or replace a provider
+   * @param {string} name - Value of LLM_PROVIDER or Prompt.llmProvider that selects it
+   * @param {Object} provider - { label, defaultModel(), isConfigured(), supportsStructuredOutput(), complete(request) }
+   */
+  registerProvider(name, provider) {
+    this.providers.set(name.toLowerCase(), provider);
+  }
+
+  hasProvider(name) {
+    return this.providers.has(String(name).toLowerCase());
+  }
+
+  /**
+   * Providers for the prompt settings
+   * @returns {Array} [{ name, label, defaultModel, configured, isDefault }]
+   */
+  listProviders() {
+    return Array.from(this.providers.entries()).map(([name, provider]) => ({
+      name,
+      label: provider.label || name,
+      defaultModel: provider.defaultModel(),
+      configured: provider.isConfigured(),
+      isDefault: name === this.defaultProvider
+    }));
+  }
+
+  /**
+   * Provider and model for a prompt
+   * @param {Object|null} prompt - Prompt document with optional llmProvider and llmModel
+   * @returns {Object} { provider, model }
+   */
+  resolve(prompt) {
+    const provider = (prompt && prompt.llmProvider) || this.defaultProvider;
+    if (!this.hasProvider(provider)) {
+      throw new Error(`Unknown LLM provider: ${provider}`);
+    }
+    // A model only applies to the provider it was chosen for
+    const model = (prompt && prompt.llmProvider && prompt.llmModel) || this.providers.get(provider).defaultModel();
+    return { provider, model };
+  }
+
+  /**
+   * Run a chat completion
+   * @param {Object} request - { prompt, messages, temperature, maxTokens, responseFormat }; prompt selects
+   *   provider and model, responseFormat ({ name, schema }) is used if the provider supports structured output
+   * @returns {Promise<Object>} { content, usage, provider, model, structured }
+   */
+  async complete({ prompt = null, messages, temperature = 0.1, maxTokens = 1000, responseFormat = null }) {
+    const { provider, model } = this.resolve(prompt);
+    const selected = this.providers.get(provider);
+    const structured = Boolean(responseFormat && selected.supportsStructuredOutput && selected.supportsStructuredOutput());
+    logger.debug(`LLM request to ${provider} (${model})${structured ? ' with structured output' : ''}`);
+
+    const result = await selected.complete({
+      model,
+      messages,
+      temperature,
+      maxTokens,
+      ...(structured ? { responseFormat } : {})
+    });
+    return { ...result, provider, model, structured };
+  }
+}
+
+module.exports = new LLMService();
@@ -0,0 +1,128 @@
+const { ObjectId } = require('mongodb');
+const logger = require('../utils/logger');
+const threatly2DatabaseService = require('./threatly2DatabaseService');
+const { buildArticleFilter } = require('../utils/articleQuery');
+
+// FilterBar dimensions that can be stored with a saved search
+const SAVED_FILTER_FIELDS = ['industry', 'severity', 'type', 'source', 'timeFilter', 'sortBy', 'threatLevel', 'threatType', 'language'];
+
+class SavedSearchService {
+  /**
+   * Keep only known filter fields with string values
+   * @param {Object} filters - Filters sent by the client
+   * @returns {Object} Sanitized filters
+   */
+  sanitizeFilters(filters = {}) {
+    const sanitized = {};
+    SAVED_FILTER_FIELDS.forEach(field => {
+      if (typeof filters[field] === 'string' && filters[field] !== '') {
+        sanitized[field] = filters[field];
+      }
+    });
+    return sanitized;
+  }
+
+  /**
+   * Build the Articles filter for a saved search
+   * @param {Object} savedSearch - Saved search document
+   * @returns {Promise<Object>} Mongo filter
+   */
+  async buildFilter(savedSearch) {
+    return await buildArticleFilter({
+      ...savedSearch.filters,
+      search: savedSearch.query || ''
+    });
+  }
+
+  /**
+   * Get the saved search matches for a user, keyed by article ID
+   * @param {ObjectId|string} userId - User ID
+   * @returns {Promise<Object>} Map of article ID to [{ _id, name }]
+   */
+  async getUserMatches(userId) {
+    const db = await threatly2DatabaseService.connect();
+    const matches = await db.collection('SavedSearchMatches')
+      .find({ userId: new ObjectId(userId) })
+      .toArray();
+
+    if (matches.length === 0) {
+      return {};
+    }
+
+    const searchIds = [...new Set(matches.map(match => match.savedSearchId.toString()))];
+    const searches = await db.collection('SavedSearches')
+      .find({ _id: { $in: searchIds.map(id => new ObjectId(id)) } }, { projection: { name: 1 } })
+      .toArray();
+    const searchNames = {};
+    searches.forEach(search => {
+      searchNames[search._id.toString()] = search.name;
+    });
+
+    const matchMap = {};
+    matches.forEach(match => {
+      const name = searchNames[match.savedSearchId.toString()];
+      if (!name) {
+        return;
+      }
+      const articleId = match.articleId.toString();
+      matchMap[articleId] = matchMap[articleId] || [];
+      matchMap[articleId].push({ _id: match.savedSearchId, name });
+    });
+    return matchMap;
+  }
+
+  /**
+   * Match newly ingested articles against every subscribed saved search
+   * @param {Date} since - Articles processed at or after this time are considered new
+   * @returns {Promise<Object>} { searches, matches }
+   */
+  async evaluateNewArticles(since) {
+    const db = await threatly2DatabaseService.connect();
+    const searches = await db.collection('SavedSearches').find({ subscribed: true }).toArray();
+    let totalMatches = 0;
+
+    for (const search of searches) {
+      try {
+        const filter = {
+          $and: [
+            await this.buildFilter(search),
+            { processedAt: { $gte: since } }
+          ]
+        };
+        const articleIds = await db.collection('Articles').distinct('_id', filter);
+
+        if (articleIds.length === 0) {
+          continue;
+        }
+
+        const now = new Date();
+        const result = await db.collection('SavedSearchMatches').bulkWrite(
+          articleIds.map(articleId => ({
+            updateOne: {
+              filter: { savedSearchId: search._id, articleId },
+              update: { $setOnInsert: { userId: search.userId, matchedAt: now } },
+              upsert: true
+            }
+          })),
+          { ordered: false }
+        );
+
+        if (result.upsertedCount > 0) {
+          await db.collection('SavedSearches').updateOne(
+            { _id: search._id },
+            { $set: { lastMatchedAt: now }, $inc: { matchCount: result.upsertedCount } }
+          );
+        }
+
+        totalMatches += result.upsertedCount;
+        logger.info(`Saved search "${search.name}" matched ${result.upsertedCount} new articles`);
+      } catch (error) {
+        logger.error(`Error evaluating saved search ${search._id}:`, error);
+      }
+    }
+
+    return { searches: searches.length, matches: totalMatches };
+  }
+}
+
+module.exports = new SavedSearchService();
@@ -1,218 +1,545 @@
+const cron = require('node-cron');
 const logger = require('../utils/logger');
 const threatly2DatabaseService = require('./threatly2DatabaseService');
 const classificationService = require('./classificationService');
 const gptAlertService = require('../gpt-alert-service');
+const savedSearchService = require('./savedSearchService');
+const fullTextService = require('./fullTextService');
+const feedFetchService = require('./feedFetchService');
+const workflowRunService = require('./workflowRunService');
+const workflowLockService = require('./workflowLockService');
+const forumThreadService = require('./forumThreadService');
+const storyService = require('./storyService');
+const articleRevisionService = require('./articleRevisionService');
+const translationService = require('./translationService');
+const { buildSuccessSchedule, buildFailureSchedule } = require('../utils/feedSchedule');
+const { canonicalizeUrl } = require('../utils/canonicalUrl');
+const { detectLanguage } = require('../utils/languageDetection');
+const {
+  FEED_FETCH_CONCURRENCY,
+  FEED_FETCH_PER_HOST,
+  FEED_FETCH_TIMEOUT_MS,
+  FEED_RUN_DEADLINE_MS,
+  getHost,
+  runFeedPool
+} = require('../utils/feedWorkerPool');
+
+// How often the scheduler checks for feeds whose nextFetchAt has passed
+const DEFAULT_SCHEDULE = process.env.SCHEDULER_CRON || '* * * * *';
 
 class Scheduler {
   constructor() {
     this.isRunning = false;
     this.jobs = [];
+    this.schedule = DEFAULT_SCHEDULE;
+    this.task = null;
+    this.workflowInProgress = false;
+    this.lastTickAt = null;
+    this.lastRunAt = null;
   }
 
   start() {
     this.isRunning = true;
-    logger.info('Scheduler started');
+    this.task = cron.schedule(this.schedule, () => {
+      this.runDueFeeds().catch(error => {
+        logger.error('Error in scheduled workflow execution:', error);
+      });
+    });
+    logger.info(`Scheduler started (${this.schedule})`);
   }
 
   stop() {
     this.isRunning = false;
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+    }
     logger.info('Scheduler stopped');
   }
 
-  async runNow() {
+  /**
+   * Change how often due feeds are checked
+   * @param {string} schedule - Cron expression
+   * @throws {Error} If the expression is invalid
+   */
+  updateSchedule(schedule) {
+    if (!cron.validate(schedule)) {
+      throw new Error(`Invalid cron expression: ${schedule}`);
+    }
+
+    this.schedule = schedule;
+    if (this.isRunning) {
+      this.stop();
+      this.start();
+    }
+    logger.info(`Scheduler schedule updated to: ${schedule}`);
+  }
+
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      schedule: this.schedule,
+      workflowInProgress: this.workflowInProgress,
+      lastTickAt: this.lastTickAt,
+      lastRunAt: this.lastRunAt,
+      jobs: this.jobs.length
+    };
+  }
+
+  /**
+   * Fetch every active feed, regardless of its schedule
+   * @param {string} trigger - 'manual' or 'startup', recorded on the workflow run
+   */
+  async runNow(trigger = 'manual') {
+    return this.runWorkflow(() => threatly2DatabaseService.getActiveFeeds(), { trigger });
+  }
+
+  /**
+   * Fetch the active feeds that are due according to their own schedule
+   */
+  async runDueFeeds() {
+    this.lastTickAt = new Date();
+    return this.runWorkflow(() => threatly2DatabaseService.getDueFeeds(this.lastTickAt), { trigger: 'cron', quiet: true });
+  }
+
+  async runWorkflow(loadFeeds, { trigger, quiet = false } = {}) {
     if (!this.isRunning) {
       logger.info('Scheduler is not running, skipping workflow execution');
       return;
     }
+
+    if (this.workflowInProgress) {
+      logger.info('RSS workflow already in progress, skipping');
+      return;
+    }
     
-    logger.info('Running RSS workflow...');
+    this.workflowInProgress = true;
+    let run = null;
+    let lock = null;
     
     try {
-      // Get all active feeds from threatly2 database
-      const feeds = await threatly2DatabaseService.getActiveFeeds();
-      logger.info(`Found ${feeds.length} active feeds to process`);
+      // Only one ingestion workflow at a time across all server instances, and none during a single-source run
+      lock = await workflowLockService.acquireIngestion();
+      if (!lock) {
+        logger.info('RSS workflow or a single-source run already in progress, skipping');
+        return;
+      }
+
+      const feeds = await loadFeeds();
 
       if (feeds.length === 0) {
-        logger.warn('No active feeds found in database');
+        if (!quiet) {
+          logger.warn('No active feeds found in database');
+        }
         return;
       }
 
+      logger.info(`Running RSS workflow (${trigger}) for ${feeds.length} feeds...`);
+      run = await workflowRunService.start(trigger);
+      if (run._id) {
+        await workflowLockService.setRunId(lock, run._id);
+      }
+      const runStartedAt = run.startTime;
+      this.lastRunAt = runStartedAt;
+      const isCancelled = () => lock.cancelRequested;
+
+      // Aborts requests still in flight once the run deadline has passed
+      const deadline = runStartedAt.getTime() + FEED_RUN_DEADLINE_MS;
+      const abortController = new AbortController();
+      const deadlineTimer = setTimeout(() => abortController.abort(), FEED_RUN_DEADLINE_MS);
+
+      let poolResults;
+      try {
+        poolResults = await runFeedPool(
+          feeds,
+          feed => this.processFeed(feed, abortController.signal),
+          { concurrency: FEED_FETCH_CONCURRENCY, perHostConcurrency: FEED_FETCH_PER_HOST, deadline, shouldStop: isCancelled }
+        );
+      } finally {
+        clearTimeout(deadlineTimer);
+      }
+
+      const fetchStats = {
+        successfulFeeds: 0,
+        failedFeeds: 0,
+        skippedFeeds: 0,
+        notModifiedFeeds: 0,
+        totalArticlesFetched: 0,
+        duplicates: 0,
+        newReplies: 0,
+        updatedArticles: 0,
+        bytesDownloaded: 0,
+        bytesSaved: 0
+      };
       let totalNewArticles = 0;
+      const feedResults = [];
 
-      // Process each feed
-      for (const feed of feeds) {
-        try {
-          logger.info(`Processing feed: ${feed.name} (${feed.url})`);
-          
-          // Fetch RSS feed
-          const rssData = await this.fetchRSSFeed(feed.url);
-          
-          if (rssData && rssData.items && rssData.items.length > 0) {
-            logger.info(`Fetched ${rssData.items.length} articles from ${feed.name}`);
-            
-            let feedNewArticles = 0;
-            let latestArticleDate = null;
-            
-            // Process each article
-            for (const item of rssData.items) {
-              const isNew = await this.processArticle(item, feed);
-              if (isNew) {
-                totalNewArticles++;
-                feedNewArticles++;
-              }
-              
-              // Track the latest article date for this feed (regardless of whether it's new)
-              const articleDate = item.isoDate ? new Date(item.isoDate) : new Date();
-              if (!latestArticleDate || articleDate > latestArticleDate) {
-                latestArticleDate = articleDate;
-              }
-            }
-            
-            // Always update feed's lastFetch with the latest article date found
-            // This ensures lastFetch is current even if no new articles were processed
-            if (latestArticleDate) {
-              await threatly2DatabaseService.updateFeedLastFetch(feed._id, latestArticleDate.toISOString());
-              logger.info(`Updated feed ${feed.name} lastFetch to: ${latestArticleDate}`);
-            }
-            
-            // Clear error if successful
-            await threatly2DatabaseService.clearFeedError(feed._id);
-            logger.info(`Successfully processed ${feed.name}: ${feedNewArticles} new articles`);
-            
-          } else {
-            logger.warn(`No articles found in feed: ${feed.name}`);
-            
-            // Even if no new articles found, try to update lastFetch from existing articles
-            try {
-              const existingArticles = await threatly2DatabaseService.getArticlesBySource(feed.name);
-              if (existingArticles.length > 0) {
-                // Find the newest existing article date
-                const newestExistingArticle = existingArticles.reduce((newest, article) => {
-                  const articleDate = new Date(article.isoDate);
-                  return (!newest || articleDate > newest) ? articleDate : newest;
-                }, null);
-                
-                if (newestExistingArticle) {
-                  await threatly2DatabaseService.updateFeedLastFetch(feed._id, newestExistingArticle.toISOString());
-                  logger.info(`Updated feed ${feed.name} lastFetch to existing article date: ${newestExistingArticle}`);
-                }
-              }
-            } catch (error) {
-              logger.warn(`Could not update lastFetch for feed ${feed.name} from existing articles:`, error.message);
-            }
-            
-            await threatly2DatabaseService.updateFeedError(feed._id, 'No articles found');
-          }
-          
-        } catch (error) {
-          logger.error(`Error processing feed ${feed.name}:`, error.message);
-          await threatly2DatabaseService.updateFeedError(feed._id, error.message);
+      for (const { feed, value, error, skipped } of poolResults) {
+        if (skipped) {
+          fetchStats.skippedFeeds++;
+          feedResults.push({
+            feedId: feed._id,
+            feedName: feed.name,
+            feedUrl: feed.url,
+            host: getHost(feed.url),
+            status: 'skipped',
+            error: skipped === 'cancelled' ? 'Cancelled' : 'Run deadline reached'
+          });
+          continue;
+        }
+
+        // processFeed records its own failures; an error here is unexpected
+        const result = value || { feedId: feed._id, feedName: feed.name, feedUrl: feed.url, status: 'failed', error: error.message };
+        feedResults.push(result);
+
+        if (result.status === 'failed') {
+          fetchStats.failedFeeds++;
+        } else {
+          fetchStats.successfulFeeds++;
         }
+        if (result.status === 'not_modified' || result.status === 'unchanged') {
+          fetchStats.notModifiedFeeds++;
+        }
+        fetchStats.totalArticlesFetched += result.itemsFetched || 0;
+        fetchStats.duplicates += result.duplicates || 0;
+        fetchStats.newReplies += result.newReplies || 0;
+        fetchStats.updatedArticles += result.updatedArticles || 0;
+        fetchStats.bytesDownloaded += result.bytesDownloaded || 0;
+        fetchStats.bytesSaved += result.bytesSaved || 0;
+        totalNewArticles += result.newArticles || 0;
+      }
+
+      if (fetchStats.skippedFeeds > 0) {
+        logger.warn(`${isCancelled() ? 'Workflow cancelled' : 'Run deadline reached'}, ${fetchStats.skippedFeeds} feeds were not fetched`);
       }
 
-      logger.info(`RSS workflow completed. Total new articles: ${totalNewArticles}`);
+      logger.info(`RSS workflow completed. Total new articles: ${totalNewArticles}, updated articles: ${fetchStats.updatedArticles}`);
+      logger.info(`Feeds not modified: ${fetchStats.notModifiedFeeds}/${feeds.length}, bytes downloaded: ${fetchStats.bytesDownloaded}, bytes saved: ${fetchStats.bytesSaved}`);
       
       // After ingestion, run GPT alert processing in batches using active prompt and keywords
-      if (totalNewArticles > 0) {
+      // Unprocessed articles left by a cancelled run are picked up by the next one.
+      // Articles that changed materially were reset to unprocessed when updated.
+      let gptSummary = {};
+      if (totalNewArticles > 0 || fetchStats.updatedArticles > 0) {
         try {
           logger.info('Starting GPT alert processing for newly ingested/unprocessed articles...');
-          const result = await gptAlertService.processArticlesInBatches();
-          logger.info(`GPT alert processing completed. Batches: ${result.batches}, Articles updated: ${result.processed}`);
+          const result = await gptAlertService.processArticlesInBatches({ shouldCancel: isCancelled });
+          gptSummary = workflowRunService.summarizeGptResult(result);
+          logger.info(`GPT alert processing completed. Batches: ${result.batches}, Articles updated: ${result.processed}, Tokens: ${gptSummary.tokensUsed}`);
         } catch (alertError) {
           logger.error('GPT alert processing failed:', alertError);
         }
+
+        // Saved searches run after GPT so they can match on industries/threat fields
+        try {
+          const savedSearchResult = await savedSearchService.evaluateNewArticles(runStartedAt);
+          logger.info(`Saved search evaluation completed. Searches: ${savedSearchResult.searches}, New matches: ${savedSearchResult.matches}`);
+        } catch (savedSearchError) {
+          logger.error('Saved search evaluation failed:', savedSearchError);
+        }
       } else {
         logger.info('No new articles to process with GPT');
       }
-      
-    } catch (error) {
-      logger.error('Error in RSS workflow:', error);
-    }
-  }
 
-  async fetchRSSFeed(feedUrl) {
-    const Parser = require('rss-parser');
-    const parser = new Parser({
-      timeout: 10000,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+      let status = fetchStats.failedFeeds === 0 && fetchStats.skippedFeeds === 0 ? 'completed' : 'completed_with_errors';
+      if (isCancelled()) {
+        status = 'cancelled';
+        logger.info('RSS workflow cancelled');
       }
-    });
 
-    try {
-      logger.info(`Fetching RSS feed: ${feedUrl}`);
-      const feed = await parser.parseURL(feedUrl);
-      logger.info(`Successfully fetched RSS feed: ${feedUrl}`);
-      return feed;
+      await workflowRunService.finish(run, {
+        status,
+        totalFeeds: feeds.length,
+        ...fetchStats,
+        newArticles: totalNewArticles,
+        feedResults,
+        ...gptSummary
+      });
+      
     } catch (error) {
-      logger.error(`Error fetching RSS feed ${feedUrl}:`, error);
-      throw error;
+      logger.error('Error in RSS workflow:', error);
+      if (run) {
+        await workflowRunService.finish(run, { status: 'failed', error: error.message });
+      }
+    } finally {
+      if (lock) {
+        await workflowLockService.release(lock);
+      }
+      this.workflowInProgress = false;
     }
   }
 
-  async processArticle(item, feed) {
+  /**
+   * Fetch one feed and store its new articles. Failures are recorded on the
+   * feed and returned as a failed result rather than thrown.
+   * @returns {Promise<Object>} Per-feed result with timings in ms
+   */
+  async processFeed(feed, signal) {
+    const startedAt = Date.now();
+    const result = {
+      feedId: feed._id,
+      feedName: feed.name,
+      feedUrl: feed.url,
+      host: getHost(feed.url),
+      status: null,
+      itemsFetched: 0,
+      newArticles: 0,
+      duplicates: 0,
+      newReplies: 0,
+      updatedArticles: 0,
+      bytesDownloaded: 0,
+      bytesSaved: 0,
+      fetchTime: 0,
+      processingTime: 0,
+      error: null
+    };
+
     try {
-      // Check if article already exists
-      const existingArticle = await threatly2DatabaseService.getArticleByLink(item.link);
+      logger.info(`Processing feed: ${feed.name} (${feed.url})`);
       
-      if (existingArticle) {
-        logger.debug(`Article already exists: ${item.title}`);
-        return false;
+      // Conditional fetch using the feed's stored ETag/Last-Modified and content hash
+      const fetchResult = await feedFetchService.fetch(feed, { timeout: FEED_FETCH_TIMEOUT_MS, signal });
+      result.fetchTime = Date.now() - startedAt;
+      result.status = fetchResult.status;
+      result.bytesDownloaded = fetchResult.bytesDownloaded;
+      result.bytesSaved = fetchResult.bytesSaved;
+
+      if (fetchResult.status !== 'modified') {
+        // Nothing changed since the last fetch, so there is nothing to parse or look up
+        if (fetchResult.fetchState) {
+          await threatly2DatabaseService.updateFeedFetchState(feed._id, fetchResult.fetchState);
+        }
+        await threatly2DatabaseService.clearFeedError(feed._id);
+        await this.scheduleNextFetch(feed, { ...buildSuccessSchedule(feed, null), lastFetchDuration: Date.now() - startedAt });
+        logger.info(`Skipped ${feed.name}: ${fetchResult.status === 'not_modified' ? 'not modified' : 'content unchanged'}`);
+        return this.finishFeedResult(result, startedAt);
       }
 
-      // Parse article date
-      const articleDate = item.isoDate ? new Date(item.isoDate) : new Date();
+      const rssData = fetchResult.rssData;
       
-      // Remove the problematic lastFetch comparison that prevents articles from being processed
-      // The lastFetch should be updated based on processed articles, not used to filter them
-      // This was causing the chicken-and-egg problem where lastFetch never got updated
-
-      // Create new article with complete structure
-      const article = {
-        title: item.title || 'No Title',
-        content: item.contentSnippet || item.content || item.summary || 'No Content',
-        link: item.link || item.guid || '',
-        isoDate: articleDate,
-        source: feed.name,
-        feedUrl: feed.url,
-        type: feed.type || 'news', // Default to 'news' if type not specified
-        author: item.creator || item.author || '',
-        pubDate: item.pubDate || item.isoDate || new Date().toISOString(),
-        guid: item.guid || item.link || '',
-        // Initialize fields that will be populated by GPT processing
-        alertMatches: [],
-        industries: [],
-        isSpam: false,
-        threatLevel: 'NONE',
-        threatType: 'N/A',
-        read: false,
-        saved: false,
-        processedAt: new Date(),
-        lastUpdated: new Date(),
-        creator: item.creator || item.author || ''
-      };
+      if (rssData && rssData.items && rssData.items.length > 0) {
+        logger.info(`Fetched ${rssData.items.length} articles from ${feed.name}`);
+        result.itemsFetched = rssData.items.length;
+        Object.assign(result, await this.storeItems(rssData.items, feed));
+
+        // Always update feed's lastFetch with the latest article date found
+        // This ensures lastFetch is current even if no new articles were processed
+        const latestArticleDate = rssData.items.reduce((latest, item) => {
+          const articleDate = item.isoDate ? new Date(item.isoDate) : new Date();
+          return (!latest || articleDate > latest) ? articleDate : latest;
+        }, null);
+        await threatly2DatabaseService.updateFeedLastFetch(feed._id, latestArticleDate.toISOString());
 
-      // Basic validation
-      if (!article.link || !article.title) {
-        logger.warn(`Skipping invalid article from ${feed.name}: missing link or title`);
-        return false;
+        // Only remember the content once its items were processed
+        await threatly2DatabaseService.updateFeedFetchState(feed._id, fetchResult.fetchState);
+        
+        // Clear error if successful
+        await threatly2DatabaseService.clearFeedError(feed._id);
+        await this.scheduleNextFetch(feed, { ...buildSuccessSchedule(feed, rssData.items), lastFetchDuration: Date.now() - startedAt });
+        logger.info(`Successfully processed ${feed.name}: ${result.newArticles} new articles`);
+        return this.finishFeedResult(result, startedAt);
       }
 
-      // Insert article into database
-      const result = await threatly2DatabaseService.insertArticle(article);
+      logger.warn(`No articles found in feed: ${feed.name}`);
       
-      if (result.insertedId) {
-        logger.info(`Inserted new article: ${article.title} (Date: ${articleDate})`);
-        return true;
-      } else {
-        logger.warn(`Failed to insert article: ${article.title}`);
-        return false;
+      // Even if no new articles found, try to update lastFetch from existing articles
+      try {
+        const existingArticles = await threatly2DatabaseService.getArticlesBySource(feed.name);
+        if (existingArticles.length > 0) {
+          // Find the newest existing article date
+          const newestExistingArticle = existingArticles.reduce((newest, article) => {
+            const articleDate = new Date(article.isoDate);
+            return (!newest || articleDate > newest) ? articleDate : newest;
+          }, null);
+          
+          if (newestExistingArticle) {
+            await threatly2DatabaseService.updateFeedLastFetch(feed._id, newestExistingArticle.toISOString());
+            logger.info(`Updated feed ${feed.name} lastFetch to existing article date: ${newestExistingArticle}`);
+          }
+        }
+      } catch (error) {
+        logger.warn(`Could not update lastFetch for feed ${feed.name} from existing articles:`, error.message);
+      }
+      
+      throw new Error('No articles found');
+      
+    } catch (error) {
+      // Cancelled requests surface as CanceledError
+      const message = signal && signal.aborted ? 'Run deadline reached' : error.message;
+      logger.error(`Error processing feed ${feed.name}:`, message);
+      result.status = 'failed';
+      result.error = message;
+      if (!result.fetchTime) {
+        result.fetchTime = Date.now() - startedAt;
       }
+      await threatly2DatabaseService.updateFeedError(feed._id, message);
+      await this.scheduleNextFetch(feed, { ...buildFailureSchedule(feed, message), lastFetchDuration: Date.now() - startedAt });
+      return this.finishFeedResult(result, startedAt);
+    }
+  }
+
+  finishFeedResult(result, startedAt) {
+    result.duration = Date.now() - startedAt;
+    result.processingTime = result.duration - result.fetchTime;
+    logger.info(`Feed ${result.feedName} took ${result.duration}ms (fetch ${result.fetchTime}ms)`);
+    return result;
+  }
+
+  /**
+   * Store the feed items that are not in the database yet with one bulk upsert.
+   * Links are canonicalized first, so tracking and AMP variants of a stored
+   * link count as duplicates, and stored articles the feed republished with
+   * new content get a new revision. New articles are grouped into stories
+   * with their near-duplicates; posts of forum feeds are added to their threads.
+   * @returns {Promise<Object>} { newArticles, duplicates, newReplies, updatedArticles }
+   */
+  async storeItems(items, feed) {
+    // One lookup for the whole feed, so full text is only fetched for new items.
+    // Raw links are looked up too, for articles stored before canonicalization.
+    const rawLinks = items.map(item => item.link).filter(Boolean);
+    const storedArticles = await threatly2DatabaseService.getArticlesByLinks(
+      Array.from(new Set([...rawLinks, ...rawLinks.map(canonicalizeUrl)]))
+    );
+
+    const articles = [];
+    let invalid = 0;
+    let updatedArticles = 0;
+    for (const item of items) {
+      const stored = item.link && (storedArticles.get(item.link) || storedArticles.get(canonicalizeUrl(item.link)));
+      if (stored) {
+        if (await this.updateStoredArticle(stored, item, feed)) {
+          updatedArticles++;
+        }
+        continue;
+      }
+
+      const article = this.buildArticle(item, feed);
+      if (!article) {
+        invalid++;
+        continue;
+      }
+
+      // Snippet-only feeds: store the page's main text alongside the RSS summary
+      if (feed.fetchFullText) {
+        Object.assign(article, await fullTextService.getArticleFields(article));
+      }
+      Object.assign(article, await translationService.getArticleFields(article));
+      articles.push(article);
+    }
+
+    const { upsertedCount, upsertedIds } = await threatly2DatabaseService.upsertArticles(articles);
+    if (upsertedCount > 0) {
+      logger.info(`Inserted ${upsertedCount} new articles from ${feed.name}`);
+    }
+
+    const inserted = Object.entries(upsertedIds).map(([index, _id]) => ({ ...articles[index], _id }));
+    let newReplies = 0;
+    if (feed.type === 'forum' && inserted.length > 0) {
+      ({ newReplies } = await forumThreadService.recordPosts(inserted));
+    }
 
+    // The articles are stored either way; an article without a story is shown on its own
+    try {
+      const clustered = await storyService.assignStories(inserted);
+      if (clustered > 0) {
+        logger.info(`Grouped ${clustered} new articles from ${feed.name} with similar reports`);
+      }
     } catch (error) {
-      logger.error(`Error processing article from ${feed.name}:`, error);
+      logger.warn(`Could not group new articles from ${feed.name} into stories:`, error.message);
+    }
+
+    // Already stored, repeated within the feed, or inserted concurrently by another feed
+    return { newArticles: upsertedCount, duplicates: items.length - invalid - upsertedCount, newReplies, updatedArticles };
+  }
+
+  /**
+   * Record a revision when the feed republishes a stored article with changed
+   * content. Copies of the link in other feeds are ignored: their summaries
+   * differ without the article having changed.
+   * @returns {Promise<boolean>} Whether the article was updated
+   */
+  async updateStoredArticle(stored, item, feed) {
+    if (stored.feedUrl !== feed.url) {
+      return false;
+    }
+
+    const article = this.buildArticle(item, feed);
+    const change = article && articleRevisionService.detectChange(stored, article);
+    if (!change) {
       return false;
     }
+
+    const update = { title: article.title, content: article.content, lang: article.lang };
+    if (change.material) {
+      if (feed.fetchFullText) {
+        Object.assign(update, await fullTextService.getArticleFields(article));
+      }
+      Object.assign(update, await translationService.getArticleFields({ ...article, ...update }));
+    }
+    await articleRevisionService.recordRevision(stored, update, change);
+    return true;
+  }
+
+  /**
+   * Build the article document for a feed item, or null if the item is invalid.
+   * Single-source runs (threatly2-rss-service) use it too, so both paths store
+   * the same content and revision checks compare like with like.
+   */
+  buildArticle(item, feed) {
+    // Parse article date
+    const articleDate = item.isoDate ? new Date(item.isoDate) : new Date();
+
+    // Create new article with complete structure
+    const article = {
+      title: item.title || 'No Title',
+      // Feed HTML, rendered sanitized by the reader view; revision checks compare it as plain text
+      content: item.content || item.contentSnippet || item.summary || 'No Content',
+      link: canonicalizeUrl(item.link || item.guid || ''),
+      isoDate: articleDate,
+      source: feed.name,
+      feedUrl: feed.url,
+      type: feed.type || 'news', // Default to 'news' if type not specified
+      author: item.creator || item.author || '',
+      pubDate: item.pubDate || item.isoDate || new Date().toISOString(),
+      guid: item.guid || item.link || '',
+      // Initialize fields that will be populated by GPT processing
+      alertMatches: [],
+      industries: [],
+      isSpam: false,
+      threatLevel: 'NONE',
+      threatType: 'N/A',
+      processedAt: new Date(),
+      lastUpdated: new Date(),
+      creator: item.creator || item.author || ''
+    };
+
+    // Basic validation
+    if (!article.link || !article.title) {
+      logger.warn(`Skipping invalid article from ${feed.name}: missing link or title`);
+      return null;
+    }
+
+    // Keep the link as published when it was rewritten
+    if (item.link && item.link !== article.link) {
+      article.originalLink = item.link;
+    }
+    if (item.mediaContent) article.mediaContent = item.mediaContent;
+    if (item.mediaThumbnail) article.mediaThumbnail = item.mediaThumbnail;
+
+    article.lang = detectLanguage(`${article.title} ${article.content}`);
+
+    return storyService.annotateArticle(forumThreadService.annotateArticle(article, item, feed));
+  }
+
+  async scheduleNextFetch(feed, schedule) {
+    try {
+      await threatly2DatabaseService.updateFeedSchedule(feed._id, schedule);
+      if (schedule.isActive === false) {
+        logger.warn(`Feed ${feed.name} disabled: ${schedule.disabledReason}`);
+      }
+    } catch (error) {
+      logger.error(`Error updating schedule for feed ${feed.name}:`, error.message);
+    }
   }
 
   addJob(job) {
@@ -0,0 +1,181 @@
+const crypto = require('crypto');
+const axios = require('axios');
+const { JSDOM, VirtualConsole } = require('jsdom');
+const logger = require('../utils/logger');
+
+class ScraperService {
+  constructor() {
+    this.timeout = 15000;
+    this.maxContentLength = 5 * 1024 * 1024;
+    this.snippetLength = 1000;
+    // Upper bound for scraper.maxPages
+    this.maxPages = 10;
+  }
+
+  /**
+   * Check and clean up a scraper config from the API
+   * @param {Object} config - Selectors and maxPages
+   * @returns {Object} Normalized config
+   * @throws {Error} If a required selector is missing or a selector is invalid
+   */
+  normalizeConfig(config) {
+    if (!config || typeof config !== 'object') {
+      throw new Error('Scraper settings are required');
+    }
+
+    const normalized = { maxPages: Math.min(Math.max(parseInt(config.maxPages, 10) || 1, 1), this.maxPages) };
+    const { document } = new JSDOM('').window;
+    for (const key of ['itemSelector', 'titleSelector', 'linkSelector', 'dateSelector', 'bodySelector', 'nextPageSelector']) {
+      const selector = typeof config[key] === 'string' ? config[key].trim() : '';
+      if (selector) {
+        try {
+          document.querySelector(selector);
+        } catch (error) {
+          throw new Error(`Invalid CSS selector for ${key}: ${selector}`);
+        }
+      }
+      normalized[key] = selector;
+    }
+
+    if (!normalized.itemSelector || !normalized.titleSelector) {
+      throw new Error('Item and title selectors are required');
+    }
+    return normalized;
+  }
+
+  /**
+   * Scrape a list page (and following pages) of a scraper source and return
+   * the result in the shape of feedFetchService.fetch, with the items in the
+   * format rss-parser produces so they go through the same article path.
+   * A hash of the extracted items marks unchanged pages.
+   * @param {Object} feed - Feed document with url and scraper config
+   * @param {Object} options - { timeout (ms), signal (AbortSignal) }
+   * @returns {Promise<Object>} { status, bytesDownloaded, bytesSaved, fetchState, rssData }
+   * @throws {Error} If a page cannot be fetched or the selectors are invalid
+   */
+  async fetch(feed, { timeout = this.timeout, signal } = {}) {
+    const { items, bytesDownloaded } = await this.scrape(feed.url, feed.scraper, { timeout, signal });
+
+    const fetchState = {
+      etag: null,
+      lastModified: null,
+      contentHash: crypto.createHash('sha256').update(JSON.stringify(items)).digest('hex'),
+      contentLength: bytesDownloaded
+    };
+
+    if (feed.contentHash && feed.contentHash === fetchState.contentHash) {
+      logger.info(`Scraped content unchanged: ${feed.url}`);
+      return { status: 'unchanged', bytesDownloaded, bytesSaved: 0, fetchState };
+    }
+
+    return {
+      status: 'modified',
+      bytesDownloaded,
+      bytesSaved: 0,
+      fetchState,
+      rssData: { title: feed.name, items }
+    };
+  }
+
+  /**
+   * Extract items from a list page, following the next-page link up to maxPages
+   * @param {string} url - List page URL
+   * @param {Object} config - { itemSelector, titleSelector, linkSelector, dateSelector, bodySelector, nextPageSelector, maxPages }
+   * @returns {Promise<Object>} { items, pages: [{ url, itemCount }], bytesDownloaded }
+   */
+  async scrape(url, config, { timeout = this.timeout, signal } = {}) {
+    const maxPages = Math.min(Math.max(parseInt(config.maxPages, 10) || 1, 1), this.maxPages);
+    const items = [];
+    const pages = [];
+    const seenLinks = new Set();
+    let bytesDownloaded = 0;
+    let pageUrl = url;
+
+    while (pageUrl && pages.length < maxPages) {
+      const response = await axios.get(pageUrl, {
+        timeout,
+        signal,
+        maxContentLength: this.maxContentLength,
+        responseType: 'text',
+        transformResponse: [data => data],
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+          'Accept': 'text/html,application/xhtml+xml'
+        }
+      });
+      const html = typeof response.data === 'string' ? response.data : String(response.data || '');
+      bytesDownloaded += Buffer.byteLength(html);
+
+      const { document } = new JSDOM(html, { url: pageUrl, virtualConsole: new VirtualConsole() }).window;
+      const pageItems = this.extractItems(document, config).filter(item => {
+        // Listings often repeat items across pages
+        if (seenLinks.has(item.link)) {
+          return false;
+        }
+        seenLinks.add(item.link);
+        return true;
+      });
+
+      items.push(...pageItems);
+      pages.push({ url: pageUrl, itemCount: pageItems.length });
+      pageUrl = this.findNextPage(document, config.nextPageSelector, pages.map(page => page.url));
+    }
+
+    return { items, pages, bytesDownloaded };
+  }
+
+  extractItems(document, config) {
+    const items = [];
+
+    document.querySelectorAll(config.itemSelector).forEach(element => {
+      const titleElement = config.titleSelector ? element.querySelector(config.titleSelector) : element;
+      const title = titleElement ? this.getText(titleElement) : '';
+
+      // Without a link selector, use the title's own link or the item's first link
+      const linkElement = config.linkSelector
+        ? element.querySelector(config.linkSelector)
+        : (titleElement && titleElement.closest('a[href]')) || (titleElement && titleElement.querySelector('a[href]')) || element.querySelector('a[href]');
+      const link = linkElement && linkElement.href ? linkElement.href : '';
+
+      if (!title || !link) {
+        return;
+      }
+
+      const item = { title, link, guid: link };
+
+      const dateElement = config.dateSelector ? element.querySelector(config.dateSelector) : null;
+      if (dateElement) {
+        const date = new Date(dateElement.getAttribute('datetime') || this.getText(dateElement));
+        if (!Number.isNaN(date.getTime())) {
+          item.isoDate = date.toISOString();
+          item.pubDate = date.toUTCString();
+        }
+      }
+
+      const bodyElement = config.bodySelector ? element.querySelector(config.bodySelector) : null;
+      if (bodyElement) {
+        item.content = bodyElement.innerHTML.trim();
+        item.contentSnippet = this.getText(bodyElement).slice(0, this.snippetLength);
+      }
+
+      items.push(item);
+    });
+
+    return items;
+  }
+
+  findNextPage(document, nextPageSelector, visitedUrls) {
+    if (!nextPageSelector) {
+      return null;
+    }
+    const next = document.querySelector(nextPageSelector);
+    const href = next && (next.href || (next.querySelector('a[href]') || {}).href);
+    return href && !visitedUrls.includes(href) ? href : null;
+  }
+
+  getText(element) {
+    return element.textContent.replace(/\s+/g, ' ').trim();
+  }
+}
+
+module.exports = new ScraperService();
@@ -0,0 +1,117 @@
+const logger = require('../utils/logger');
+const threatly2DatabaseService = require('./threatly2DatabaseService');
+const { computeSimhash, hammingDistance } = require('../utils/simhash');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Groups near-duplicate articles (syndicated copies, rewrites of the same
+ * wire story) into stories. Every story has one primary article, the first
+ * one stored; storyId of each article in the story is the primary's _id.
+ */
+class StoryService {
+  constructor() {
+    // Copies of a story published further apart than this are separate stories
+    this.windowDays = parseInt(process.env.STORY_WINDOW_DAYS, 10) || 3;
+    // Simhashes of copies of a story are at most this many bits apart
+    this.maxDistance = parseInt(process.env.STORY_SIMHASH_DISTANCE, 10) || 9;
+  }
+
+  async getCollection() {
+    const db = await threatly2DatabaseService.connect();
+    return db.collection('Articles');
+  }
+
+  /**
+   * Add the simhash of the title and content to an article being built.
+   * Forum posts are grouped by thread instead and are left as they are.
+   * @param {Object} article - Article document
+   * @returns {Object} The article
+   */
+  annotateArticle(article) {
+    if (article.type === 'forum') {
+      return article;
+    }
+
+    const simhash = computeSimhash(`${article.title} ${article.content || ''}`);
+    if (simhash) {
+      article.simhash = simhash;
+    }
+    return article;
+  }
+
+  /**
+   * Put newly stored articles into stories: an article joins the story of
+   * the closest article published within the window, or starts its own.
+   * Articles are handled in order, so copies within one batch group too.
+   * @param {Array} articles - Articles that were just inserted
+   * @returns {Promise<number>} Number of articles that joined an existing story
+   */
+  async assignStories(articles) {
+    const hashed = articles.filter(article => article.simhash);
+    if (hashed.length === 0) {
+      return 0;
+    }
+
+    // One query for the batch: hashes of everything published around it
+    const times = hashed.map(article => new Date(article.isoDate).getTime());
+    const windowMs = this.windowDays * DAY_MS;
+    const collection = await this.getCollection();
+    const candidates = await collection.find({
+      simhash: { $exists: true },
+      isoDate: { $gte: new Date(Math.min(...times) - windowMs), $lte: new Date(Math.max(...times) + windowMs) }
+    }).project({ simhash: 1, storyId: 1, isoDate: 1 }).toArray();
+
+    // Articles of this batch are already stored, but only count once they have a story
+    const pending = new Set(hashed.map(article => String(article._id)));
+    const byId = new Map(candidates.map(candidate => [String(candidate._id), candidate]));
+    let clustered = 0;
+
+    for (const article of hashed) {
+      const id = String(article._id);
+      const time = new Date(article.isoDate).getTime();
+      const match = this.findClosest(article.simhash, candidates.filter(candidate => {
+        const candidateId = String(candidate._id);
+        return candidateId !== id && !pending.has(candidateId)
+          && Math.abs(new Date(candidate.isoDate).getTime() - time) <= windowMs;
+      }));
+      const storyId = match ? match.storyId || match._id : article._id;
+
+      await collection.updateOne({ _id: article._id }, { $set: { storyId } });
+      if (match) {
+        // An article left without a story, e.g. by a failed run, starts one now
+        if (!match.storyId) {
+          await collection.updateOne({ _id: match._id }, { $set: { storyId } });
+          match.storyId = storyId;
+        }
+        clustered++;
+        logger.debug(`Article "${article.title}" joined story ${storyId}`);
+      }
+
+      pending.delete(id);
+      if (byId.has(id)) {
+        byId.get(id).storyId = storyId;
+      }
+    }
+
+    return clustered;
+  }
+
+  /**
+   * Candidate with the fewest differing bits, if within maxDistance
+   */
+  findClosest(simhash, candidates) {
+    let best = null;
+    let bestDistance = this.maxDistance + 1;
+    for (const candidate of candidates) {
+      const distance = hammingDistance(simhash, candidate.simhash);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+}
+
+module.exports = new StoryService();
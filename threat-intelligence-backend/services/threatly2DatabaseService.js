@@ -19,6 +19,7 @@ class Threatly2DatabaseService {
       this.db = this.client.db('threatly2');
       this.isConnected = true;
       logger.info('Connected to threatly2 database');
+      await this.ensureIndexes();
       return this.db;
     } catch (error) {
       logger.error('Error connecting to threatly2 database:', error);
@@ -26,6 +27,78 @@ class Threatly2DatabaseService {
     }
   }
 
+  // Create indexes for collections that are only accessed through this service
+  async ensureIndexes() {
+    try {
+      const userStates = this.db.collection('ArticleUserStates');
+      await userStates.createIndex({ userId: 1, articleId: 1 }, { unique: true });
+      await userStates.createIndex({ userId: 1, read: 1 });
+      await userStates.createIndex({ userId: 1, saved: 1, savedAt: -1 });
+      await userStates.createIndex({ articleId: 1 });
+
+      await this.ensureLinkIndex();
+
+      // Text index backing the search query language. A collection has one
+      // text index, so an older one over fewer fields is replaced.
+      const textIndexKey = { title: 'text', content: 'text', 'translation.title': 'text', 'translation.content': 'text' };
+      const textIndexName = 'article_text';
+      const articleIndexes = await this.db.collection('Articles').indexes();
+      const staleTextIndex = articleIndexes.find(index => index.key._fts === 'text' && index.name !== textIndexName);
+      if (staleTextIndex) {
+        await this.db.collection('Articles').dropIndex(staleTextIndex.name);
+      }
+      await this.db.collection('Articles').createIndex(textIndexKey, { name: textIndexName });
+
+      await this.db.collection('SavedSearches').createIndex({ userId: 1, name: 1 });
+      await this.db.collection('SavedSearches').createIndex({ subscribed: 1 });
+      const savedSearchMatches = this.db.collection('SavedSearchMatches');
+      await savedSearchMatches.createIndex({ savedSearchId: 1, articleId: 1 }, { unique: true });
+      await savedSearchMatches.createIndex({ userId: 1, articleId: 1 });
+
+      // Due-feed lookup on every scheduler tick
+      await this.db.collection('Feeds').createIndex({ isActive: 1, nextFetchAt: 1 });
+
+      const forumThreads = this.db.collection('ForumThreads');
+      await forumThreads.createIndex({ key: 1 }, { unique: true });
+      await forumThreads.createIndex({ lastPostAt: -1 });
+      await this.db.collection('Articles').createIndex({ threadKey: 1, isoDate: 1 });
+
+      // Story members, see services/storyService.js
+      await this.db.collection('Articles').createIndex({ storyId: 1 });
+    } catch (error) {
+      logger.error('Error creating threatly2 indexes:', error);
+    }
+  }
+
+  // Unique index on Articles.link: upsertArticles is keyed on link, and feeds
+  // fetched in parallel can carry the same link. Duplicates stored before the
+  // index existed are removed by dedupe-article-links.js.
+  async ensureLinkIndex() {
+    const articles = this.db.collection('Articles');
+    const indexes = await articles.indexes();
+    const linkIndex = indexes.find(index => Object.keys(index.key).join() === 'link');
+    if (linkIndex && linkIndex.unique) {
+      return;
+    }
+    if (linkIndex) {
+      await articles.dropIndex(linkIndex.name);
+    }
+
+    try {
+      await articles.createIndex(
+        { link: 1 },
+        { name: 'link_unique', unique: true, partialFilterExpression: { link: { $exists: true } } }
+      );
+    } catch (error) {
+      if (error.code !== 11000) {
+        throw error;
+      }
+      // Keep link lookups indexed until the duplicates are removed
+      await articles.createIndex({ link: 1 });
+      logger.error('Articles contain duplicate links, so the unique link index was not created and feeds can store the same article twice. Run `node dedupe-article-links.js` and restart the API.');
+    }
+  }
+
   // Helper function to convert string ID to ObjectId
   toObjectId(id) {
     try {
@@ -54,7 +127,14 @@ class Threatly2DatabaseService {
   // Articles collection methods
   async getArticles(filter = {}, sort = { isoDate: -1 }, limit = 100, skip = 0) {
     const db = await this.connect();
-    return await db.collection('Articles').find(filter).sort(sort).limit(limit).skip(skip).toArray();
+    // Revision history is only needed by GET /api/articles/:id/revisions
+    return await db.collection('Articles').find(filter).project({ revisions: 0 }).sort(sort).limit(limit).skip(skip).toArray();
+  }
+
+  // Articles from an aggregation pipeline, e.g. one joining the user's article state
+  async aggregateArticles(pipeline) {
+    const db = await this.connect();
+    return await db.collection('Articles').aggregate(pipeline, { allowDiskUse: true }).toArray();
   }
 
   async getArticleById(id) {
@@ -67,6 +147,46 @@ class Threatly2DatabaseService {
     return await db.collection('Articles').findOne({ link });
   }
 
+  // Stored articles for the given links, keyed on link, with the fields needed to detect updates
+  async getArticlesByLinks(links) {
+    const db = await this.connect();
+    const articles = await db.collection('Articles')
+      .find({ link: { $in: links } })
+      .project({ link: 1, title: 1, content: 1, feedUrl: 1 })
+      .toArray();
+    return new Map(articles.map(article => [article.link, article]));
+  }
+
+  // Insert articles that are not stored yet, keyed on link; existing articles are left untouched
+  async upsertArticles(articles) {
+    if (articles.length === 0) {
+      return { upsertedCount: 0, upsertedIds: {} };
+    }
+
+    const db = await this.connect();
+    let result;
+    try {
+      result = await db.collection('Articles').bulkWrite(
+        articles.map(article => ({
+          updateOne: {
+            filter: { link: article.link },
+            update: { $setOnInsert: article },
+            upsert: true
+          }
+        })),
+        { ordered: false }
+      );
+    } catch (error) {
+      // Two feeds upserting the same link at once race on the link index; the first write wins
+      const writeErrors = error.writeErrors || [];
+      if (!error.result || writeErrors.some(writeError => writeError.code !== 11000)) {
+        throw error;
+      }
+      result = error.result;
+    }
+    return { upsertedCount: result.upsertedCount, upsertedIds: result.upsertedIds };
+  }
+
   async insertArticle(article) {
     const db = await this.connect();
     const result = await db.collection('Articles').insertOne(article);
@@ -91,6 +211,26 @@ class Threatly2DatabaseService {
     logger.info(`Deleting article ${id}`);
     const result = await db.collection('Articles').deleteOne({ _id: this.toObjectId(id) });
     logger.info(`Article delete result:`, result);
+    await this.deleteArticleReferences({ articleId: this.toObjectId(id) });
+    return result;
+  }
+
+  async updateArticles(ids, update) {
+    const db = await this.connect();
+    logger.info(`Updating ${ids.length} articles with:`, update);
+    return await db.collection('Articles').updateMany(
+      { _id: { $in: ids.map(id => this.toObjectId(id)) } },
+      { $set: update }
+    );
+  }
+
+  async deleteArticles(ids) {
+    const db = await this.connect();
+    const objectIds = ids.map(id => this.toObjectId(id));
+    logger.info(`Deleting ${ids.length} articles`);
+    const result = await db.collection('Articles').deleteMany({ _id: { $in: objectIds } });
+    logger.info(`Delete articles result:`, result);
+    await this.deleteArticleReferences({ articleId: { $in: objectIds } });
     return result;
   }
 
@@ -99,22 +239,124 @@ class Threatly2DatabaseService {
     logger.info('Deleting all articles');
     const result = await db.collection('Articles').deleteMany({});
     logger.info(`Delete all articles result:`, result);
+    await this.deleteArticleReferences({});
     return result;
   }
 
   async deleteAllSpamArticles() {
     const db = await this.connect();
     logger.info('Deleting all spam articles');
+    const spamIds = await db.collection('Articles').distinct('_id', { isSpam: true });
     const result = await db.collection('Articles').deleteMany({ isSpam: true });
     logger.info(`Delete all spam articles result:`, result);
+    await this.deleteArticleReferences({ articleId: { $in: spamIds } });
     return result;
   }
 
+  // Remove per-article data kept in other collections once articles are deleted
+  async deleteArticleReferences(filter) {
+    const db = await this.connect();
+    for (const collection of ['ArticleUserStates', 'SavedSearchMatches']) {
+      await db.collection(collection).deleteMany(filter);
+    }
+  }
+
   async getArticlesCount(filter = {}) {
     const db = await this.connect();
     return await db.collection('Articles').countDocuments(filter);
   }
 
+  async getAggregatedArticlesCount(pipeline) {
+    const db = await this.connect();
+    const [result] = await db.collection('Articles').aggregate([...pipeline, { $count: 'count' }], { allowDiskUse: true }).toArray();
+    return result ? result.count : 0;
+  }
+
+  // Per-user article state methods (read/saved flags are stored per user, not on the article)
+  async setArticleUserState(userId, articleId, update) {
+    return await this.setArticleUserStates(userId, [articleId], update);
+  }
+
+  async setArticleUserStates(userId, articleIds, update) {
+    const db = await this.connect();
+    if (articleIds.length === 0) {
+      return { upsertedCount: 0, modifiedCount: 0 };
+    }
+
+    const now = new Date();
+    const operations = articleIds.map(articleId => ({
+      updateOne: {
+        filter: { userId: this.toObjectId(userId), articleId: this.toObjectId(articleId) },
+        update: {
+          $set: { ...update, updatedAt: now },
+          $setOnInsert: { createdAt: now }
+        },
+        upsert: true
+      }
+    }));
+
+    return await db.collection('ArticleUserStates').bulkWrite(operations, { ordered: false });
+  }
+
+  async getArticleUserStates(userId, articleIds) {
+    const db = await this.connect();
+    return await db.collection('ArticleUserStates').find({
+      userId: this.toObjectId(userId),
+      articleId: { $in: articleIds.map(id => this.toObjectId(id)) }
+    }).toArray();
+  }
+
+  // Get the IDs of all articles the user has flagged (field is 'read' or 'saved')
+  async getUserArticleIds(userId, field) {
+    const db = await this.connect();
+    return await db.collection('ArticleUserStates').distinct('articleId', {
+      userId: this.toObjectId(userId),
+      [field]: true
+    });
+  }
+
+  async getSavedArticleStates(userId, limit = 50, skip = 0) {
+    const db = await this.connect();
+    return await db.collection('ArticleUserStates')
+      .find({ userId: this.toObjectId(userId), saved: true })
+      .sort({ savedAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .toArray();
+  }
+
+  async getArticleUserStatesCount(userId, field) {
+    const db = await this.connect();
+    return await db.collection('ArticleUserStates').countDocuments({
+      userId: this.toObjectId(userId),
+      [field]: true
+    });
+  }
+
+  // Overlay the user's read/saved state onto a list of articles
+  async withUserState(userId, articles) {
+    if (!articles || articles.length === 0) {
+      return articles;
+    }
+
+    const states = await this.getArticleUserStates(userId, articles.map(article => article._id));
+    const stateMap = {};
+    states.forEach(state => {
+      stateMap[state.articleId.toString()] = state;
+    });
+
+    return articles.map(article => {
+      const state = stateMap[article._id.toString()];
+      return {
+        ...article,
+        read: state?.read || false,
+        readAt: state?.readAt || null,
+        saved: state?.saved || false,
+        savedAt: state?.savedAt || null
+      };
+    });
+  }
+
   // Keywords collection methods
   async getKeywords(filter = {}, sort = { createdAt: -1 }) {
     const db = await this.connect();
@@ -166,11 +408,27 @@ class Threatly2DatabaseService {
     return await db.collection('Feeds').find({ isActive: true }).toArray();
   }
 
+  // Active feeds whose nextFetchAt has passed; feeds never scheduled are due immediately
+  async getDueFeeds(now = new Date()) {
+    const db = await this.connect();
+    return await db.collection('Feeds').find({
+      isActive: true,
+      $or: [{ nextFetchAt: { $lte: now } }, { nextFetchAt: null }]
+    }).toArray();
+  }
+
   async getFeedById(id) {
     const db = await this.connect();
     return await db.collection('Feeds').findOne({ _id: this.toObjectId(id) });
   }
 
+  // URLs of the given list that already belong to a feed
+  async getExistingFeedUrls(urls) {
+    const db = await this.connect();
+    const existing = await db.collection('Feeds').distinct('url', { url: { $in: urls } });
+    return new Set(existing);
+  }
+
   async insertFeed(feed) {
     const db = await this.connect();
     logger.info('Inserting new feed:', feed);
@@ -248,6 +506,22 @@ class Threatly2DatabaseService {
     return result;
   }
 
+  async updateFeedFetchState(id, fetchState) {
+    const db = await this.connect();
+    return await db.collection('Feeds').updateOne(
+      { _id: this.toObjectId(id) },
+      { $set: { ...fetchState, lastFetchAttempt: new Date() } }
+    );
+  }
+
+  async updateFeedSchedule(id, schedule) {
+    const db = await this.connect();
+    return await db.collection('Feeds').updateOne(
+      { _id: this.toObjectId(id) },
+      { $set: schedule }
+    );
+  }
+
   // Workflow runs collection methods
   async insertWorkflowRun(workflowRun) {
     const db = await this.connect();
@@ -255,9 +529,14 @@ class Threatly2DatabaseService {
     return result;
   }
 
-  async getWorkflowRuns(filter = {}, sort = { createdAt: -1 }, limit = 50, skip = 0) {
+  async updateWorkflowRun(id, update) {
+    const db = await this.connect();
+    return await db.collection('WorkflowRuns').updateOne({ _id: this.toObjectId(id) }, { $set: update });
+  }
+
+  async getWorkflowRuns(filter = {}, sort = { createdAt: -1 }, limit = 50, skip = 0, projection = {}) {
     const db = await this.connect();
-    return await db.collection('WorkflowRuns').find(filter).sort(sort).limit(limit).skip(skip).toArray();
+    return await db.collection('WorkflowRuns').find(filter, { projection }).sort(sort).limit(limit).skip(skip).toArray();
   }
 
   async getWorkflowRunsCount(filter = {}) {
@@ -267,19 +546,28 @@ class Threatly2DatabaseService {
 
   async getWorkflowRunById(id) {
     const db = await this.connect();
-    return await db.collection('WorkflowRuns').findOne({ _id: id });
+    return await db.collection('WorkflowRuns').findOne({ _id: this.toObjectId(id) });
   }
 
   // Statistics methods
   async getArticlesStatistics() {
     const db = await this.connect();
     const pipeline = [
+      {
+        $lookup: {
+          from: 'ArticleUserStates',
+          localField: '_id',
+          foreignField: 'articleId',
+          as: 'userStates'
+        }
+      },
       {
         $group: {
           _id: null,
           totalArticles: { $sum: 1 },
-          totalRead: { $sum: { $cond: ['$read', 1, 0] } },
-          totalSaved: { $sum: { $cond: ['$saved', 1, 0] } },
+          // An article counts as read/saved once any user has read/saved it
+          totalRead: { $sum: { $cond: [{ $in: [true, '$userStates.read'] }, 1, 0] } },
+          totalSaved: { $sum: { $cond: [{ $in: [true, '$userStates.saved'] }, 1, 0] } },
           totalSpam: { $sum: { $cond: ['$isSpam', 1, 0] } },
           totalWithAlerts: { $sum: { $cond: [{ $gt: [{ $size: { $ifNull: ['$alertMatches', []] } }, 0] }, 1, 0] } }
         }
@@ -0,0 +1,43 @@
+const axios = require('axios');
+
+/**
+ * Translation providers. A provider translates a batch of plain texts:
+ *   translate(texts, { from, to }) => Promise<string[]>, one result per text
+ * Register more with translationService.registerProvider.
+ */
+
+// Local provider for tests and development: marks the text instead of translating it
+const stubProvider = {
+  async translate(texts, { from, to }) {
+    return texts.map(text => (text ? `[${from}→${to}] ${text}` : text));
+  }
+};
+
+// LibreTranslate, self-hosted or libretranslate.com
+const libreTranslateProvider = {
+  async translate(texts, { from, to }) {
+    const url = process.env.TRANSLATION_API_URL;
+    if (!url) {
+      throw new Error('TRANSLATION_API_URL is not set');
+    }
+
+    const response = await axios.post(`${url.replace(/\/$/, '')}/translate`, {
+      q: texts,
+      source: from,
+      target: to,
+      format: 'text',
+      api_key: process.env.TRANSLATION_API_KEY || undefined
+    }, { timeout: 30000 });
+
+    const { translatedText } = response.data;
+    if (!Array.isArray(translatedText) || translatedText.length !== texts.length) {
+      throw new Error('Unexpected response from LibreTranslate');
+    }
+    return translatedText;
+  }
+};
+
+module.exports = {
+  stub: stubProvider,
+  libretranslate: libreTranslateProvider
+};
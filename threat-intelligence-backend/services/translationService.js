@@ -0,0 +1,91 @@
+const logger = require('../utils/logger');
+const builtInProviders = require('./translationProviders');
+const { toPlainText } = require('../utils/textDiff');
+
+/**
+ * Translates articles that are not in the target language, so alert
+ * matching and search work on sources in other languages. The original
+ * stays in title/content/fullText; the translation is stored next to it.
+ */
+class TranslationService {
+  constructor() {
+    this.providers = new Map(Object.entries(builtInProviders));
+    // No provider means no translation
+    this.providerName = (process.env.TRANSLATION_PROVIDER || '').toLowerCase();
+    this.targetLanguage = process.env.TRANSLATION_TARGET_LANGUAGE || 'en';
+    // Longer texts are cut before translation
+    this.maxChars = parseInt(process.env.TRANSLATION_MAX_CHARS, 10) || 5000;
+  }
+
+  /**
+   * Add or replace a provider
+   * @param {string} name - Value of TRANSLATION_PROVIDER that selects it
+   * @param {Object} provider - { translate(texts, { from, to }) }
+   */
+  registerProvider(name, provider) {
+    this.providers.set(name.toLowerCase(), provider);
+  }
+
+  isEnabled() {
+    return Boolean(this.providerName);
+  }
+
+  /**
+   * Whether an article of the given language is translated
+   */
+  needsTranslation(lang) {
+    return this.isEnabled() && Boolean(lang) && lang !== 'und' && lang !== this.targetLanguage;
+  }
+
+  /**
+   * Translate a new or updated article if it is in another language.
+   * Like fullTextService.getArticleFields, failures are recorded on the
+   * article instead of thrown.
+   * @param {Object} article - Article with lang, title, content and optional fullText
+   * @returns {Promise<Object>} Fields to merge into the article; empty if not translated
+   */
+  async getArticleFields(article) {
+    if (!this.needsTranslation(article.lang)) {
+      return {};
+    }
+
+    try {
+      const provider = this.providers.get(this.providerName);
+      if (!provider) {
+        throw new Error(`Unknown translation provider: ${this.providerName}`);
+      }
+
+      const texts = [article.title, toPlainText(article.content), article.fullText || '']
+        .map(text => String(text || '').slice(0, this.maxChars));
+      const [title, content, fullText] = await provider.translate(texts, {
+        from: article.lang,
+        to: this.targetLanguage
+      });
+
+      logger.info(`Translated article from ${article.lang}: ${article.title}`);
+      return {
+        translation: {
+          title,
+          content,
+          ...(fullText ? { fullText } : {}),
+          // Not "language": MongoDB reads that field as the text index language
+          lang: this.targetLanguage,
+          provider: this.providerName,
+          translatedAt: new Date()
+        },
+        translationError: null
+      };
+    } catch (error) {
+      const message = error.response ? `HTTP ${error.response.status}` : error.message;
+      logger.warn(`Translation failed for ${article.link}: ${message}`);
+      return {
+        translationError: {
+          message,
+          timestamp: new Date()
+        }
+      };
+    }
+  }
+}
+
+module.exports = new TranslationService();
@@ -0,0 +1,190 @@
+const os = require('os');
+const crypto = require('crypto');
+const logger = require('../utils/logger');
+const threatly2DatabaseService = require('./threatly2DatabaseService');
+
+// A lock whose holder stopped renewing it is considered abandoned after this long
+const LOCK_TTL_MS = parseInt(process.env.WORKFLOW_LOCK_TTL_MS, 10) || 60000;
+
+class WorkflowLockService {
+  constructor() {
+    // Identifies this server instance as lock owner
+    this.ownerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+    // Scope of the scheduled/manual ingestion workflow
+    this.ingestionScope = 'ingestion';
+    // Locks held by this instance, so local cancel requests apply immediately
+    this.heldLocks = new Set();
+  }
+
+  getSourceScope(feedId) {
+    return `source:${feedId}`;
+  }
+
+  async getCollection() {
+    const db = await threatly2DatabaseService.connect();
+    return db.collection('WorkflowLocks');
+  }
+
+  /**
+   * Take the lease for a scope. The lease is renewed in the background until
+   * released; renewals also pick up cancellation requests from other instances.
+   * @param {string} scope - Lock scope
+   * @returns {Promise<Object|null>} Lock handle, or null if another run holds the scope
+   */
+  async acquire(scope) {
+    const collection = await this.getCollection();
+    const now = new Date();
+
+    try {
+      // Only matches an expired lock; if the scope is held, the upsert
+      // collides with the existing _id and fails with a duplicate key error
+      await collection.findOneAndUpdate(
+        { _id: scope, expiresAt: { $lte: now } },
+        {
+          $set: {
+            owner: this.ownerId,
+            runId: null,
+            acquiredAt: now,
+            expiresAt: new Date(now.getTime() + LOCK_TTL_MS),
+            cancelRequested: false
+          }
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      if (error.code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+
+    const lock = { scope, runId: null, cancelRequested: false, timer: null };
+    lock.timer = setInterval(() => {
+      this.renew(lock).catch(error => {
+        logger.error(`Error renewing workflow lock ${scope}:`, error.message);
+      });
+    }, Math.floor(LOCK_TTL_MS / 3));
+    this.heldLocks.add(lock);
+    return lock;
+  }
+
+  /**
+   * Take the ingestion lease. The ingestion workflow fetches every feed, so it
+   * does not start while a single-source run is in progress.
+   * @returns {Promise<Object|null>} Lock handle, or null if ingestion or a source run is in progress
+   */
+  async acquireIngestion() {
+    return this.acquireExclusive(this.ingestionScope);
+  }
+
+  /**
+   * Take the lease of a single source. Refused while the ingestion workflow runs.
+   * @param {ObjectId|string} feedId - Feed ID
+   * @returns {Promise<Object|null>} Lock handle, or null if the source or ingestion is in progress
+   */
+  async acquireSource(feedId) {
+    return this.acquireExclusive(this.getSourceScope(feedId));
+  }
+
+  // Filter on the scopes that cannot run alongside the given one
+  getConflictingScopes(scope) {
+    return scope === this.ingestionScope
+      ? { $regex: '^source:' }
+      : this.ingestionScope;
+  }
+
+  /**
+   * Whether a run that excludes the scope is in progress on any instance
+   */
+  async isBlocked(scope) {
+    const collection = await this.getCollection();
+    const lock = await collection.findOne({
+      _id: this.getConflictingScopes(scope),
+      expiresAt: { $gt: new Date() }
+    });
+    return Boolean(lock);
+  }
+
+  // The lease is taken before looking for conflicting ones, so of two runs
+  // starting at the same time at least one sees the other and backs off
+  async acquireExclusive(scope) {
+    const lock = await this.acquire(scope);
+    if (lock && await this.isBlocked(scope)) {
+      await this.release(lock);
+      return null;
+    }
+    return lock;
+  }
+
+  async renew(lock) {
+    const collection = await this.getCollection();
+    const result = await collection.findOneAndUpdate(
+      { _id: lock.scope, owner: this.ownerId },
+      { $set: { expiresAt: new Date(Date.now() + LOCK_TTL_MS) } },
+      { returnDocument: 'after' }
+    );
+    if (result.value && result.value.cancelRequested) {
+      lock.cancelRequested = true;
+    }
+  }
+
+  /**
+   * Record the workflow run that holds the lock, so it can be found and cancelled
+   */
+  async setRunId(lock, runId) {
+    lock.runId = runId;
+    const collection = await this.getCollection();
+    await collection.updateOne({ _id: lock.scope, owner: this.ownerId }, { $set: { runId } });
+  }
+
+  async release(lock) {
+    clearInterval(lock.timer);
+    this.heldLocks.delete(lock);
+    try {
+      const collection = await this.getCollection();
+      await collection.deleteOne({ _id: lock.scope, owner: this.ownerId });
+    } catch (error) {
+      // The lease expires on its own
+      logger.error(`Error releasing workflow lock ${lock.scope}:`, error.message);
+    }
+  }
+
+  /**
+   * Whether any instance currently holds the scope
+   */
+  async isHeld(scope) {
+    const collection = await this.getCollection();
+    const lock = await collection.findOne({ _id: scope, expiresAt: { $gt: new Date() } });
+    return Boolean(lock);
+  }
+
+  /**
+   * Locks that have not expired, i.e. workflows in progress on any instance
+   */
+  async getActiveLocks() {
+    const collection = await this.getCollection();
+    return await collection.find({ expiresAt: { $gt: new Date() } }).toArray();
+  }
+
+  /**
+   * Ask the instance running a workflow to stop at the next feed or batch boundary
+   * @param {ObjectId} runId - Workflow run ID
+   * @returns {Promise<boolean>} False if no workflow with that run ID is in progress
+   */
+  async requestCancel(runId) {
+    const collection = await this.getCollection();
+    const result = await collection.updateOne(
+      { runId, expiresAt: { $gt: new Date() } },
+      { $set: { cancelRequested: true } }
+    );
+
+    this.heldLocks.forEach(lock => {
+      if (lock.runId && lock.runId.toString() === runId.toString()) {
+        lock.cancelRequested = true;
+      }
+    });
+    return result.matchedCount > 0;
+  }
+}
+
+module.exports = new WorkflowLockService();
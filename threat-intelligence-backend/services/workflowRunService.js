@@ -0,0 +1,68 @@
+const logger = require('../utils/logger');
+const threatly2DatabaseService = require('./threatly2DatabaseService');
+
+// What started a run; see models/WorkflowRun.js for the record shape
+const TRIGGERS = ['cron', 'manual', 'startup', 'single_source'];
+
+class WorkflowRunService {
+  /**
+   * Create the run record with status 'running'
+   * @param {string} trigger - One of TRIGGERS
+   * @returns {Promise<Object>} Run handle passed to finish()
+   */
+  async start(trigger) {
+    const run = {
+      trigger: TRIGGERS.includes(trigger) ? trigger : 'manual',
+      status: 'running',
+      startTime: new Date(),
+      createdAt: new Date(),
+      error: null
+    };
+
+    try {
+      const result = await threatly2DatabaseService.insertWorkflowRun(run);
+      run._id = result.insertedId;
+    } catch (error) {
+      // Losing the run record must not stop ingestion
+      logger.error('Error saving workflow run:', error);
+    }
+    return run;
+  }
+
+  /**
+   * Complete a run record with its totals, per-feed results and GPT batches
+   * @param {Object} run - Handle returned by start()
+   * @param {Object} fields - Fields to store, including the final status
+   */
+  async finish(run, fields) {
+    if (!run._id) {
+      return;
+    }
+
+    const endTime = new Date();
+    try {
+      await threatly2DatabaseService.updateWorkflowRun(run._id, {
+        ...fields,
+        endTime,
+        processingTime: endTime - run.startTime
+      });
+    } catch (error) {
+      logger.error('Error updating workflow run:', error);
+    }
+  }
+
+  /**
+   * Summarize GPT alert processing for a run record
+   * @param {Object} gptResult - Result of gptAlertService.processArticlesInBatches()
+   */
+  summarizeGptResult(gptResult) {
+    const gptBatches = gptResult.batchResults || [];
+    return {
+      gptBatches,
+      articlesWithAlerts: gptBatches.reduce((sum, batch) => sum + (batch.withAlerts || 0), 0),
+      tokensUsed: gptBatches.reduce((sum, batch) => sum + (batch.totalTokens || 0), 0)
+    };
+  }
+}
+
+module.exports = new WorkflowRunService();
@@ -0,0 +1,54 @@
+const assert = require('assert');
+const { canonicalizeUrl } = require('./utils/canonicalUrl');
+const { computeSimhash, hammingDistance } = require('./utils/simhash');
+
+// Old-style Google News article ID: base64 protobuf with the URL in field 4
+function googleNewsLink(url) {
+  const message = Buffer.concat([Buffer.from([0x08, 0x13, 0x22, url.length]), Buffer.from(url), Buffer.from([0xd2, 0x01, 0x00])]);
+  return `https://news.google.com/rss/articles/${message.toString('base64url')}?oc=5`;
+}
+
+function testCanonicalUrl() {
+  try {
+    console.log('Testing URL canonicalization and near-duplicate hashing...');
+
+    const story = 'https://www.example.com/news/fortios-flaw-exploited';
+    const variants = [
+      `${story}/`,
+      `${story}?utm_source=rss&utm_medium=feed&utm_campaign=security`,
+      `${story}?fbclid=abc123#xtor=RSS-1`,
+      `${story}/amp/`,
+      `${story}?amp=1`,
+      `https://www-example-com.cdn.ampproject.org/c/s/www.example.com/news/fortios-flaw-exploited/amp`,
+      `https://www.google.com/amp/s/www.example.com/news/fortios-flaw-exploited`,
+      `https://www.google.com/url?rct=j&sa=t&url=${encodeURIComponent(`${story}?utm_source=alerts`)}&ct=ga`,
+      googleNewsLink(`${story}/`),
+      'https://WWW.EXAMPLE.COM:443/news/fortios-flaw-exploited'
+    ];
+    variants.forEach(variant => assert.strictEqual(canonicalizeUrl(variant), story, variant));
+    console.log('✅ Redirect, AMP and tracking variants share one link');
+
+    assert.strictEqual(canonicalizeUrl('https://example.com/item?id=2&b=1&utm_term=x'), 'https://example.com/item?b=1&id=2');
+    assert.strictEqual(canonicalizeUrl('https://example.com/search?q=a%20b,c'), 'https://example.com/search?q=a%20b,c');
+    assert.strictEqual(canonicalizeUrl('https://api.example.com/kev.json#CVE-2026-0001'), 'https://api.example.com/kev.json#CVE-2026-0001');
+    assert.strictEqual(canonicalizeUrl('https://news.google.com/rss/articles/AU_yqLnewFormat?oc=5'), 'https://news.google.com/rss/articles/AU_yqLnewFormat');
+    assert.strictEqual(canonicalizeUrl(' not a url '), 'not a url');
+    console.log('✅ Meaningful parameters and fragments are kept');
+
+    const lead = 'Fortinet has warned customers that a critical remote code execution vulnerability in FortiOS SSL VPN is being actively exploited in attacks, urging administrators to apply the latest security updates immediately.';
+    const original = computeSimhash(`Critical FortiOS flaw exploited in attacks ${lead}`);
+    const copy = computeSimhash(`Critical FortiOS flaw exploited in attacks - SecurityWeek ${lead.replace('administrators', 'admins')} Read more`);
+    const other = computeSimhash('Microsoft fixes 60 flaws on Patch Tuesday. Microsoft patches 60 flaws in October Patch Tuesday including two zero-days exploited in attacks against Windows users.');
+    assert.ok(hammingDistance(original, copy) <= 9, `copy is ${hammingDistance(original, copy)} bits away`);
+    assert.ok(hammingDistance(original, other) > 9, `other story is ${hammingDistance(original, other)} bits away`);
+    assert.strictEqual(computeSimhash('Weekly update'), null);
+    console.log('✅ Simhash groups copies and separates other stories');
+
+    console.log('All canonicalization tests passed');
+  } catch (error) {
+    console.error('❌ Canonicalization test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+testCanonicalUrl();
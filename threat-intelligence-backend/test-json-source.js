@@ -0,0 +1,182 @@
+const assert = require('assert');
+const http = require('http');
+const jsonSourceService = require('./services/jsonSourceService');
+
+// Fixture API: a KEV-style catalog, three paging styles and an endpoint behind an API key
+const ADVISORIES = Array.from({ length: 5 }, (_, index) => ({
+  id: `ADV-${index + 1}`,
+  attributes: { summary: `Advisory ${index + 1}`, description: `Details of advisory ${index + 1}` },
+  html_url: `https://vendor.example.com/advisories/ADV-${index + 1}`,
+  published_at: `2026-01-0${index + 1}T00:00:00Z`
+}));
+
+function handle(req, res) {
+  const url = new URL(req.url, 'http://localhost');
+  const send = (body, headers = {}) => {
+    res.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  switch (url.pathname) {
+    case '/kev.json':
+      return send({
+        title: 'Known Exploited Vulnerabilities Catalog',
+        vulnerabilities: [
+          { cveID: 'CVE-2026-0001', vulnerabilityName: 'Example RCE', dateAdded: '2026-02-01', shortDescription: 'Remote code execution' },
+          { cveID: 'CVE-2026-0002', vulnerabilityName: 'Example SQLi', dateAdded: '2026-02-02', shortDescription: 'SQL injection' },
+          { cveID: 'CVE-2026-0003', dateAdded: '2026-02-03' }
+        ]
+      });
+    case '/paged': {
+      const page = parseInt(url.searchParams.get('page'), 10) || 1;
+      return send({ data: ADVISORIES.slice((page - 1) * 2, page * 2) });
+    }
+    case '/cursor': {
+      const start = parseInt(url.searchParams.get('after') || '0', 10);
+      const next = start + 2 < ADVISORIES.length ? String(start + 2) : null;
+      return send({ data: ADVISORIES.slice(start, start + 2), meta: { next } });
+    }
+    case '/linked': {
+      const page = parseInt(url.searchParams.get('page'), 10) || 1;
+      const headers = page < 3 ? { Link: `</linked?page=${page + 1}>; rel="next"` } : {};
+      return send(ADVISORIES.slice((page - 1) * 2, page * 2), headers);
+    }
+    case '/private':
+      if (req.headers['x-api-key'] !== 'secret') {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify({ error: 'unauthorized' }));
+      }
+      return send({ data: ADVISORIES.slice(0, 1) });
+    case '/not-json':
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      return res.end('<html></html>');
+    default:
+      res.writeHead(404);
+      return res.end();
+  }
+}
+
+const ADVISORY_MAPPING = {
+  titlePath: '$.attributes.summary',
+  linkPath: '$.html_url',
+  datePath: '$.published_at',
+  contentPath: '$.attributes.description',
+  idPath: '$.id'
+};
+
+async function testJsonSource() {
+  const server = http.createServer(handle);
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  try {
+    console.log('Testing JSON API source adapter...');
+
+    // Config validation
+    assert.throws(() => jsonSourceService.normalizeConfig({ titlePath: '$.title' }), /Items and title paths are required/);
+    assert.throws(() => jsonSourceService.normalizeConfig({ itemsPath: '$.data', titlePath: '$.title' }), /link path or an ID path/);
+    assert.throws(
+      () => jsonSourceService.normalizeConfig({ ...ADVISORY_MAPPING, itemsPath: '$.data', pagination: { type: 'cursor' } }),
+      /needs the path/
+    );
+    console.log('✅ Invalid configs are rejected');
+
+    // Items without links get one from the template; items without a title are skipped
+    const kevConfig = jsonSourceService.normalizeConfig({
+      itemsPath: '$.vulnerabilities[*]',
+      titlePath: '$.vulnerabilityName',
+      idPath: '$.cveID',
+      datePath: '$.dateAdded',
+      contentPath: '$.shortDescription',
+      linkTemplate: 'https://nvd.nist.gov/vuln/detail/{id}'
+    });
+    const kev = await jsonSourceService.fetchItems(`${baseUrl}/kev.json`, kevConfig);
+    assert.strictEqual(kev.items.length, 2);
+    assert.strictEqual(kev.items[0].title, 'Example RCE');
+    assert.strictEqual(kev.items[0].link, 'https://nvd.nist.gov/vuln/detail/CVE-2026-0001');
+    assert.strictEqual(kev.items[0].guid, 'CVE-2026-0001');
+    assert.strictEqual(kev.items[0].isoDate, '2026-02-01T00:00:00.000Z');
+    assert.strictEqual(kev.items[0].contentSnippet, 'Remote code execution');
+    console.log('✅ KEV-style catalog mapped with a link template');
+
+    // Page number pagination stops at the first empty page
+    const paged = await jsonSourceService.fetchItems(`${baseUrl}/paged`, jsonSourceService.normalizeConfig({
+      ...ADVISORY_MAPPING,
+      itemsPath: '$.data',
+      maxPages: 10,
+      pagination: { type: 'page' }
+    }));
+    assert.deepStrictEqual(paged.items.map(item => item.guid), ADVISORIES.map(advisory => advisory.id));
+    assert.deepStrictEqual(paged.pages.map(page => page.itemCount), [2, 2, 1, 0]);
+    console.log('✅ Page number pagination');
+
+    // maxPages caps the number of requests
+    const capped = await jsonSourceService.fetchItems(`${baseUrl}/paged`, jsonSourceService.normalizeConfig({
+      ...ADVISORY_MAPPING,
+      itemsPath: '$.data',
+      maxPages: 2,
+      pagination: { type: 'page' }
+    }));
+    assert.strictEqual(capped.items.length, 4);
+    assert.strictEqual(capped.pages.length, 2);
+    console.log('✅ maxPages is respected');
+
+    const cursor = await jsonSourceService.fetchItems(`${baseUrl}/cursor`, jsonSourceService.normalizeConfig({
+      ...ADVISORY_MAPPING,
+      itemsPath: '$.data',
+      maxPages: 10,
+      pagination: { type: 'cursor', param: 'after', path: '$.meta.next' }
+    }));
+    assert.strictEqual(cursor.items.length, 5);
+    assert.strictEqual(cursor.pages.length, 3);
+    console.log('✅ Cursor pagination');
+
+    const linked = await jsonSourceService.fetchItems(`${baseUrl}/linked?page=1`, jsonSourceService.normalizeConfig({
+      ...ADVISORY_MAPPING,
+      itemsPath: '$[*]',
+      maxPages: 10,
+      pagination: { type: 'linkHeader' }
+    }));
+    assert.strictEqual(linked.items.length, 5);
+    assert.strictEqual(linked.pages.length, 3);
+    console.log('✅ Link header pagination');
+
+    // Auth header is sent, kept on update without a new value, and never returned
+    const privateMapping = { ...ADVISORY_MAPPING, itemsPath: '$.data' };
+    await assert.rejects(
+      jsonSourceService.fetchItems(`${baseUrl}/private`, jsonSourceService.normalizeConfig(privateMapping)),
+      /401/
+    );
+    const privateConfig = jsonSourceService.normalizeConfig({ ...privateMapping, authHeader: { name: 'X-Api-Key', value: 'secret' } });
+    const authorized = await jsonSourceService.fetchItems(`${baseUrl}/private`, privateConfig);
+    assert.strictEqual(authorized.items.length, 1);
+    const updatedConfig = jsonSourceService.normalizeConfig({ ...privateMapping, authHeader: { name: 'X-Api-Key' } }, privateConfig);
+    assert.strictEqual(updatedConfig.authHeader.value, 'secret');
+    assert.deepStrictEqual(jsonSourceService.toPublicConfig(privateConfig).authHeader, { name: 'X-Api-Key', hasValue: true });
+    console.log('✅ Auth header');
+
+    await assert.rejects(
+      jsonSourceService.fetchItems(`${baseUrl}/not-json`, jsonSourceService.normalizeConfig(privateMapping)),
+      /not valid JSON/
+    );
+    console.log('✅ Non-JSON responses fail');
+
+    // Same result shape as feedFetchService.fetch; unchanged items are detected by hash
+    const feed = { name: 'KEV', url: `${baseUrl}/kev.json`, sourceType: 'json', jsonApi: kevConfig };
+    const first = await jsonSourceService.fetch(feed);
+    assert.strictEqual(first.status, 'modified');
+    assert.strictEqual(first.rssData.items.length, 2);
+    const second = await jsonSourceService.fetch({ ...feed, contentHash: first.fetchState.contentHash });
+    assert.strictEqual(second.status, 'unchanged');
+    console.log('✅ Fetch result and change detection');
+
+    console.log('All JSON API source tests passed');
+  } catch (error) {
+    console.error('❌ JSON API source test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+}
+
+testJsonSource();
@@ -0,0 +1,110 @@
+const assert = require('assert');
+
+// Read by llmService when it is loaded
+process.env.LLM_PROVIDER = 'fake';
+
+const llmProviders = require('./services/llmProviders');
+const gptAlertService = require('./gpt-alert-service');
+const forumThreadService = require('./services/forumThreadService');
+const { parseAlertResults, validateAlertResult } = require('./utils/alertResultSchema');
+
+const ARTICLE_1 = '65f000000000000000000001';
+const ARTICLE_2 = '65f000000000000000000002';
+const ALERT = '65a000000000000000000001';
+
+const result = (id, overrides = {}) => ({
+  id,
+  threatLevel: 'HIGH',
+  threatType: 'ransomware',
+  industries: ['Healthcare'],
+  alertMatches: [ALERT],
+  isSpam: false,
+  ...overrides
+});
+
+async function testLLMOutput() {
+  try {
+    console.log('Testing LLM output validation...');
+
+    const wrapped = `Here are the results:\n\`\`\`json\n${JSON.stringify([result(ARTICLE_1)])}\n\`\`\`\nLet me know if you need more.`;
+    assert.strictEqual(parseAlertResults(wrapped).length, 1);
+    assert.strictEqual(parseAlertResults(JSON.stringify({ results: [result(ARTICLE_1)] })).length, 1);
+    assert.strictEqual(parseAlertResults('No threats found.'), null);
+    console.log('✅ Results are found in prose, code fences and structured output');
+
+    const context = { articleIds: new Set([ARTICLE_1]), keywordIds: new Set([ALERT]) };
+    const valid = validateAlertResult(result(ARTICLE_1, { threatLevel: 'high', alertMatches: [ALERT, 'Samsung SDI'] }), context);
+    assert.deepStrictEqual(valid.errors, []);
+    assert.strictEqual(valid.result.threatLevel, 'HIGH');
+    assert.deepStrictEqual(valid.result.matches, [ALERT]);
+    assert.deepStrictEqual(valid.droppedKeywordIds, ['Samsung SDI']);
+    const invalid = validateAlertResult(result(ARTICLE_1, { threatType: 'spyware', isSpam: 0 }), context);
+    assert.strictEqual(invalid.result, null);
+    assert.strictEqual(invalid.errors.length, 2);
+    console.log('✅ Results are validated and unknown alert IDs dropped');
+
+    // Prose around the answer, a bad alert ID and one invalid item that the repair fixes
+    forumThreadService.getThreadContexts = async () => new Map();
+    gptAlertService.loadActivePrompt = async () => null;
+    gptAlertService.alerts = [{ _id: ALERT, name: 'ransomware' }];
+    llmProviders.fake.calls = [];
+    llmProviders.fake.respond = async (request) => (llmProviders.fake.calls.length === 1
+      ? `Sure! ${JSON.stringify([
+        result(ARTICLE_1, { alertMatches: [ALERT, 'not-an-alert'] }),
+        result(ARTICLE_2, { threatLevel: 'CRITICAL' })
+      ])}`
+      : JSON.stringify({ results: [result(ARTICLE_2, { threatLevel: 'LOW', alertMatches: [] })] }));
+
+    const articles = [
+      { _id: ARTICLE_1, title: 'Ransomware hits hospital', content: 'Systems are down.' },
+      { _id: ARTICLE_2, title: 'Patch Tuesday', content: 'Microsoft fixes 60 flaws.' }
+    ];
+    const results = await gptAlertService.analyzeBatchWithGPT(articles);
+    assert.strictEqual(llmProviders.fake.calls.length, 2);
+    assert.ok(llmProviders.fake.calls[0].responseFormat, 'structured output requested');
+    const repairRequest = llmProviders.fake.calls[1].messages;
+    assert.strictEqual(repairRequest[repairRequest.length - 2].role, 'assistant');
+    assert.ok(repairRequest[repairRequest.length - 1].content.includes(ARTICLE_2));
+    assert.ok(!repairRequest[repairRequest.length - 1].content.includes(ARTICLE_1));
+
+    assert.deepStrictEqual(results.map(entry => entry.articleId), [ARTICLE_1, ARTICLE_2]);
+    assert.deepStrictEqual(results[0].matches, [ALERT]);
+    assert.strictEqual(results[1].threatLevel, 'LOW');
+    assert.deepStrictEqual(gptAlertService.lastValidation, {
+      structuredOutput: true,
+      parsed: 2,
+      valid: 2,
+      repaired: 1,
+      invalid: 0,
+      droppedKeywordIds: ['not-an-alert'],
+      repairRequested: true,
+      errors: []
+    });
+    assert.ok(gptAlertService.lastUsage.total_tokens > 0);
+    console.log('✅ Invalid results get one repair request and the batch a validation report');
+
+    // Articles still invalid after the repair are left out and reported
+    llmProviders.fake.calls = [];
+    llmProviders.fake.respond = async () => JSON.stringify([result(ARTICLE_1), result(ARTICLE_2, { isSpam: 'no' })]);
+    const partial = await gptAlertService.analyzeBatchWithGPT(articles);
+    assert.deepStrictEqual(partial.map(entry => entry.articleId), [ARTICLE_1]);
+    assert.strictEqual(gptAlertService.lastValidation.invalid, 1);
+    assert.ok(gptAlertService.lastValidation.errors[0].startsWith(ARTICLE_2));
+    // Counted towards the article's attempts by processArticlesInBatches
+    assert.deepStrictEqual(Array.from(gptAlertService.lastFailures.keys()), [ARTICLE_2]);
+    assert.strictEqual(llmProviders.fake.calls.length, 2);
+
+    llmProviders.fake.respond = async () => 'I cannot help with that.';
+    await assert.rejects(() => gptAlertService.analyzeBatchWithGPT(articles), /Failed to parse GPT response/);
+    assert.strictEqual(gptAlertService.lastValidation.invalid, 2);
+    assert.strictEqual(gptAlertService.lastFailures.size, 2);
+    console.log('✅ Articles without a valid result stay unprocessed');
+
+    console.log('All LLM output tests passed');
+  } catch (error) {
+    console.error('❌ LLM output test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+testLLMOutput();
@@ -0,0 +1,53 @@
+const assert = require('assert');
+
+// Read by llmService when it is loaded
+process.env.LLM_PROVIDER = 'fake';
+
+const llmService = require('./services/llmService');
+const llmProviders = require('./services/llmProviders');
+const gptAlertService = require('./gpt-alert-service');
+const forumThreadService = require('./services/forumThreadService');
+
+async function testLLMProviders() {
+  try {
+    console.log('Testing LLM provider selection...');
+
+    assert.deepStrictEqual(llmService.resolve(null), { provider: 'fake', model: 'fake' });
+    assert.deepStrictEqual(llmService.resolve({ llmProvider: 'anthropic' }).provider, 'anthropic');
+    assert.deepStrictEqual(llmService.resolve({ llmProvider: 'local', llmModel: 'qwen2.5:14b' }), { provider: 'local', model: 'qwen2.5:14b' });
+    // A model without a provider belongs to no provider in particular
+    assert.deepStrictEqual(llmService.resolve({ llmModel: 'gpt-4o' }), { provider: 'fake', model: 'fake' });
+    assert.throws(() => llmService.resolve({ llmProvider: 'unknown' }), /Unknown LLM provider/);
+    const names = llmService.listProviders().map(provider => provider.name);
+    ['openai', 'anthropic', 'local', 'fake'].forEach(name => assert.ok(names.includes(name), name));
+    console.log('✅ Prompts choose the provider and model, with the default as fallback');
+
+    const result = await llmService.complete({ messages: [{ role: 'user', content: 'Classify this' }] });
+    assert.strictEqual(result.content, '{"industries":["Other"],"matchedKeywords":[]}');
+    assert.strictEqual(result.provider, 'fake');
+    assert.ok(result.usage.total_tokens > 0);
+    console.log('✅ The fake provider answers deterministically');
+
+    // GPT alert processing runs on the provider of the active prompt
+    forumThreadService.getThreadContexts = async () => new Map();
+    gptAlertService.loadActivePrompt = async () => ({ name: 'Test', content: 'ALERTS:\n{alerts}\n\nARTICLES:\n{articles}', llmProvider: 'fake' });
+    gptAlertService.alerts = [];
+    llmProviders.fake.calls = [];
+    const articles = [
+      { _id: '65f000000000000000000001', title: 'Ransomware hits hospital', content: 'Systems are down.' },
+      { _id: '65f000000000000000000002', title: 'Patch Tuesday', content: 'Microsoft fixes 60 flaws.' }
+    ];
+    const results = await gptAlertService.analyzeBatchWithGPT(articles);
+    assert.deepStrictEqual(results.map(entry => entry.articleId), articles.map(article => article._id));
+    assert.strictEqual(llmProviders.fake.calls.length, 1);
+    assert.deepStrictEqual(gptAlertService.lastModel, { provider: 'fake', model: 'fake' });
+    console.log('✅ GPT alert processing goes through the selected provider');
+
+    console.log('All LLM provider tests passed');
+  } catch (error) {
+    console.error('❌ LLM provider test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+testLLMProviders();
@@ -0,0 +1,32 @@
+const assert = require('assert');
+const savedSearchService = require('./services/savedSearchService');
+
+async function testSavedSearches() {
+  try {
+    console.log('Testing saved search filters...');
+
+    const filters = savedSearchService.sanitizeFilters({
+      industry: 'Healthcare',
+      language: 'ja',
+      threatLevel: '',
+      hideRead: true,
+      unknown: 'x'
+    });
+    assert.deepStrictEqual(filters, { industry: 'Healthcare', language: 'ja' });
+    console.log('✅ Known filters are kept, including the language');
+
+    // Subscribed searches are evaluated with the same filter
+    const filter = await savedSearchService.buildFilter({ query: '', filters });
+    const conditions = filter.$and || [filter];
+    assert.ok(conditions.some(condition => condition.lang === 'ja'), 'language condition');
+    assert.ok(conditions.some(condition => condition.industries && condition.industries.$in.includes('Healthcare')), 'industry condition');
+    console.log('✅ Saved filters apply to evaluated articles');
+
+    console.log('All saved search tests passed');
+  } catch (error) {
+    console.error('❌ Saved search test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+testSavedSearches();
@@ -0,0 +1,66 @@
+const assert = require('assert');
+
+// Read by translationService when it is loaded
+process.env.TRANSLATION_PROVIDER = 'stub';
+process.env.TRANSLATION_TARGET_LANGUAGE = 'en';
+
+const { detectLanguage } = require('./utils/languageDetection');
+const translationService = require('./services/translationService');
+
+async function testTranslation() {
+  try {
+    console.log('Testing language detection and translation...');
+
+    const samples = {
+      en: 'Critical FortiOS flaw exploited in attacks. Fortinet has warned customers that the vulnerability is being exploited.',
+      de: 'Kritische Sicherheitslücke in FortiOS wird aktiv ausgenutzt. Das BSI warnt vor Angriffen auf die VPN-Gateways.',
+      fr: 'Une faille critique dans FortiOS est exploitée par des pirates. Les administrateurs doivent appliquer le correctif.',
+      ja: 'Ivanti製品に脆弱性、攻撃を確認 Ivanti Connect Secure',
+      zh: '微软发布安全更新，修复多个严重漏洞，其中包括已被利用的零日漏洞',
+      ru: 'Хакеры атаковали банки с помощью нового вредоносного ПО',
+      uk: 'Хакери атакували українські банки за допомогою нового шкідливого програмного забезпечення',
+      ko: '마이크로소프트가 보안 업데이트를 발표했습니다',
+      und: 'CVE-2026-1234'
+    };
+    Object.entries(samples).forEach(([lang, text]) => assert.strictEqual(detectLanguage(text), lang, text));
+    assert.strictEqual(detectLanguage('<p>Die Angreifer nutzen die Lücke <b>seit Wochen</b> aus und das Update ist verfügbar.</p>'), 'de');
+    console.log('✅ Languages are detected by script and common words');
+
+    const article = {
+      title: 'Kritische Sicherheitslücke in FortiOS',
+      content: '<p>Das BSI warnt vor Angriffen.</p>',
+      link: 'https://www.heise.de/news/fortios',
+      lang: 'de'
+    };
+    const { translation, translationError } = await translationService.getArticleFields(article);
+    assert.strictEqual(translationError, null);
+    assert.strictEqual(translation.title, '[de→en] Kritische Sicherheitslücke in FortiOS');
+    assert.strictEqual(translation.content, '[de→en] Das BSI warnt vor Angriffen.');
+    assert.strictEqual(translation.fullText, undefined);
+    assert.strictEqual(translation.lang, 'en');
+    assert.strictEqual(translation.provider, 'stub');
+    console.log('✅ Articles in other languages are translated');
+
+    assert.deepStrictEqual(await translationService.getArticleFields({ ...article, lang: 'en' }), {});
+    assert.deepStrictEqual(await translationService.getArticleFields({ ...article, lang: 'und' }), {});
+    console.log('✅ Articles in the target language or of unknown language are left as they are');
+
+    translationService.registerProvider('failing', {
+      async translate() {
+        throw new Error('Service unavailable');
+      }
+    });
+    translationService.providerName = 'failing';
+    const failed = await translationService.getArticleFields(article);
+    assert.strictEqual(failed.translation, undefined);
+    assert.strictEqual(failed.translationError.message, 'Service unavailable');
+    console.log('✅ Provider failures are recorded instead of thrown');
+
+    console.log('All translation tests passed');
+  } catch (error) {
+    console.error('❌ Translation test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+testTranslation();
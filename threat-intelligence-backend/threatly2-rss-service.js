@@ -1,30 +1,33 @@
 require('dotenv').config();
-const Parser = require('rss-parser');
 const logger = require('./utils/logger');
 const threatly2DatabaseService = require('./services/threatly2DatabaseService');
 const classificationService = require('./services/classificationService');
-
-// Create RSS parser instance
-const parser = new Parser({
-      timeout: 10000,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-      }
-    });
+const fullTextService = require('./services/fullTextService');
+const feedFetchService = require('./services/feedFetchService');
+const workflowRunService = require('./services/workflowRunService');
+const workflowLockService = require('./services/workflowLockService');
+const forumThreadService = require('./services/forumThreadService');
+const storyService = require('./services/storyService');
+const articleRevisionService = require('./services/articleRevisionService');
+const translationService = require('./services/translationService');
+const scheduler = require('./services/scheduler');
+const { buildSuccessSchedule } = require('./utils/feedSchedule');
+const { canonicalizeUrl } = require('./utils/canonicalUrl');
 
 class Threatly2RSSService {
-  constructor() {
-    this.parser = parser;
-  }
-
   /**
    * Fetch and process all active RSS feeds
+   * @param {Object} options - { shouldCancel: () => boolean, checked before each feed }
    */
-  async fetchAllFeeds() {
+  async fetchAllFeeds({ shouldCancel = () => false } = {}) {
     const startTime = Date.now();
     let totalArticlesFetched = 0;
     let totalNewArticles = 0;
     let totalErrors = 0;
+    let notModifiedFeeds = 0;
+    let bytesDownloaded = 0;
+    let bytesSaved = 0;
+    let cancelled = false;
     const feedResults = [];
 
     try {
@@ -42,6 +45,9 @@ class Threatly2RSSService {
           totalArticlesFetched: 0,
           totalNewArticles: 0,
           totalErrors: 0,
+          notModifiedFeeds: 0,
+          bytesDownloaded: 0,
+          bytesSaved: 0,
           processingTime: Date.now() - startTime,
           feedResults: []
         };
@@ -49,29 +55,37 @@ class Threatly2RSSService {
 
       // Process each feed
       for (const feed of feeds) {
+        if (shouldCancel()) {
+          logger.info(`RSS feed processing cancelled after ${feedResults.length} feeds`);
+          cancelled = true;
+          break;
+        }
+
         const feedStartTime = Date.now();
         let feedArticlesFetched = 0;
         let feedNewArticles = 0;
         let feedError = null;
+        let fetchStatus = null;
 
         try {
           logger.info(`Processing feed: ${feed.name} (${feed.url})`);
           
-          // Fetch RSS feed
-          const rssData = await this.fetchRSSFeed(feed.url);
+          const fetchResult = await this.fetchFeed(feed);
+          fetchStatus = fetchResult.status;
+          bytesDownloaded += fetchResult.bytesDownloaded;
+          bytesSaved += fetchResult.bytesSaved;
+          const rssData = fetchResult.rssData;
           
-          if (rssData && rssData.items && rssData.items.length > 0) {
+          if (fetchStatus !== 'modified') {
+            notModifiedFeeds++;
+            await threatly2DatabaseService.clearFeedError(feed._id);
+          } else if (rssData && rssData.items && rssData.items.length > 0) {
             feedArticlesFetched = rssData.items.length;
             logger.info(`Fetched ${feedArticlesFetched} articles from ${feed.name}`);
             
-            // Process each article
-            for (const item of rssData.items) {
-              const isNew = await this.processArticle(item, feed);
-              if (isNew) {
-                feedNewArticles++;
-                totalNewArticles++;
-              }
-            }
+            feedNewArticles = await this.processItems(rssData.items, feed);
+            totalNewArticles += feedNewArticles;
+            await threatly2DatabaseService.updateFeedFetchState(feed._id, fetchResult.fetchState);
             
             // Clear error if successful
             await threatly2DatabaseService.clearFeedError(feed._id);
@@ -98,10 +112,12 @@ class Threatly2RSSService {
           feedId: feed._id,
           feedName: feed.name,
           feedUrl: feed.url,
-          articlesFetched: feedArticlesFetched,
+          status: feedError ? 'failed' : fetchStatus,
+          itemsFetched: feedArticlesFetched,
           newArticles: feedNewArticles,
+          duplicates: feedArticlesFetched - feedNewArticles,
           error: feedError,
-          processingTime: Date.now() - feedStartTime
+          duration: Date.now() - feedStartTime
         });
       }
 
@@ -112,6 +128,7 @@ class Threatly2RSSService {
       logger.info(`Total articles fetched: ${totalArticlesFetched}`);
       logger.info(`Total new articles: ${totalNewArticles}`);
       logger.info(`Total errors: ${totalErrors}`);
+      logger.info(`Feeds not modified: ${notModifiedFeeds}, bytes saved: ${bytesSaved}`);
 
       return {
         success: true,
@@ -119,8 +136,12 @@ class Threatly2RSSService {
         totalArticlesFetched,
         totalNewArticles,
         totalErrors,
+        notModifiedFeeds,
+        bytesDownloaded,
+        bytesSaved,
         processingTime: totalProcessingTime,
-        feedResults
+        feedResults,
+        cancelled
       };
 
       } catch (error) {
@@ -135,58 +156,79 @@ class Threatly2RSSService {
   }
 
   /**
-   * Fetch RSS feed from URL
+   * Fetch a feed with a conditional request (see feedFetchService)
    */
-  async fetchRSSFeed(url) {
+  async fetchFeed(feed) {
     try {
-      const feed = await this.parser.parseURL(url);
-      return feed;
+      const result = await feedFetchService.fetch(feed);
+      if (result.fetchState && result.status !== 'modified') {
+        await threatly2DatabaseService.updateFeedFetchState(feed._id, result.fetchState);
+      }
+      return result;
     } catch (error) {
-      logger.error(`Error fetching RSS feed from ${url}:`, error.message);
+      logger.error(`Error fetching RSS feed from ${feed.url}:`, error.message);
       throw error;
     }
   }
 
+  /**
+   * Process feed items, skipping links that are already stored
+   * @returns {Promise<number>} Number of new articles
+   */
+  async processItems(items, feed) {
+    const rawLinks = items.map(item => item.link).filter(Boolean);
+    const storedArticles = await threatly2DatabaseService.getArticlesByLinks(
+      Array.from(new Set([...rawLinks, ...rawLinks.map(canonicalizeUrl)]))
+    );
+
+    let newArticles = 0;
+    for (const item of items) {
+      const stored = storedArticles.get(item.link) || storedArticles.get(canonicalizeUrl(item.link));
+      if (stored) {
+        await this.processArticleUpdate(item, feed, stored);
+        continue;
+      }
+      if (await this.processArticle(item, feed)) {
+        newArticles++;
+      }
+    }
+    return newArticles;
+  }
+
   /**
    * Process individual article
    */
   async processArticle(item, feed) {
     try {
-      // Check if article already exists
-      const existingArticle = await threatly2DatabaseService.getArticleByLink(item.link);
+      // Same document as a scheduled run builds, so re-running a source does not see a changed article
+      const article = scheduler.buildArticle(item, feed);
+      if (!article) {
+        return false;
+      }
+
+      // Check if article already exists; tracking and AMP variants share the canonical link
+      const existingArticle = await threatly2DatabaseService.getArticleByLink(article.link);
       
       if (existingArticle) {
         logger.debug(`Article already exists: ${item.title}`);
+        await this.processArticleUpdate(item, feed, existingArticle);
         return false; // Not new
       }
 
-      // Create article object with correct structure
-      const article = {
-        title: item.title || 'No Title',
-        content: item.content || item.contentSnippet || item.summary || 'No content available',
-        link: item.link,
-        isoDate: item.isoDate ? new Date(item.isoDate) : new Date(),
-        source: feed.name,
-        feedUrl: feed.url,
-        type: feed.type || 'news', // Add type field from feed
-        processedAt: new Date(),
-        lastUpdated: new Date(),
-        alertMatches: [],
-        alertProcessedAt: new Date(),
-        industries: ['Other'], // Default industry
-        isSpam: false,
-        read: false,
-        saved: false
-      };
-
-      // Add optional fields if available
-      if (item.creator) article.creator = item.creator;
-      if (item.pubDate) article.pubDate = item.pubDate;
-      if (item.mediaContent) article.mediaContent = item.mediaContent;
-      if (item.mediaThumbnail) article.mediaThumbnail = item.mediaThumbnail;
+      // Snippet-only feeds: store the page's main text alongside the RSS summary
+      if (feed.fetchFullText) {
+        Object.assign(article, await fullTextService.getArticleFields(article));
+      }
+      Object.assign(article, await translationService.getArticleFields(article));
 
       // Save article to Articles collection
-      await threatly2DatabaseService.insertArticle(article);
+      const { insertedId } = await threatly2DatabaseService.insertArticle(article);
+      if (article.threadKey) {
+        await forumThreadService.recordPosts([{ ...article, _id: insertedId }]);
+      }
+      if (article.simhash) {
+        await storyService.assignStories([{ ...article, _id: insertedId }]);
+      }
       
       logger.debug(`Saved new article: ${article.title}`);
       
@@ -201,6 +243,48 @@ class Threatly2RSSService {
     }
   }
 
+  /**
+   * Record a revision when the feed republishes a stored article with changed
+   * content, and classify it again if the change is material. Copies of the
+   * link in other feeds are ignored.
+   * @returns {Promise<boolean>} Whether the article was updated
+   */
+  async processArticleUpdate(item, feed, stored) {
+    try {
+      if (stored.feedUrl !== feed.url) {
+        return false;
+      }
+
+      const article = scheduler.buildArticle(item, feed);
+      if (!article) {
+        return false;
+      }
+
+      const update = { title: article.title, content: article.content, lang: article.lang };
+      const change = articleRevisionService.detectChange(stored, update);
+      if (!change) {
+        return false;
+      }
+
+      if (change.material) {
+        if (feed.fetchFullText) {
+          Object.assign(update, await fullTextService.getArticleFields({ ...update, link: stored.link }));
+        }
+        Object.assign(update, await translationService.getArticleFields({ ...update, link: stored.link }));
+      }
+      await articleRevisionService.recordRevision(stored, update, change);
+
+      if (change.material) {
+        await this.processArticleClassification({ ...update, link: stored.link });
+      }
+      return true;
+
+    } catch (error) {
+      logger.error(`Error updating article ${item.title}:`, error.message);
+      return false;
+    }
+  }
+
   /**
    * Process article for classification and alert matching
    */
@@ -214,11 +298,16 @@ class Threatly2RSSService {
         return;
       }
 
-      // Classify article using classification service
-      const classificationResult = await classificationService.classifyArticle(
-        article.title + ' ' + article.content,
-        keywords
-      );
+      // Classify article using classification service. Keywords are matched
+      // against the original and, for articles in other languages, the translation.
+      const { translation } = article;
+      const text = [
+        article.title,
+        article.fullText || article.content,
+        translation && translation.title,
+        translation && (translation.fullText || translation.content)
+      ].filter(Boolean).join(' ');
+      const classificationResult = await classificationService.classifyArticle(text, keywords);
 
       // Update article with classification results
       const update = {
@@ -241,10 +330,15 @@ class Threatly2RSSService {
    * Fetch and process a single feed
    */
   async fetchSingleFeed(feedId) {
+    let run = null;
+    let feed = null;
+    let lock = null;
+    const startTime = Date.now();
+
     try {
       logger.info(`Starting to fetch single feed: ${feedId}`);
       
-      const feed = await threatly2DatabaseService.getFeedById(feedId);
+      feed = await threatly2DatabaseService.getFeedById(feedId);
       
       if (!feed) {
         logger.error(`Feed not found: ${feedId}`);
@@ -253,29 +347,68 @@ class Threatly2RSSService {
 
       logger.info(`Found feed: ${feed.name} (${feed.url})`);
 
-      const rssData = await this.fetchRSSFeed(feed.url);
-      logger.info(`RSS data fetched: ${rssData?.items?.length || 0} items`);
+      // The full workflow fetches this feed too, and a source only runs once at a time
+      lock = await workflowLockService.acquireSource(feed._id);
+      if (!lock) {
+        logger.info(`Workflow already in progress, not running feed ${feed.name}`);
+        return { success: false, busy: true, error: 'A workflow is already running for this source' };
+      }
+
+      run = await workflowRunService.start('single_source');
+      if (run._id) {
+        await workflowLockService.setRunId(lock, run._id);
+      }
+
+      const fetchResult = await this.fetchFeed(feed);
+      const rssData = fetchResult.rssData;
+      const itemsFetched = rssData?.items?.length || 0;
+      logger.info(`RSS data fetched (${fetchResult.status}): ${itemsFetched} items`);
       
       let newArticles = 0;
 
       if (rssData && rssData.items) {
-        for (const item of rssData.items) {
-          const isNew = await this.processArticle(item, feed);
-          if (isNew) {
-            newArticles++;
-          }
-        }
+        newArticles = await this.processItems(rssData.items, feed);
+        await threatly2DatabaseService.updateFeedFetchState(feed._id, fetchResult.fetchState);
       }
 
       logger.info(`Processed articles: ${newArticles} new articles`);
 
       await threatly2DatabaseService.clearFeedError(feed._id);
+      // A successful manual run also resets any backoff
+      await threatly2DatabaseService.updateFeedSchedule(feed._id, buildSuccessSchedule(feed, rssData ? rssData.items : null));
+
+      const notModified = fetchResult.status !== 'modified';
+      await workflowRunService.finish(run, {
+        status: 'completed',
+        totalFeeds: 1,
+        successfulFeeds: 1,
+        failedFeeds: 0,
+        notModifiedFeeds: notModified ? 1 : 0,
+        totalArticlesFetched: itemsFetched,
+        newArticles,
+        duplicates: itemsFetched - newArticles,
+        bytesDownloaded: fetchResult.bytesDownloaded,
+        bytesSaved: fetchResult.bytesSaved,
+        feedResults: [{
+          feedId: feed._id,
+          feedName: feed.name,
+          feedUrl: feed.url,
+          status: fetchResult.status,
+          itemsFetched,
+          newArticles,
+          duplicates: itemsFetched - newArticles,
+          duration: Date.now() - startTime,
+          error: null
+        }]
+      });
       
       const result = {
         success: true,
         feedName: feed.name,
-        articlesFetched: rssData?.items?.length || 0,
+        articlesFetched: itemsFetched,
         newArticles,
+        notModified,
+        bytesSaved: fetchResult.bytesSaved,
         error: null
       };
       
@@ -287,11 +420,33 @@ class Threatly2RSSService {
       
       // Update feed error status
       await threatly2DatabaseService.updateFeedError(feedId, error.message);
+
+      if (run) {
+        await workflowRunService.finish(run, {
+          status: 'failed',
+          totalFeeds: 1,
+          successfulFeeds: 0,
+          failedFeeds: 1,
+          feedResults: [{
+            feedId: feed._id,
+            feedName: feed.name,
+            feedUrl: feed.url,
+            status: 'failed',
+            duration: Date.now() - startTime,
+            error: error.message
+          }],
+          error: error.message
+        });
+      }
       
       return {
         success: false,
         error: error.message
       };
+    } finally {
+      if (lock) {
+        await workflowLockService.release(lock);
+      }
     }
   }
 }
@@ -0,0 +1,171 @@
+/**
+ * Schema of the per-article result of GPT alert processing, used both as
+ * the structured output format sent to the provider and to validate what
+ * comes back.
+ */
+
+const THREAT_LEVELS = ['HIGH', 'MEDIUM', 'LOW', 'NONE'];
+// 'N/A' for articles that describe no threat
+const THREAT_TYPES = ['malware', 'phishing', 'ransomware', 'data breach', 'vulnerability', 'APT', 'insider threat', 'other', 'N/A'];
+
+const RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Article ID from the prompt' },
+    threatLevel: { type: 'string', enum: THREAT_LEVELS },
+    threatType: { type: 'string', enum: THREAT_TYPES },
+    industries: { type: 'array', items: { type: 'string' } },
+    alertMatches: { type: 'array', items: { type: 'string' }, description: '_id values of matching alerts' },
+    isSpam: { type: 'boolean' }
+  },
+  required: ['id', 'threatLevel', 'threatType', 'industries', 'alertMatches', 'isSpam'],
+  additionalProperties: false
+};
+
+// Structured output needs an object at the top level, so the results are wrapped
+const ALERT_RESULTS_FORMAT = {
+  name: 'alert_results',
+  schema: {
+    type: 'object',
+    properties: {
+      results: { type: 'array', items: RESULT_SCHEMA }
+    },
+    required: ['results'],
+    additionalProperties: false
+  }
+};
+
+// First complete JSON array or object in a text, e.g. an answer wrapped in prose
+function findJson(text) {
+  for (let start = 0; start < text.length; start++) {
+    if (text[start] !== '[' && text[start] !== '{') {
+      continue;
+    }
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (char === '\\') {
+          i++;
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+        if (depth === 0) {
+          try {
+            return JSON.parse(text.slice(start, i + 1));
+          } catch (error) {
+            break;
+          }
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Result items of a model answer: a JSON array, { results: [...] }, or
+ * either of them inside a code fence or prose
+ * @param {string} content - Model answer
+ * @returns {Array|null} Items, or null if the answer holds no results
+ */
+function parseAlertResults(content) {
+  const text = String(content || '').trim();
+  let value;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    value = findJson(text);
+  }
+
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    if (Array.isArray(value.results)) {
+      return value.results;
+    }
+    // A batch of one answered with the bare result
+    if (value.id) {
+      return [value];
+    }
+  }
+  return null;
+}
+
+const isStringArray = (value) => Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+/**
+ * Validate one result item against the schema
+ * @param {*} item - Item from parseAlertResults
+ * @param {Object} context - { articleIds: Set, keywordIds: Set } of the batch
+ * @returns {Object} { result, errors, droppedKeywordIds }; result is null if
+ *   the item is invalid, otherwise { articleId, matches, industries, isSpam, threatLevel, threatType }.
+ *   Unknown keyword IDs are dropped from matches, not treated as errors.
+ */
+function validateAlertResult(item, { articleIds, keywordIds }) {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { result: null, errors: ['result is not an object'], droppedKeywordIds: [] };
+  }
+
+  const errors = [];
+  if (typeof item.id !== 'string' || !articleIds.has(item.id)) {
+    errors.push(`id ${JSON.stringify(item.id)} is not an article ID of this batch`);
+  }
+
+  const threatLevel = typeof item.threatLevel === 'string' ? item.threatLevel.toUpperCase() : null;
+  if (!THREAT_LEVELS.includes(threatLevel)) {
+    errors.push(`threatLevel must be one of ${THREAT_LEVELS.join(', ')}`);
+  }
+
+  const threatType = typeof item.threatType === 'string'
+    ? THREAT_TYPES.find(type => type.toLowerCase() === item.threatType.trim().toLowerCase())
+    : null;
+  if (!threatType) {
+    errors.push(`threatType must be one of ${THREAT_TYPES.join(', ')}`);
+  }
+
+  if (!isStringArray(item.industries)) {
+    errors.push('industries must be an array of strings');
+  }
+  if (!isStringArray(item.alertMatches)) {
+    errors.push('alertMatches must be an array of alert _id strings');
+  }
+  if (typeof item.isSpam !== 'boolean') {
+    errors.push('isSpam must be true or false');
+  }
+
+  if (errors.length > 0) {
+    return { result: null, errors, droppedKeywordIds: [] };
+  }
+
+  const matches = Array.from(new Set(item.alertMatches));
+  return {
+    result: {
+      articleId: item.id,
+      matches: matches.filter(id => keywordIds.has(id)),
+      industries: Array.from(new Set(item.industries.map(industry => industry.trim()).filter(Boolean))),
+      isSpam: item.isSpam,
+      threatLevel,
+      threatType
+    },
+    errors: [],
+    droppedKeywordIds: matches.filter(id => !keywordIds.has(id))
+  };
+}
+
+module.exports = {
+  THREAT_LEVELS,
+  THREAT_TYPES,
+  ALERT_RESULTS_FORMAT,
+  parseAlertResults,
+  validateAlertResult
+};
@@ -0,0 +1,297 @@
+const { ObjectId } = require('mongodb');
+const threatly2DatabaseService = require('../services/threatly2DatabaseService');
+const { compileSearchQuery } = require('./searchQuery');
+
+// Sort options exposed by the FilterBar; _id is always used as a tie-breaker.
+// Articles without the field sort as the fallback, so cursors never skip them.
+const SORT_OPTIONS = {
+  newest: { field: 'isoDate', direction: -1, fallback: new Date(0) },
+  oldest: { field: 'isoDate', direction: 1, fallback: new Date(0) },
+  title: { field: 'title', direction: 1, fallback: '' },
+  'title-desc': { field: 'title', direction: -1, fallback: '' }
+};
+
+// Relative time windows in days
+const TIME_FILTERS = {
+  '1day': 1,
+  '1week': 7,
+  '1month': 30,
+  '3months': 90
+};
+
+// Legacy severity values map onto the GPT threat level
+const SEVERITY_TO_THREAT_LEVEL = {
+  high: 'HIGH',
+  medium: 'MEDIUM',
+  low: 'LOW'
+};
+
+function getSortOption(sortBy) {
+  return SORT_OPTIONS[sortBy] || SORT_OPTIONS.newest;
+}
+
+/**
+ * Build the stage adding sortValue, the sort field or its fallback, to each article
+ */
+function buildSortValueStage(sortBy) {
+  const { field, fallback } = getSortOption(sortBy);
+  return { $addFields: { sortValue: { $ifNull: [`$${field}`, fallback] } } };
+}
+
+/**
+ * Build the Mongo sort for a sortBy value, on the sortValue of buildSortValueStage
+ */
+function buildSort(sortBy) {
+  const { direction } = getSortOption(sortBy);
+  return { sortValue: direction, _id: direction };
+}
+
+// FilterBar dropdowns that get faceted counts, keyed by query param
+const FACETS = {
+  industry: { field: '$industries', unwind: true },
+  source: { field: '$source' },
+  type: { field: '$type' },
+  severity: { field: '$threatLevel' },
+  threatLevel: { field: '$threatLevel' },
+  threatType: { field: '$threatType' },
+  language: { field: '$lang' }
+};
+
+/**
+ * Build one condition per FilterBar dropdown that is set in the query
+ */
+function buildFacetConditions(query = {}) {
+  const {
+    source = '',
+    industry = '',
+    type = '',
+    severity = '',
+    threatLevel = '',
+    threatType = '',
+    language = ''
+  } = query;
+
+  const conditions = {};
+
+  if (source) {
+    conditions.source = { source };
+  }
+
+  if (industry && industry !== 'all') {
+    conditions.industry = { industries: { $in: [industry] } };
+  }
+
+  if (type) {
+    conditions.type = { type };
+  }
+
+  if (severity && SEVERITY_TO_THREAT_LEVEL[severity]) {
+    conditions.severity = { threatLevel: SEVERITY_TO_THREAT_LEVEL[severity] };
+  }
+
+  if (threatLevel) {
+    conditions.threatLevel = { threatLevel };
+  }
+
+  if (threatType) {
+    conditions.threatType = { threatType };
+  }
+
+  if (language) {
+    conditions.language = { lang: language };
+  }
+
+  return conditions;
+}
+
+/**
+ * Build a Mongo filter for the Articles collection from request query params.
+ * Read/saved state is per user and filtered by buildUserStateStages.
+ */
+async function buildArticleFilter(query = {}) {
+  const {
+    search = '',
+    timeFilter = '',
+    spam = ''
+  } = query;
+
+  const conditions = [];
+
+  // search uses the query language in searchQuery.js
+  const searchFilter = await compileSearchQuery(search);
+  if (searchFilter) {
+    conditions.push(searchFilter);
+  }
+
+  conditions.push(...Object.values(buildFacetConditions(query)));
+
+  if (timeFilter && TIME_FILTERS[timeFilter]) {
+    const cutoffDate = new Date(Date.now() - TIME_FILTERS[timeFilter] * 24 * 60 * 60 * 1000);
+    conditions.push({ isoDate: { $gte: cutoffDate } });
+  }
+
+  if (spam !== '') {
+    conditions.push({ isSpam: spam === 'true' });
+  } else {
+    // By default, exclude spam articles from the main articles list
+    conditions.push({ isSpam: { $ne: true } });
+  }
+
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+/**
+ * Build the aggregation stages for the read, saved and hideRead query params.
+ * Each article is joined with the user's ArticleUserStates entry, so the
+ * filter does not depend on how many articles the user has flagged.
+ * Returns no stages without a user or when none of the params is set.
+ */
+function buildUserStateStages(query = {}, userId = null) {
+  const { read = '', saved = '', hideRead = '' } = query;
+
+  // hideRead is the FilterBar's name for read=false
+  const readFilter = hideRead === 'true' ? 'false' : read;
+
+  const conditions = {};
+  if (readFilter !== '') {
+    conditions['userState.read'] = readFilter === 'true' ? true : { $ne: true };
+  }
+  if (saved !== '') {
+    conditions['userState.saved'] = saved === 'true' ? true : { $ne: true };
+  }
+
+  if (!userId || Object.keys(conditions).length === 0) {
+    return [];
+  }
+
+  return [
+    {
+      $lookup: {
+        from: 'ArticleUserStates',
+        let: { articleId: '$_id' },
+        pipeline: [
+          { $match: { $expr: { $and: [{ $eq: ['$userId', new ObjectId(userId)] }, { $eq: ['$articleId', '$$articleId'] }] } } },
+          { $project: { _id: 0, read: 1, saved: 1 } }
+        ],
+        as: 'userState'
+      }
+    },
+    { $match: conditions },
+    { $project: { userState: 0 } }
+  ];
+}
+
+/**
+ * Count articles per value of every FilterBar dropdown for the current query.
+ * Each dropdown's counts ignore its own selection so other options stay visible.
+ * @param {Object|null} scope - Extra filter for pages that list a subset, e.g. alerts
+ */
+async function getArticleFacets(query = {}, userId = null, scope = null) {
+  const facetConditions = buildFacetConditions(query);
+  const baseQuery = { ...query };
+  Object.keys(FACETS).forEach(name => delete baseQuery[name]);
+
+  // $text has to be in the first stage, so everything shared goes in one $match
+  const queryFilter = await buildArticleFilter(baseQuery);
+  const baseFilter = scope ? { $and: [queryFilter, scope] } : queryFilter;
+  const facetStages = {
+    total: [
+      ...(Object.keys(facetConditions).length > 0 ? [{ $match: { $and: Object.values(facetConditions) } }] : []),
+      { $count: 'count' }
+    ]
+  };
+
+  Object.entries(FACETS).forEach(([name, facet]) => {
+    const otherConditions = Object.entries(facetConditions)
+      .filter(([dimension]) => dimension !== name)
+      .map(([, condition]) => condition);
+    const pipeline = [];
+    if (otherConditions.length > 0) {
+      pipeline.push({ $match: { $and: otherConditions } });
+    }
+    if (facet.unwind) {
+      pipeline.push({ $unwind: facet.field });
+    }
+    pipeline.push(
+      { $group: { _id: facet.field, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } }
+    );
+    facetStages[name] = pipeline;
+  });
+
+  const db = await threatly2DatabaseService.connect();
+  const [result] = await db.collection('Articles').aggregate([
+    { $match: baseFilter },
+    ...buildUserStateStages(baseQuery, userId),
+    { $facet: facetStages }
+  ]).toArray();
+
+  const facets = { total: result.total.length > 0 ? result.total[0].count : 0 };
+  Object.keys(FACETS).forEach(name => {
+    facets[name] = result[name]
+      .filter(bucket => bucket._id !== null && bucket._id !== '' && bucket._id !== 'N/A')
+      .map(bucket => ({ value: bucket._id, count: bucket.count }));
+  });
+
+  // Severity is the lowercase view of the HIGH/MEDIUM/LOW threat levels
+  const severities = Object.keys(SEVERITY_TO_THREAT_LEVEL);
+  facets.severity = facets.severity
+    .map(bucket => ({ value: severities.find(severity => SEVERITY_TO_THREAT_LEVEL[severity] === bucket.value), count: bucket.count }))
+    .filter(bucket => bucket.value);
+
+  return facets;
+}
+
+/**
+ * Encode the position of an article in a sorted result set as an opaque cursor
+ */
+function encodeCursor(article, sortBy) {
+  const { field, fallback } = getSortOption(sortBy);
+  const value = article[field] ?? fallback;
+  const payload = {
+    v: value instanceof Date ? value.toISOString() : value,
+    d: value instanceof Date,
+    id: article._id.toString()
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor into a filter selecting the articles after it, applied
+ * after buildSortValueStage. Returns null when the cursor is malformed.
+ */
+function buildCursorFilter(cursor, sortBy) {
+  let payload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    return null;
+  }
+
+  if (!payload || typeof payload.id !== 'string' || !ObjectId.isValid(payload.id)) {
+    return null;
+  }
+
+  const { direction } = getSortOption(sortBy);
+  const operator = direction === -1 ? '$lt' : '$gt';
+  const value = payload.d ? new Date(payload.v) : payload.v;
+  const id = new ObjectId(payload.id);
+
+  return {
+    $or: [
+      { sortValue: { [operator]: value } },
+      { sortValue: value, _id: { [operator]: id } }
+    ]
+  };
+}
+
+module.exports = {
+  SORT_OPTIONS,
+  buildSortValueStage,
+  buildSort,
+  buildArticleFilter,
+  buildUserStateStages,
+  getArticleFacets,
+  encodeCursor,
+  buildCursorFilter
+};
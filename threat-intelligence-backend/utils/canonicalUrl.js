@@ -0,0 +1,184 @@
+/**
+ * URL canonicalization, so the same story reached through redirect wrappers,
+ * tracking parameters or AMP pages is stored under one link.
+ */
+
+// Query parameters that only track the click
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'igshid', 'mc_cid', 'mc_eid',
+  '_hsenc', '_hsmi', 'mkt_tok', 'ref_src', 'ref_url', 'cmpid', 'ocid', 'ncid',
+  'sr_share', 's_cid', 'oc', '__twitter_impression'
+]);
+const TRACKING_PREFIXES = ['utm_', 'at_', 'pk_'];
+
+// Redirect wrappers: host -> path prefix and query parameter with the target URL
+const REDIRECTS = [
+  { host: /^(www\.)?google\.[a-z.]+$/, path: '/url', params: ['url', 'q'] },
+  { host: /^news\.google\.com$/, path: '/', params: ['url'] },
+  { host: /^l\.facebook\.com$/, path: '/l.php', params: ['u'] },
+  { host: /^out\.reddit\.com$/, path: '/', params: ['url'] },
+  { host: /^(www\.)?bing\.com$/, path: '/news/apiclick.aspx', params: ['url'] },
+  { host: /^t\.umblr\.com$/, path: '/redirect', params: ['z'] }
+];
+
+// Nested redirects are unwrapped up to this depth
+const MAX_UNWRAP_DEPTH = 3;
+
+function isTrackingParam(name) {
+  const lower = name.toLowerCase();
+  return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix));
+}
+
+/**
+ * Original URL encoded in a Google News article ID, e.g.
+ * news.google.com/rss/articles/CBMi...: a base64 protobuf message whose
+ * string field 4 holds the URL. Newer IDs can only be resolved by
+ * requesting Google, so they return null and the link is kept as is.
+ */
+function decodeGoogleNewsId(id) {
+  const bytes = Buffer.from(id.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+  const start = bytes.indexOf('http');
+  if (start < 2) {
+    return null;
+  }
+
+  // The URL is preceded by the field tag (0x22) and a one or two byte varint length
+  let length = null;
+  if (bytes[start - 2] === 0x22 && bytes[start - 1] < 0x80) {
+    length = bytes[start - 1];
+  } else if (start >= 3 && bytes[start - 3] === 0x22 && bytes[start - 2] >= 0x80) {
+    length = (bytes[start - 2] & 0x7f) | (bytes[start - 1] << 7);
+  }
+  if (length === null || start + length > bytes.length) {
+    return null;
+  }
+
+  const url = bytes.slice(start, start + length).toString('utf8');
+  return /^https?:\/\/[^\s]+$/.test(url) ? url : null;
+}
+
+/**
+ * Target of a redirect wrapper or Google News article link, or null
+ * @param {URL} url
+ * @returns {string|null}
+ */
+function getRedirectTarget(url) {
+  const host = url.hostname;
+
+  if (host === 'news.google.com') {
+    const match = url.pathname.match(/^(?:\/rss)?\/articles\/([A-Za-z0-9_-]+)/);
+    if (match) {
+      return decodeGoogleNewsId(match[1]);
+    }
+  }
+
+  for (const redirect of REDIRECTS) {
+    if (!redirect.host.test(host) || !url.pathname.startsWith(redirect.path)) {
+      continue;
+    }
+    for (const param of redirect.params) {
+      const target = url.searchParams.get(param);
+      if (target && /^https?:\/\//i.test(target)) {
+        return target;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Canonical page of an AMP URL, or null if the URL is not an AMP page.
+ * Covers the AMP cache, Google's AMP viewer and /amp path suffixes.
+ * @param {URL} url
+ * @returns {string|null}
+ */
+function getAmpTarget(url) {
+  // https://example-com.cdn.ampproject.org/c/s/example.com/story
+  if (url.hostname.endsWith('.cdn.ampproject.org')) {
+    const match = url.pathname.match(/^\/[a-z]+\/(s\/)?(.+)$/);
+    if (match) {
+      return `${match[1] ? 'https' : 'http'}://${match[2]}${url.search}`;
+    }
+  }
+
+  // https://www.google.com/amp/s/example.com/story
+  if (/^(www\.)?google\.[a-z.]+$/.test(url.hostname)) {
+    const match = url.pathname.match(/^\/amp\/(s\/)?(.+)$/);
+    if (match) {
+      return `${match[1] ? 'https' : 'http'}://${match[2]}${url.search}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Canonical form of an article URL:
+ * - redirect wrappers (Google, Google News, Facebook, Reddit, Bing) are unwrapped
+ * - AMP cache and viewer URLs point to the publisher's page; /amp suffixes
+ *   and amp query flags are removed
+ * - tracking parameters (utm_*, fbclid, ...) are removed and the remaining
+ *   parameters sorted
+ * - host is lowercased, default ports and trailing slashes are dropped
+ * - tracking fragments (#xtor=RSS-1) are dropped; other fragments are kept,
+ *   as some sources identify items by fragment
+ * Values that are not http(s) URLs are returned trimmed.
+ * @param {string} value - Article URL
+ * @returns {string} Canonical URL
+ */
+function canonicalizeUrl(value) {
+  if (typeof value !== 'string') {
+    return '';
+  }
+
+  let current = value.trim();
+  let url;
+  for (let depth = 0; depth <= MAX_UNWRAP_DEPTH; depth++) {
+    try {
+      url = new URL(current);
+    } catch (error) {
+      return value.trim();
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return value.trim();
+    }
+
+    const target = depth < MAX_UNWRAP_DEPTH ? getRedirectTarget(url) || getAmpTarget(url) : null;
+    if (!target) {
+      break;
+    }
+    current = target;
+  }
+
+  url.pathname = url.pathname
+    .replace(/\/amp\/?$/i, '/')
+    .replace(/\.amp(\.html?)$/i, '$1')
+    .replace(/(.)\/+$/, '$1');
+
+  const allParams = Array.from(url.searchParams.entries());
+  const params = allParams.filter(([name, paramValue]) => {
+    if (isTrackingParam(name)) {
+      return false;
+    }
+    // ?amp, ?amp=1, ?outputType=amp
+    return !(name.toLowerCase() === 'amp' && (paramValue === '' || paramValue === '1' || paramValue === 'true'))
+      && !(name === 'outputType' && paramValue === 'amp');
+  });
+  params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  // Rewriting the query re-encodes it, so leave clean queries as they are
+  if (params.length !== allParams.length || params.some(([name], index) => name !== allParams[index][0])) {
+    url.search = new URLSearchParams(params).toString();
+  }
+
+  if (url.hash === '#' || url.hash.includes('=')) {
+    url.hash = '';
+  }
+
+  return url.href;
+}
+
+module.exports = {
+  canonicalizeUrl,
+  decodeGoogleNewsId
+};
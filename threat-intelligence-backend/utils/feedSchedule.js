@@ -0,0 +1,121 @@
+// All intervals are in minutes
+const DEFAULT_FETCH_INTERVAL = parseInt(process.env.FEED_DEFAULT_INTERVAL_MINUTES, 10) || 60;
+const MIN_FETCH_INTERVAL = 5;
+// Adaptive polling never waits longer than this between fetches
+const MAX_ADAPTIVE_INTERVAL = 24 * 60;
+const MAX_BACKOFF_INTERVAL = 24 * 60;
+// Feeds are deactivated after this many consecutive failed fetches
+const MAX_CONSECUTIVE_FAILURES = parseInt(process.env.FEED_MAX_CONSECUTIVE_FAILURES, 10) || 10;
+// Number of recent item dates used to estimate how often a feed publishes
+const PUBLISH_SAMPLE_SIZE = 10;
+
+function clamp(value, min, max) {
+  return Math.min(Math.max(value, min), max);
+}
+
+function addMinutes(date, minutes) {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Configured interval of a feed, falling back to the default
+ */
+function getFetchInterval(feed) {
+  const interval = parseInt(feed.fetchInterval, 10);
+  return interval > 0 ? Math.max(interval, MIN_FETCH_INTERVAL) : DEFAULT_FETCH_INTERVAL;
+}
+
+/**
+ * Average gap in minutes between the most recent item dates, or null if
+ * there are not enough dated items to tell
+ */
+function getAveragePublishGap(items) {
+  const dates = items
+    .map(item => new Date(item.isoDate || item.pubDate).getTime())
+    .filter(time => !Number.isNaN(time))
+    .sort((a, b) => b - a)
+    .slice(0, PUBLISH_SAMPLE_SIZE);
+
+  if (dates.length < 2) {
+    return null;
+  }
+  return (dates[0] - dates[dates.length - 1]) / (dates.length - 1) / 60000;
+}
+
+/**
+ * Polling interval for a feed after a successful fetch. With adaptive polling
+ * the feed is checked about twice per publish gap, never more often than its
+ * configured interval and never less often than once a day.
+ * @param {Object} feed - Feed document
+ * @param {Array|null} items - Parsed items, or null if the feed was not modified
+ */
+function getPollInterval(feed, items) {
+  const fetchInterval = getFetchInterval(feed);
+  if (feed.adaptivePolling === false) {
+    return fetchInterval;
+  }
+
+  const gap = items ? getAveragePublishGap(items) : null;
+  if (gap === null) {
+    // Unchanged or undated feed: keep the previous estimate
+    return clamp(feed.pollInterval || fetchInterval, fetchInterval, MAX_ADAPTIVE_INTERVAL);
+  }
+  return Math.round(clamp(gap / 2, fetchInterval, MAX_ADAPTIVE_INTERVAL));
+}
+
+/**
+ * Feed fields to set after a successful fetch
+ */
+function buildSuccessSchedule(feed, items, now = new Date()) {
+  const pollInterval = getPollInterval(feed, items);
+  return {
+    pollInterval,
+    consecutiveFailures: 0,
+    lastSuccessAt: now,
+    nextFetchAt: addMinutes(now, pollInterval)
+  };
+}
+
+/**
+ * Feed fields to set after a failed fetch: exponential backoff, and
+ * deactivation once MAX_CONSECUTIVE_FAILURES is reached
+ */
+function buildFailureSchedule(feed, errorMessage, now = new Date()) {
+  const consecutiveFailures = (feed.consecutiveFailures || 0) + 1;
+  const pollInterval = feed.pollInterval || getFetchInterval(feed);
+  const backoff = Math.min(pollInterval * Math.pow(2, consecutiveFailures - 1), MAX_BACKOFF_INTERVAL);
+
+  const update = {
+    consecutiveFailures,
+    nextFetchAt: addMinutes(now, backoff)
+  };
+
+  if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+    update.isActive = false;
+    update.disabledAt = now;
+    update.disabledReason = `Disabled after ${consecutiveFailures} consecutive failed fetches. Last error: ${errorMessage}`;
+  }
+  return update;
+}
+
+/**
+ * Fields to reset when a feed is (re)activated or its interval changes
+ */
+function buildResetSchedule() {
+  return {
+    consecutiveFailures: 0,
+    disabledAt: null,
+    disabledReason: null,
+    nextFetchAt: null
+  };
+}
+
+module.exports = {
+  DEFAULT_FETCH_INTERVAL,
+  MIN_FETCH_INTERVAL,
+  MAX_CONSECUTIVE_FAILURES,
+  getFetchInterval,
+  buildSuccessSchedule,
+  buildFailureSchedule,
+  buildResetSchedule
+};
@@ -0,0 +1,85 @@
+const FEED_FETCH_CONCURRENCY = parseInt(process.env.FEED_FETCH_CONCURRENCY, 10) || 5;
+const FEED_FETCH_PER_HOST = parseInt(process.env.FEED_FETCH_PER_HOST, 10) || 2;
+const FEED_FETCH_TIMEOUT_MS = parseInt(process.env.FEED_FETCH_TIMEOUT_MS, 10) || 15000;
+const FEED_RUN_DEADLINE_MS = parseInt(process.env.FEED_RUN_DEADLINE_MS, 10) || 10 * 60 * 1000;
+
+function getHost(url) {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch (error) {
+    return url;
+  }
+}
+
+/**
+ * Run a worker for every feed with a global and a per-host concurrency limit.
+ *
+ * Once the deadline has passed or shouldStop() returns true, no new feeds are
+ * started; feeds that never ran are returned with `skipped` set to 'deadline'
+ * or 'cancelled'. Workers are expected to bound their own requests with a timeout.
+ *
+ * @param {Array} feeds - Feed documents
+ * @param {Function} worker - async (feed) => value
+ * @param {Object} options - { concurrency, perHostConcurrency, deadline (timestamp in ms), shouldStop }
+ * @returns {Promise<Array>} One { feed, value } / { feed, error } / { feed, skipped } per feed
+ */
+function runFeedPool(feeds, worker, options = {}) {
+  const {
+    concurrency = FEED_FETCH_CONCURRENCY,
+    perHostConcurrency = FEED_FETCH_PER_HOST,
+    deadline = Date.now() + FEED_RUN_DEADLINE_MS,
+    shouldStop = () => false
+  } = options;
+
+  const pending = [...feeds];
+  const hostCounts = new Map();
+  const results = [];
+  let active = 0;
+
+  return new Promise(resolve => {
+    const launch = () => {
+      const stopReason = Date.now() >= deadline ? 'deadline' : shouldStop() ? 'cancelled' : null;
+      if (stopReason) {
+        pending.splice(0).forEach(feed => results.push({ feed, skipped: stopReason }));
+      }
+
+      while (active < concurrency && pending.length > 0) {
+        // First queued feed whose host still has a free slot
+        const index = pending.findIndex(feed => (hostCounts.get(getHost(feed.url)) || 0) < perHostConcurrency);
+        if (index === -1) {
+          break;
+        }
+
+        const [feed] = pending.splice(index, 1);
+        const host = getHost(feed.url);
+        hostCounts.set(host, (hostCounts.get(host) || 0) + 1);
+        active++;
+
+        Promise.resolve()
+          .then(() => worker(feed))
+          .then(value => ({ feed, value }), error => ({ feed, error }))
+          .then(result => {
+            results.push(result);
+            hostCounts.set(host, hostCounts.get(host) - 1);
+            active--;
+            launch();
+          });
+      }
+
+      if (active === 0 && pending.length === 0) {
+        resolve(results);
+      }
+    };
+
+    launch();
+  });
+}
+
+module.exports = {
+  FEED_FETCH_CONCURRENCY,
+  FEED_FETCH_PER_HOST,
+  FEED_FETCH_TIMEOUT_MS,
+  FEED_RUN_DEADLINE_MS,
+  getHost,
+  runFeedPool
+};
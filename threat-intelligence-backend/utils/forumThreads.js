@@ -0,0 +1,118 @@
+// "Re: Title", "RE:Title", "Re[2]: Title"
+const REPLY_PREFIX = /^\s*re(\[\d+\])?\s*:\s*/i;
+// Reddit comment feeds title comments as "/u/name on Post title"
+const REDDIT_COMMENT_TITLE = /^\/?u\/\S+ on (.+)$/i;
+
+function stripReplyPrefixes(title) {
+  let stripped = title;
+  while (REPLY_PREFIX.test(stripped)) {
+    stripped = stripped.replace(REPLY_PREFIX, '');
+  }
+  return stripped.trim();
+}
+
+function normalizeTitle(title) {
+  return stripReplyPrefixes(title).toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Thread from the URL layout of common forum software, or null if the URL
+ * is not recognized
+ */
+function matchThreadUrl(url) {
+  const path = url.pathname.replace(/\/+$/, '');
+
+  // Discourse: /t/slug/123 or /t/slug/123/4 (post number 4)
+  let match = path.match(/^(.*\/t\/[^/]+\/(\d+))(?:\/(\d+))?$/);
+  if (match) {
+    return {
+      key: `${url.host}/t/${match[2]}`,
+      url: `${url.origin}${match[1]}`,
+      isReply: Boolean(match[3]) && match[3] !== '1'
+    };
+  }
+
+  // Reddit: /r/sub/comments/abc/slug or /r/sub/comments/abc/slug/commentid
+  match = path.match(/^(\/r\/[^/]+\/comments\/([a-z0-9]+)(?:\/[^/]+)?)(?:\/([a-z0-9]+))?$/i);
+  if (match) {
+    return {
+      key: `${url.host.replace(/^(www|old)\./, '')}/comments/${match[2]}`,
+      url: `${url.origin}${match[1]}`,
+      isReply: Boolean(match[3])
+    };
+  }
+
+  // XenForo: /threads/slug.123/ or /threads/slug.123/post-456
+  match = path.match(/^(.*\/threads\/(?:[^/]*\.)?(\d+))(?:\/(?:post-\d+|page-\d+))?$/);
+  if (match) {
+    return {
+      key: `${url.host}/threads/${match[2]}`,
+      url: `${url.origin}${match[1]}/`,
+      isReply: /post-\d+/.test(path) || /^#?post-\d+/.test(url.hash)
+    };
+  }
+
+  // phpBB and vBulletin: viewtopic.php?t=123 / showthread.php?t=123, with p=456 for a post
+  const topicId = url.searchParams.get('t') || url.searchParams.get('topic');
+  if (/(viewtopic|showthread)\.php$/.test(path) && topicId) {
+    return {
+      key: `${url.host}${path}?t=${topicId}`,
+      url: `${url.origin}${path}?t=${topicId}`,
+      isReply: null
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Work out which thread a forum feed item belongs to and whether it is the
+ * opening post or a reply. Known forum URL layouts identify the thread by
+ * its ID; otherwise posts are grouped by title with "Re:" prefixes removed.
+ * @param {Object} item - Parsed feed item
+ * @param {Object} feed - Feed document
+ * @returns {Object|null} { key, title, url, isReply }, or null without a title or link
+ */
+function getThreadInfo(item, feed) {
+  const link = item.link || item.guid || '';
+  let title = (item.title || '').trim();
+  if (!link || !title) {
+    return null;
+  }
+
+  const redditComment = title.match(REDDIT_COMMENT_TITLE);
+  if (redditComment) {
+    title = redditComment[1];
+  }
+  const hasReplyPrefix = REPLY_PREFIX.test(title);
+  const threadTitle = stripReplyPrefixes(title) || title;
+
+  let url = null;
+  try {
+    url = new URL(link);
+  } catch (error) {
+    // Fall through to title grouping
+  }
+
+  const fromUrl = url && matchThreadUrl(url);
+  if (fromUrl) {
+    return {
+      key: fromUrl.key,
+      title: threadTitle,
+      url: fromUrl.url,
+      isReply: fromUrl.isReply === null ? hasReplyPrefix || Boolean(url.searchParams.get('p')) : fromUrl.isReply || Boolean(redditComment)
+    };
+  }
+
+  return {
+    key: `${feed.url}#${normalizeTitle(title)}`,
+    title: threadTitle,
+    url: hasReplyPrefix ? null : link,
+    isReply: hasReplyPrefix
+  };
+}
+
+module.exports = {
+  getThreadInfo,
+  stripReplyPrefixes
+};
@@ -0,0 +1,97 @@
+/**
+ * Language detection for ingested articles, without a model: scripts
+ * identify most non-Latin languages, stopword counts the Latin ones.
+ */
+
+// Letters of a script that identify a language on their own. Kana before Han,
+// since Japanese text mixes both.
+const SCRIPTS = [
+  { code: 'ja', pattern: /[぀-ヿ]/gu },
+  { code: 'ko', pattern: /[가-힯ᄀ-ᇿ]/gu },
+  { code: 'zh', pattern: /[一-鿿]/gu },
+  { code: 'ru', pattern: /[Ѐ-ӿ]/gu },
+  { code: 'ar', pattern: /[؀-ۿ]/gu },
+  { code: 'he', pattern: /[֐-׿]/gu },
+  { code: 'el', pattern: /[Ͱ-Ͽ]/gu },
+  { code: 'th', pattern: /[฀-๿]/gu }
+];
+
+// Cyrillic letters Russian does not use
+const UKRAINIAN_LETTERS = /[іїєґ]/iu;
+
+const STOPWORDS = {
+  en: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'for', 'with', 'on', 'are', 'was', 'by', 'this', 'has', 'have', 'from', 'be', 'it', 'an'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'von', 'den', 'ein', 'eine', 'auf', 'für', 'sich', 'dem', 'des', 'auch', 'wird', 'werden', 'bei'],
+  fr: ['le', 'la', 'les', 'et', 'des', 'du', 'est', 'une', 'un', 'pour', 'dans', 'que', 'qui', 'sur', 'pas', 'par', 'avec', 'sont', 'au', 'ce'],
+  es: ['el', 'la', 'los', 'las', 'y', 'de', 'que', 'en', 'es', 'por', 'con', 'para', 'una', 'del', 'se', 'al', 'como', 'más', 'su', 'ha'],
+  it: ['il', 'di', 'che', 'è', 'la', 'per', 'una', 'sono', 'della', 'del', 'con', 'non', 'gli', 'nel', 'alla', 'anche', 'come', 'dei', 'delle', 'ha'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'voor', 'met', 'niet', 'zijn', 'die', 'er', 'ook', 'aan', 'wordt', 'door', 'bij'],
+  pt: ['o', 'os', 'as', 'e', 'de', 'que', 'em', 'um', 'uma', 'para', 'com', 'não', 'por', 'mais', 'do', 'da', 'dos', 'das', 'foi', 'são']
+};
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(([code, words]) => [code, new Set(words)]);
+
+// Fewer letters or stopword hits than this is too little to tell. Chinese
+// has no kana, so a few of them already mark Japanese.
+const MIN_SCRIPT_LETTERS = 5;
+const MIN_KANA = 2;
+const MIN_STOPWORDS = 2;
+// Only the start of the text is looked at
+const MAX_CHARS = 2000;
+
+function countMatches(text, pattern) {
+  const matches = text.match(pattern);
+  return matches ? matches.length : 0;
+}
+
+function detectByScript(text) {
+  const letters = countMatches(text, /\p{L}/gu);
+  if (letters === 0) {
+    return null;
+  }
+
+  for (const { code, pattern } of SCRIPTS) {
+    const count = countMatches(text, pattern);
+    // Japanese needs only some kana among its kanji; others make up most letters
+    const japanese = code === 'ja';
+    const share = japanese ? (count + countMatches(text, /[一-鿿]/gu)) / letters : count / letters;
+    if (count >= (japanese ? MIN_KANA : MIN_SCRIPT_LETTERS) && share >= 0.3) {
+      if (code === 'ru' && UKRAINIAN_LETTERS.test(text)) {
+        return 'uk';
+      }
+      return code;
+    }
+  }
+  return null;
+}
+
+function detectByStopwords(text) {
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  let best = null;
+  let bestCount = MIN_STOPWORDS - 1;
+  for (const [code, stopwords] of STOPWORD_SETS) {
+    const count = words.filter(word => stopwords.has(word)).length;
+    if (count > bestCount) {
+      best = code;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Detect the language of a text
+ * @param {string} text - Title and content; markup is ignored
+ * @returns {string} ISO 639-1 code, or 'und' if the language could not be told
+ */
+function detectLanguage(text) {
+  const plain = String(text || '')
+    .replace(/<[^>]+>/g, ' ')
+    .slice(0, MAX_CHARS);
+
+  return detectByScript(plain) || detectByStopwords(plain) || 'und';
+}
+
+module.exports = {
+  detectLanguage
+};
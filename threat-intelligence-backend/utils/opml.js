@@ -0,0 +1,113 @@
+const { JSDOM } = require('jsdom');
+
+function escapeXml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Read the feed outlines of an OPML document. An outline without xmlUrl is a
+ * folder; its title is returned as the `folder` of the feeds nested in it.
+ * @param {string} xml - OPML document
+ * @returns {Array} { name, url, description, htmlUrl, folder } per feed outline
+ * @throws {Error} If the document is not OPML
+ */
+function parseOpml(xml) {
+  let document;
+  try {
+    ({ document } = new JSDOM(xml, { contentType: 'text/xml' }).window);
+  } catch (error) {
+    throw new Error(`Invalid OPML document: ${error.message}`);
+  }
+
+  if (!document.documentElement || document.documentElement.nodeName !== 'opml') {
+    throw new Error('Invalid OPML document');
+  }
+
+  const entries = [];
+  document.querySelectorAll('outline[xmlUrl]').forEach(outline => {
+    const url = outline.getAttribute('xmlUrl').trim();
+
+    // Nearest enclosing folder
+    let folder = null;
+    for (let parent = outline.parentElement; parent && parent.nodeName === 'outline'; parent = parent.parentElement) {
+      if (!parent.hasAttribute('xmlUrl')) {
+        folder = parent.getAttribute('title') || parent.getAttribute('text') || null;
+        break;
+      }
+    }
+
+    entries.push({
+      name: (outline.getAttribute('title') || outline.getAttribute('text') || '').trim() || url,
+      url,
+      description: outline.getAttribute('description') || '',
+      htmlUrl: outline.getAttribute('htmlUrl') || '',
+      folder
+    });
+  });
+
+  return entries;
+}
+
+// Scraper and JSON API sources have no feed at their URL; importing them as RSS would break them
+const isRssFeed = feed => !feed.sourceType || feed.sourceType === 'rss';
+
+/**
+ * Build an OPML 2.0 document with one folder per feed category.
+ * Only RSS/Atom sources are exported.
+ * @param {Array} feeds - Feed documents
+ * @returns {string} OPML document
+ */
+function buildOpml(feeds) {
+  const byCategory = new Map();
+  feeds.filter(isRssFeed).forEach(feed => {
+    const category = feed.category || 'general';
+    if (!byCategory.has(category)) {
+      byCategory.set(category, []);
+    }
+    byCategory.get(category).push(feed);
+  });
+
+  const folders = Array.from(byCategory.keys()).sort().map(category => {
+    const outlines = byCategory.get(category).map(feed => {
+      const attributes = [
+        'type="rss"',
+        `text="${escapeXml(feed.name)}"`,
+        `title="${escapeXml(feed.name)}"`,
+        `xmlUrl="${escapeXml(feed.url)}"`
+      ];
+      if (feed.description) {
+        attributes.push(`description="${escapeXml(feed.description)}"`);
+      }
+      return `      <outline ${attributes.join(' ')}/>`;
+    });
+    return [
+      `    <outline text="${escapeXml(category)}" title="${escapeXml(category)}">`,
+      ...outlines,
+      '    </outline>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    '    <title>Threat Intelligence Sources</title>',
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...folders,
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n');
+}
+
+module.exports = {
+  parseOpml,
+  buildOpml,
+  isRssFeed
+};
@@ -0,0 +1,358 @@
+const threatly2DatabaseService = require('../services/threatly2DatabaseService');
+
+/*
+ * Search query language used by the article search box.
+ *
+ *   ransomware "supply chain"          words and quoted phrases (AND by default)
+ *   lockbit OR blackcat                boolean OR, AND and NOT (uppercase)
+ *   -phishing / NOT phishing           negation
+ *   (a OR b) c                         grouping
+ *   source:bleepingcomputer            field qualifiers, values may be quoted
+ *   industry:Healthcare threatType:ransomware threatLevel:high
+ *   keyword:samsung_sdi cve:2024-3400
+ *   after:2026-01-01 before:2026-02-01 date range on the article date
+ *   lang:de                            detected article language
+ *
+ * Words match the translation of articles in other languages as well as
+ * the original.
+ * Parsing is lenient: unbalanced quotes or parentheses are closed
+ * implicitly and unknown qualifiers are searched as plain text.
+ */
+
+const SEARCH_FIELDS = ['source', 'industry', 'threatType', 'threatLevel', 'keyword', 'cve', 'after', 'before', 'lang'];
+
+// Scripts written without spaces between words: the text index cannot
+// split them into words, so terms in them are matched by regex
+const UNSEGMENTED_SCRIPT = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\u0e00-\u0e7f]/;
+
+const OPERATORS = ['AND', 'OR', 'NOT'];
+
+function escapeRegex(value) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findField(name) {
+  return SEARCH_FIELDS.find(field => field.toLowerCase() === name.toLowerCase()) || null;
+}
+
+// Read a quoted string starting at the opening quote; returns [value, nextIndex]
+function readQuoted(input, start) {
+  const end = input.indexOf('"', start + 1);
+  if (end === -1) {
+    return [input.slice(start + 1), input.length];
+  }
+  return [input.slice(start + 1, end), end + 1];
+}
+
+function tokenize(input) {
+  const tokens = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char });
+      i++;
+    } else if (char === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      tokens.push({ type: 'NOT' });
+      i++;
+    } else if (char === '"') {
+      const [value, next] = readQuoted(input, i);
+      tokens.push({ type: 'term', value, phrase: true });
+      i = next;
+    } else {
+      let j = i;
+      while (j < input.length && !/[\s()"]/.test(input[j])) {
+        j++;
+      }
+      let word = input.slice(i, j);
+      const colon = word.indexOf(':');
+
+      // Quoted qualifier value, e.g. source:"The Hacker News"
+      if (colon > 0 && colon === word.length - 1 && input[j] === '"') {
+        const [value, next] = readQuoted(input, j);
+        tokens.push({ type: 'field', name: word.slice(0, colon), value });
+        i = next;
+        continue;
+      }
+
+      if (OPERATORS.includes(word)) {
+        tokens.push({ type: word });
+      } else if (colon > 0 && colon < word.length - 1) {
+        tokens.push({ type: 'field', name: word.slice(0, colon), value: word.slice(colon + 1) });
+      } else {
+        word = word.trim();
+        if (word) {
+          tokens.push({ type: 'term', value: word, phrase: false });
+        }
+      }
+      i = j;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a search query into an expression tree.
+ * Returns null for an empty query.
+ */
+function parseSearchQuery(input = '') {
+  const tokens = tokenize(String(input));
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const startsOperand = (token) => token && token.type !== ')' && token.type !== 'OR' && token.type !== 'AND';
+
+  function parseOr() {
+    const children = [parseAnd()];
+    while (peek() && peek().type === 'OR') {
+      position++;
+      children.push(parseAnd());
+    }
+    return combine('or', children);
+  }
+
+  function parseAnd() {
+    const children = [];
+    while (peek() && peek().type !== ')' && peek().type !== 'OR') {
+      if (peek().type === 'AND') {
+        position++;
+        continue;
+      }
+      children.push(parseUnary());
+    }
+    return combine('and', children);
+  }
+
+  function parseUnary() {
+    const token = peek();
+    if (token.type === 'NOT') {
+      position++;
+      if (!startsOperand(peek())) {
+        return null;
+      }
+      const child = parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary() {
+    const token = tokens[position++];
+    if (token.type === '(') {
+      const node = parseOr();
+      if (peek() && peek().type === ')') {
+        position++;
+      }
+      return node;
+    }
+    if (token.type === 'field') {
+      const field = findField(token.name);
+      if (field && token.value !== '') {
+        return { type: 'field', field, value: token.value };
+      }
+      return { type: 'text', value: `${token.name}:${token.value}`, phrase: false };
+    }
+    if (token.value === '') {
+      return null;
+    }
+    return { type: 'text', value: token.value, phrase: token.phrase };
+  }
+
+  function combine(type, children) {
+    const nodes = children.filter(child => child);
+    if (nodes.length === 0) {
+      return null;
+    }
+    return nodes.length === 1 ? nodes[0] : { type, children: nodes };
+  }
+
+  const nodes = [];
+  while (position < tokens.length) {
+    // A stray closing parenthesis is ignored
+    if (peek().type === ')') {
+      position++;
+      continue;
+    }
+    nodes.push(parseOr());
+  }
+
+  return combine('and', nodes);
+}
+
+function parseDate(value) {
+  if (!/^\d{4}-\d{2}(-\d{2})?$/.test(value)) {
+    return null;
+  }
+  const date = new Date(value.length === 7 ? `${value}-01` : value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function textCondition(value) {
+  const pattern = escapeRegex(value);
+  return {
+    $or: [
+      { title: { $regex: pattern, $options: 'i' } },
+      { content: { $regex: pattern, $options: 'i' } },
+      { 'translation.title': { $regex: pattern, $options: 'i' } },
+      { 'translation.content': { $regex: pattern, $options: 'i' } },
+      { source: { $regex: pattern, $options: 'i' } }
+    ]
+  };
+}
+
+async function compileField(node) {
+  const { field, value } = node;
+  const exact = { $regex: `^${escapeRegex(value)}$`, $options: 'i' };
+
+  switch (field) {
+    case 'source':
+      return { source: { $regex: escapeRegex(value), $options: 'i' } };
+    case 'industry':
+      return { industries: exact };
+    case 'threatType':
+      return { threatType: exact };
+    case 'threatLevel':
+      return { threatLevel: value.toUpperCase() };
+    case 'keyword': {
+      // alertMatches holds keyword IDs, so resolve the keyword by name first
+      const db = await threatly2DatabaseService.connect();
+      const keywords = await db.collection('Keywords')
+        .find({ $or: [{ name: exact }, { displayName: exact }] }, { projection: { _id: 1 } })
+        .toArray();
+      const ids = keywords.flatMap(keyword => [keyword._id.toString(), keyword._id]);
+      return { alertMatches: { $in: ids } };
+    }
+    case 'cve': {
+      const id = value.replace(/^cve-/i, '');
+      const pattern = id === '*' ? 'CVE-\\d{4}-\\d{4,}' : `CVE-${escapeRegex(id)}`;
+      return {
+        $or: [
+          { title: { $regex: pattern, $options: 'i' } },
+          { content: { $regex: pattern, $options: 'i' } }
+        ]
+      };
+    }
+    case 'after':
+    case 'before': {
+      const date = parseDate(value);
+      if (!date) {
+        return textCondition(`${field}:${value}`);
+      }
+      return { isoDate: field === 'after' ? { $gte: date } : { $lt: date } };
+    }
+    case 'lang':
+      return { lang: value.toLowerCase() };
+    default:
+      return textCondition(value);
+  }
+}
+
+async function compileNode(node) {
+  switch (node.type) {
+    case 'text':
+      return textCondition(node.value);
+    case 'field':
+      return await compileField(node);
+    case 'not':
+      return { $nor: [await compileNode(node.child)] };
+    case 'and':
+      return { $and: await Promise.all(node.children.map(compileNode)) };
+    case 'or':
+      return { $or: await Promise.all(node.children.map(compileNode)) };
+    default:
+      throw new Error(`Unknown search node: ${node.type}`);
+  }
+}
+
+/**
+ * Compile a search query into a Mongo filter for the Articles collection.
+ * Plain words and phrases at the top level go through the text index in a
+ * single $text clause; anything nested under OR, and words in scripts
+ * without word spacing, fall back to a regex.
+ * Returns null for an empty query.
+ */
+async function compileSearchQuery(input) {
+  const tree = parseSearchQuery(input);
+  if (!tree) {
+    return null;
+  }
+
+  const children = tree.type === 'and' ? tree.children : [tree];
+  const isText = (node) => node.type === 'text' && !UNSEGMENTED_SCRIPT.test(node.value);
+  const isNegatedText = (node) => node.type === 'not' && isText(node.child);
+
+  const textTerms = children.filter(isText);
+  const otherNodes = children.filter(node => !isText(node) && !isNegatedText(node));
+  const negatedTerms = children.filter(isNegatedText).map(node => node.child);
+  const conditions = [];
+
+  if (textTerms.length > 0) {
+    // Quoting every term makes $text require all of them instead of any
+    const quote = (value) => `"${value.replace(/"/g, '')}"`;
+    const search = [
+      ...textTerms.map(term => quote(term.value)),
+      ...negatedTerms.map(term => `-${quote(term.value)}`)
+    ].join(' ');
+    conditions.push({ $text: { $search: search } });
+  } else {
+    // $text needs at least one positive term
+    otherNodes.push(...negatedTerms.map(child => ({ type: 'not', child })));
+  }
+
+  for (const node of otherNodes) {
+    conditions.push(await compileNode(node));
+  }
+
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+/**
+ * Suggest values for a field qualifier, used by the search box autocomplete
+ */
+async function suggestFieldValues(field, prefix = '', limit = 10) {
+  const db = await threatly2DatabaseService.connect();
+  const pattern = { $regex: `^${escapeRegex(prefix)}`, $options: 'i' };
+  let values = [];
+
+  switch (field) {
+    case 'source':
+      values = await db.collection('Articles').distinct('source', { source: pattern });
+      break;
+    case 'industry':
+      // distinct returns every industry of a matching article, so filter again
+      values = (await db.collection('Articles').distinct('industries', { industries: pattern }))
+        .filter(value => typeof value === 'string' && value.toLowerCase().startsWith(prefix.toLowerCase()));
+      break;
+    case 'threatType':
+      values = await db.collection('Articles').distinct('threatType', { threatType: pattern });
+      values = values.filter(value => value !== 'N/A');
+      break;
+    case 'threatLevel':
+      values = ['HIGH', 'MEDIUM', 'LOW', 'NONE'].filter(value => value.startsWith(prefix.toUpperCase()));
+      break;
+    case 'lang':
+      values = await db.collection('Articles').distinct('lang', { lang: pattern });
+      values = values.filter(value => value !== 'und');
+      break;
+    case 'keyword':
+      values = await db.collection('Keywords').distinct('name', { name: pattern, isActive: { $ne: false } });
+      break;
+    default:
+      values = [];
+  }
+
+  return values.filter(value => value).sort().slice(0, limit);
+}
+
+module.exports = {
+  SEARCH_FIELDS,
+  escapeRegex,
+  parseSearchQuery,
+  compileSearchQuery,
+  suggestFieldValues
+};
@@ -0,0 +1,80 @@
+const crypto = require('crypto');
+
+/**
+ * 64-bit simhash over word shingles, used to find near-duplicate articles.
+ * Texts that differ in a few words get hashes that differ in a few bits.
+ */
+
+// Words, word pairs and triples: with short texts, single words keep the
+// hash stable under small edits and longer shingles keep word order
+const SHINGLE_SIZES = [1, 2, 3];
+// Only the start of the content is hashed: copies of a story share the lead
+// but differ in length (snippet vs. full text, added boilerplate)
+const MAX_TOKENS = 80;
+// Shorter texts ("Weekly update") say too little to compare
+const MIN_TOKENS = 8;
+const BITS = 64;
+
+function tokenize(text) {
+  return String(text || '')
+    .replace(/<[^>]+>/g, ' ')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function getShingles(tokens) {
+  const shingles = [];
+  for (const size of SHINGLE_SIZES) {
+    for (let i = 0; i + size <= tokens.length; i++) {
+      shingles.push(tokens.slice(i, i + size).join(' '));
+    }
+  }
+  return shingles;
+}
+
+/**
+ * Simhash of a text
+ * @param {string} text
+ * @returns {string|null} 16 hex characters, or null if the text is too short
+ */
+function computeSimhash(text) {
+  const tokens = tokenize(text).slice(0, MAX_TOKENS);
+  if (tokens.length < MIN_TOKENS) {
+    return null;
+  }
+
+  const weights = new Array(BITS).fill(0);
+  for (const shingle of getShingles(tokens)) {
+    const hash = crypto.createHash('md5').update(shingle).digest().readBigUInt64BE(0);
+    for (let bit = 0; bit < BITS; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let simhash = 0n;
+  weights.forEach((weight, bit) => {
+    if (weight > 0) {
+      simhash |= 1n << BigInt(bit);
+    }
+  });
+  return simhash.toString(16).padStart(BITS / 4, '0');
+}
+
+/**
+ * Number of differing bits between two simhashes
+ */
+function hammingDistance(a, b) {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff) {
+    diff &= diff - 1n;
+    count++;
+  }
+  return count;
+}
+
+module.exports = {
+  computeSimhash,
+  hammingDistance
+};
@@ -0,0 +1,120 @@
+/**
+ * Word-level diff of article text, used to decide whether an updated
+ * article changed materially and to show what changed.
+ */
+
+// Above this many cells the LCS table is skipped and the changed middle is
+// reported as one removal and one addition
+const MAX_TABLE_CELLS = 4000000;
+
+const ENTITIES = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&nbsp;': ' ' };
+
+// Tags that separate words; other tags (b, a, span, ...) can sit inside a word or before punctuation
+const BLOCK_TAG = /<\/?(?:address|article|aside|blockquote|br|dd|div|dl|dt|figcaption|figure|footer|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|tbody|td|tfoot|th|thead|tr|ul)\b[^>]*>/gi;
+
+/**
+ * Plain text of article content: markup removed, whitespace collapsed.
+ * Inline tags are removed without a space, so "<b>bug</b>." stays "bug.".
+ */
+function toPlainText(value) {
+  return String(value || '')
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(BLOCK_TAG, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tokenize(text) {
+  return text ? text.split(' ') : [];
+}
+
+// Consecutive tokens of the same kind become one part
+function pushPart(parts, type, token) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += ` ${token}`;
+  } else {
+    parts.push({ type, text: token });
+  }
+}
+
+/**
+ * Diff two texts word by word. Markup and whitespace are ignored.
+ * @param {string} before
+ * @param {string} after
+ * @returns {Object} { parts: [{ type: 'equal'|'added'|'removed', text }], added, removed }
+ *   with added/removed word counts
+ */
+function diffWords(before, after) {
+  const a = tokenize(toPlainText(before));
+  const b = tokenize(toPlainText(after));
+
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middle = [];
+  const rows = endA - start;
+  const cols = endB - start;
+  if (rows * cols > MAX_TABLE_CELLS) {
+    a.slice(start, endA).forEach(token => middle.push(['removed', token]));
+    b.slice(start, endB).forEach(token => middle.push(['added', token]));
+  } else if (rows > 0 || cols > 0) {
+    // lengths[i][j]: longest common subsequence of a[start + i..] and b[start + j..]
+    const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i][j] = a[start + i] === b[start + j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && a[start + i] === b[start + j]) {
+        middle.push(['equal', a[start + i]]);
+        i++;
+        j++;
+      } else if (i < rows && (j === cols || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        middle.push(['removed', a[start + i]]);
+        i++;
+      } else {
+        middle.push(['added', b[start + j]]);
+        j++;
+      }
+    }
+  }
+
+  const parts = [];
+  let added = 0;
+  let removed = 0;
+  a.slice(0, start).forEach(token => pushPart(parts, 'equal', token));
+  middle.forEach(([type, token]) => {
+    if (type === 'added') {
+      added++;
+    } else if (type === 'removed') {
+      removed++;
+    }
+    pushPart(parts, type, token);
+  });
+  a.slice(endA).forEach(token => pushPart(parts, 'equal', token));
+
+  return { parts, added, removed };
+}
+
+module.exports = {
+  toPlainText,
+  diffWords
+};